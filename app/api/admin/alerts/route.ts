@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sql } from '@/lib/db';
+import { jsonError } from '@/lib/api-response';
+import { getEdition } from '@/lib/editions';
+import { buildResolveAlertsQuery } from '@/lib/survey-storage';
+import {
+  createGuardContext,
+  createGuardPipeline,
+  requireBody,
+  adminAuthGuard,
+  parseIdList,
+  MAX_ADMIN_BATCH_SIZE,
+  bodySizeGuard,
+  jsonBodyGuard,
+} from '@/lib/guards';
+
+// 直接查询告警表，不使用缓存
+export const dynamic = 'force-dynamic';
+
+const ALERT_STATUSES = ['open', 'quarantined', 'dismissed'] as const;
+
+const runListGuards = createGuardPipeline([
+  adminAuthGuard(), // 1. 管理密钥
+]);
+
+const runReviewGuards = createGuardPipeline([
+  adminAuthGuard(), // 1. 管理密钥
+  bodySizeGuard(16384), // 2. 请求体大小（16KB 限制）
+  jsonBodyGuard(), // 3. 解析请求体
+]);
+
+const NO_STORE_HEADERS = {
+  'Cache-Control': 'no-store',
+  'X-Content-Type-Options': 'nosniff',
+};
+
+/**
+ * 列出协同攻击告警（见 lib/coordination-detection.ts），最新的在前
+ * 查询参数：edition（可选）、status（默认 open）
+ */
+export async function GET(request: NextRequest) {
+  const context = createGuardContext(request);
+  const { locale } = context;
+
+  try {
+    const rejection = await runListGuards(context);
+    if (rejection) {
+      return rejection;
+    }
+
+    const params = request.nextUrl.searchParams;
+    const editionParam = params.get('edition');
+    if (editionParam && !getEdition(editionParam)) {
+      return jsonError(locale, 400, 'api.invalidEdition', 'api.invalidEditionHint');
+    }
+    const status = params.get('status') || 'open';
+    if (!(ALERT_STATUSES as readonly string[]).includes(status)) {
+      return jsonError(locale, 400, 'api.invalidRequest');
+    }
+
+    const alerts = await sql.query(
+      `SELECT id, edition_id, kind, question_id, detail, response_ids, window_start, window_end,
+              status, created_at, resolved_at
+       FROM coordination_alerts
+       WHERE status = $1 AND ($2::text IS NULL OR edition_id = $2)
+       ORDER BY created_at DESC
+       LIMIT ${MAX_ADMIN_BATCH_SIZE}`,
+      [status, editionParam]
+    );
+
+    return NextResponse.json({ success: true, alerts }, { headers: NO_STORE_HEADERS });
+  } catch (error) {
+    console.error('[Alerts List Error]', error instanceof Error ? error.message : error);
+    return jsonError(locale, 500, 'api.alertsFailed', undefined, { headers: NO_STORE_HEADERS });
+  }
+}
+
+/**
+ * 批量处理告警
+ * 请求体：{ action: 'quarantine' | 'dismiss', ids: number[] }（告警 id）
+ * - quarantine：把告警标记的回复移入隔离表，统计由触发器重算（之后可在 /api/admin/quarantine 放行或丢弃）
+ *   分布突变（shift）告警是问题级的，不标记回复，处理后只更新告警状态
+ * - dismiss：忽略告警，回复保留在统计中
+ */
+export async function POST(request: NextRequest) {
+  const context = createGuardContext(request);
+  const { locale } = context;
+
+  try {
+    const rejection = await runReviewGuards(context);
+    if (rejection) {
+      return rejection;
+    }
+
+    const body = requireBody(context);
+    const action = body['action'];
+    const ids = parseIdList(body['ids']);
+    if ((action !== 'quarantine' && action !== 'dismiss') || !ids) {
+      return jsonError(locale, 400, 'api.invalidRequest', undefined, {
+        extra: { maxBatchSize: MAX_ADMIN_BATCH_SIZE },
+      });
+    }
+
+    // 1. 更新告警状态，隔离时同时移动告警标记的回复（单条语句）
+    const query = buildResolveAlertsQuery(action, ids);
+    const resolved = (await sql.query(query.text, query.params)) as Array<{ id: number; quarantined: number }>;
+    const processed = resolved.map(row => row.id);
+    const quarantined = resolved[0]?.quarantined ?? 0;
+
+    console.info(`[Alerts] ${action} ${processed.length}/${ids.length}, ${quarantined} responses quarantined`);
+
+    return NextResponse.json(
+      {
+        success: true,
+        action,
+        processed,
+        // 已被处理过或不存在的告警
+        skipped: ids.filter(id => !processed.includes(id)),
+        quarantined,
+      },
+      { headers: NO_STORE_HEADERS }
+    );
+  } catch (error) {
+    console.error('[Alerts Review Error]', error instanceof Error ? error.message : error);
+    return jsonError(locale, 500, 'api.alertsFailed', undefined, { headers: NO_STORE_HEADERS });
+  }
+}
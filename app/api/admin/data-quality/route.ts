@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sql } from '@/lib/db';
+import { jsonError } from '@/lib/api-response';
+import { getEdition } from '@/lib/editions';
+import { questions, isAttentionCheck } from '@/lib/questions';
+import { QUARANTINE_TABLE } from '@/lib/survey-storage';
+import { createGuardContext, createGuardPipeline, adminAuthGuard } from '@/lib/guards';
+
+// 直接查询回复表，不使用缓存
+export const dynamic = 'force-dynamic';
+
+const runGuards = createGuardPipeline([
+  adminAuthGuard(), // 1. 管理密钥
+]);
+
+const NO_STORE_HEADERS = {
+  'Cache-Control': 'no-store',
+  'X-Content-Type-Options': 'nosniff',
+};
+
+type EditionCount = { edition_id: string } & Record<string, number | string>;
+
+/**
+ * 按期次汇总查询结果：edition_id -> 其余列
+ */
+function byEdition(rows: EditionCount[]): Map<string, Record<string, number | string>> {
+  return new Map(rows.map(({ edition_id, ...rest }) => [edition_id, rest]));
+}
+
+/**
+ * 数据质量报告（按期次）
+ * 查询参数：edition（可选，默认全部期次）
+ * - total / lowQuality：正式表的回复数和其中低质量（注意力检查答错，不计入统计）的回复数
+ * - attentionFailures：每道注意力检查题答错的回复数
+ * - riskDecisions：正式表回复按风险处理结果计数（accept | released | 未评分）
+ * - quarantined：隔离表中待审核的回复数
+ * - openAlerts：未处理的协同攻击告警数
+ */
+export async function GET(request: NextRequest) {
+  const context = createGuardContext(request);
+  const { locale } = context;
+
+  try {
+    const rejection = await runGuards(context);
+    if (rejection) {
+      return rejection;
+    }
+
+    const editionParam = request.nextUrl.searchParams.get('edition');
+    if (editionParam && !getEdition(editionParam)) {
+      return jsonError(locale, 400, 'api.invalidEdition', 'api.invalidEditionHint');
+    }
+
+    // 列名来自 questions 配置（受信任的常量）
+    const attentionIds = questions.filter(isAttentionCheck).map(q => q.id);
+    const failureColumns = attentionIds
+      .map(id => `COUNT(*) FILTER (WHERE quality_flags ? '${id}')::int AS "${id}"`)
+      .join(', ');
+
+    const [responses, decisions, quarantined, alerts] = await Promise.all([
+      sql.query(
+        `SELECT edition_id, COUNT(*)::int AS total, COUNT(*) FILTER (WHERE low_quality)::int AS low_quality
+                ${failureColumns ? `, ${failureColumns}` : ''}
+         FROM survey_responses
+         WHERE ($1::text IS NULL OR edition_id = $1)
+         GROUP BY edition_id`,
+        [editionParam]
+      ),
+      sql.query(
+        `SELECT edition_id, COALESCE(risk_decision, 'unscored') AS decision, COUNT(*)::int AS count
+         FROM survey_responses
+         WHERE ($1::text IS NULL OR edition_id = $1)
+         GROUP BY edition_id, decision`,
+        [editionParam]
+      ),
+      sql.query(
+        `SELECT edition_id, COUNT(*)::int AS count FROM ${QUARANTINE_TABLE}
+         WHERE ($1::text IS NULL OR edition_id = $1)
+         GROUP BY edition_id`,
+        [editionParam]
+      ),
+      sql.query(
+        `SELECT edition_id, COUNT(*)::int AS count FROM coordination_alerts
+         WHERE status = 'open' AND ($1::text IS NULL OR edition_id = $1)
+         GROUP BY edition_id`,
+        [editionParam]
+      ),
+    ]);
+
+    const responseCounts = byEdition(responses as EditionCount[]);
+    const quarantinedCounts = byEdition(quarantined as EditionCount[]);
+    const alertCounts = byEdition(alerts as EditionCount[]);
+    const editionIds = new Set([
+      ...responseCounts.keys(),
+      ...quarantinedCounts.keys(),
+      ...alertCounts.keys(),
+    ]);
+
+    const editions = [...editionIds].sort().map(editionId => {
+      const counts = responseCounts.get(editionId);
+      return {
+        edition: editionId,
+        total: Number(counts?.['total'] ?? 0),
+        lowQuality: Number(counts?.['low_quality'] ?? 0),
+        attentionFailures: Object.fromEntries(attentionIds.map(id => [id, Number(counts?.[id] ?? 0)])),
+        riskDecisions: Object.fromEntries(
+          (decisions as Array<{ edition_id: string; decision: string; count: number }>)
+            .filter(row => row.edition_id === editionId)
+            .map(row => [row.decision, row.count])
+        ),
+        quarantined: Number(quarantinedCounts.get(editionId)?.['count'] ?? 0),
+        openAlerts: Number(alertCounts.get(editionId)?.['count'] ?? 0),
+      };
+    });
+
+    return NextResponse.json({ success: true, editions }, { headers: NO_STORE_HEADERS });
+  } catch (error) {
+    console.error('[Data Quality Error]', error instanceof Error ? error.message : error);
+    return jsonError(locale, 500, 'api.dataQualityFailed', undefined, { headers: NO_STORE_HEADERS });
+  }
+}
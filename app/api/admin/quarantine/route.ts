@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sql } from '@/lib/db';
+import { jsonError } from '@/lib/api-response';
+import { getEdition } from '@/lib/editions';
+import {
+  QUARANTINE_TABLE,
+  buildReleaseQuery,
+  buildDiscardQuery,
+} from '@/lib/survey-storage';
+import {
+  createGuardContext,
+  createGuardPipeline,
+  requireBody,
+  adminAuthGuard,
+  parseIdList,
+  MAX_ADMIN_BATCH_SIZE,
+  bodySizeGuard,
+  jsonBodyGuard,
+} from '@/lib/guards';
+
+// 直接查询隔离表，不使用缓存
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIST_LIMIT = 100;
+
+const runListGuards = createGuardPipeline([
+  adminAuthGuard(), // 1. 管理密钥
+]);
+
+const runReviewGuards = createGuardPipeline([
+  adminAuthGuard(), // 1. 管理密钥
+  bodySizeGuard(16384), // 2. 请求体大小（16KB 限制）
+  jsonBodyGuard(), // 3. 解析请求体
+]);
+
+const NO_STORE_HEADERS = {
+  'Cache-Control': 'no-store',
+  'X-Content-Type-Options': 'nosniff',
+};
+
+/**
+ * 列出待审核的隔离回复（按隔离时间排序，可按期次过滤）
+ * 查询参数：edition（可选）、limit（默认 100，最多 500）
+ */
+export async function GET(request: NextRequest) {
+  const context = createGuardContext(request);
+  const { locale } = context;
+
+  try {
+    const rejection = await runListGuards(context);
+    if (rejection) {
+      return rejection;
+    }
+
+    const params = request.nextUrl.searchParams;
+    const editionParam = params.get('edition');
+    if (editionParam && !getEdition(editionParam)) {
+      return jsonError(locale, 400, 'api.invalidEdition', 'api.invalidEditionHint');
+    }
+    const limit = Math.min(
+      Math.max(parseInt(params.get('limit') || '') || DEFAULT_LIST_LIMIT, 1),
+      MAX_ADMIN_BATCH_SIZE
+    );
+
+    const [responses, counts] = await Promise.all([
+      sql.query(
+        `SELECT * FROM ${QUARANTINE_TABLE}
+         WHERE ($1::text IS NULL OR edition_id = $1)
+         ORDER BY quarantined_at ASC, id ASC
+         LIMIT $2`,
+        [editionParam, limit]
+      ),
+      sql.query(
+        `SELECT COUNT(*)::int AS total FROM ${QUARANTINE_TABLE}
+         WHERE ($1::text IS NULL OR edition_id = $1)`,
+        [editionParam]
+      ),
+    ]);
+
+    return NextResponse.json(
+      {
+        success: true,
+        total: (counts[0] as { total: number } | undefined)?.total ?? 0,
+        responses,
+      },
+      { headers: NO_STORE_HEADERS }
+    );
+  } catch (error) {
+    console.error('[Quarantine List Error]', error instanceof Error ? error.message : error);
+    return jsonError(locale, 500, 'api.quarantineFailed', undefined, { headers: NO_STORE_HEADERS });
+  }
+}
+
+/**
+ * 批量审核隔离回复
+ * 请求体：{ action: 'release' | 'discard', ids: number[] }
+ * - release：移回正式表，统计由触发器重算
+ * - discard：直接删除
+ */
+export async function POST(request: NextRequest) {
+  const context = createGuardContext(request);
+  const { locale } = context;
+
+  try {
+    const rejection = await runReviewGuards(context);
+    if (rejection) {
+      return rejection;
+    }
+
+    const body = requireBody(context);
+    const action = body['action'];
+    const ids = parseIdList(body['ids']);
+    if ((action !== 'release' && action !== 'discard') || !ids) {
+      return jsonError(locale, 400, 'api.invalidRequest', undefined, {
+        extra: { maxBatchSize: MAX_ADMIN_BATCH_SIZE },
+      });
+    }
+
+    const query = action === 'release' ? buildReleaseQuery(ids) : buildDiscardQuery(ids);
+    const rows = (await sql.query(query.text, query.params)) as Array<{ id: number }>;
+    const processed = rows.map(row => row.id);
+
+    console.info(`[Quarantine] ${action} ${processed.length}/${ids.length}`);
+
+    return NextResponse.json(
+      {
+        success: true,
+        action,
+        processed,
+        // 已被处理过或不存在的 id
+        skipped: ids.filter(id => !processed.includes(id)),
+      },
+      { headers: NO_STORE_HEADERS }
+    );
+  } catch (error) {
+    console.error('[Quarantine Review Error]', error instanceof Error ? error.message : error);
+    return jsonError(locale, 500, 'api.quarantineFailed', undefined, { headers: NO_STORE_HEADERS });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sql } from '@/lib/db';
+import { jsonError } from '@/lib/api-response';
+import { createGuardContext, createGuardPipeline, adminAuthGuard } from '@/lib/guards';
+
+// 直接操作统计表，不使用缓存
+export const dynamic = 'force-dynamic';
+
+const runGuards = createGuardPipeline([
+  adminAuthGuard(), // 1. 管理密钥
+]);
+
+const NO_STORE_HEADERS = {
+  'Cache-Control': 'no-store',
+  'X-Content-Type-Options': 'nosniff',
+};
+
+/**
+ * 从头重算全部期次的统计（aggregated_stats 平时由触发器增量维护，见 scripts/init-db.sql）
+ * 用于核对增量结果或修复漂移；重算期间回复表的写入会被阻塞，回复较多时应在低峰期执行
+ * 返回每期的回复数，以及重算前的增量结果是否与重算结果不一致（drifted）
+ */
+export async function POST(request: NextRequest) {
+  const context = createGuardContext(request);
+  const { locale } = context;
+
+  try {
+    const rejection = await runGuards(context);
+    if (rejection) {
+      return rejection;
+    }
+
+    const rows = (await sql`SELECT * FROM rebuild_aggregated_stats()`) as Array<{
+      edition: string;
+      responses: number;
+      drifted: boolean;
+    }>;
+
+    const editions = rows.map(row => ({
+      edition: row.edition,
+      total: Number(row.responses),
+      drifted: row.drifted,
+    }));
+    const drifted = editions.filter(edition => edition.drifted).map(edition => edition.edition);
+    if (drifted.length > 0) {
+      console.warn('[Rebuild Stats] 增量统计与重算结果不一致:', drifted.join(', '));
+    }
+
+    return NextResponse.json({ success: true, editions }, { headers: NO_STORE_HEADERS });
+  } catch (error) {
+    console.error('[Rebuild Stats Error]', error instanceof Error ? error.message : error);
+    return jsonError(locale, 500, 'api.rebuildStatsFailed', undefined, { headers: NO_STORE_HEADERS });
+  }
+}
@@ -30,6 +30,7 @@ export async function POST(request: Request) {
     const results = {
       rateLimitCleaned: 0,
       tokensCleaned: 0,
+      deviceLimitsCleaned: 0,
     };
 
     // 清理过期的速率限制记录
@@ -37,8 +38,8 @@ export async function POST(request: Request) {
       await sql`SELECT cleanup_old_rate_limit_records()`;
       const rateLimitCount = await sql`
         SELECT COUNT(*) as count
-        FROM rate_limit_global
-        WHERE window_start < NOW() - INTERVAL '1 hour'
+        FROM rate_limit_events
+        WHERE created_at < NOW() - INTERVAL '1 hour'
       ` as Array<{ count: string }>;
       results.rateLimitCleaned = parseInt(rateLimitCount[0]?.['count'] || '0');
     } catch (error) {
@@ -58,6 +59,17 @@ export async function POST(request: Request) {
       console.error('[Cleanup] Token cleanup failed:', error);
     }
 
+    // 清理前一天的盐和设备计数（盐删除后旧的设备键不可再关联）
+    try {
+      // 函数返回删除的计数记录数
+      const deviceCount = await sql`
+        SELECT cleanup_expired_device_limits() AS count
+      ` as Array<{ count: number | null }>;
+      results.deviceLimitsCleaned = Number(deviceCount[0]?.['count'] ?? 0);
+    } catch (error) {
+      console.error('[Cleanup] Device limit cleanup failed:', error);
+    }
+
     return NextResponse.json({
       success: true,
       message: "清理完成",
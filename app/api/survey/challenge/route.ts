@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jsonError } from '@/lib/api-response';
+import { issuePowChallenge } from '@/lib/proof-of-work';
+import {
+  createGuardContext,
+  createGuardPipeline,
+  csrfGuard,
+  rateLimitGuard,
+} from '@/lib/guards';
+
+// 签发题目前的检查（题目单独计数，与签发答题会话同时发生，不重复计入 session 桶）
+const runChallengeGuards = createGuardPipeline([
+  csrfGuard(), // 1. CSRF 保护
+  rateLimitGuard('challenge'), // 2. 申请题目速率限制
+]);
+
+/**
+ * 签发工作量证明题目（人机验证服务商为 pow 时，用户开始答题时调用）
+ */
+export async function POST(request: NextRequest) {
+  const context = createGuardContext(request);
+  const { locale } = context;
+
+  try {
+    const rejection = await runChallengeGuards(context);
+    if (rejection) {
+      return rejection;
+    }
+
+    const challenge = await issuePowChallenge();
+
+    return NextResponse.json({ success: true, ...challenge }, {
+      headers: {
+        'Cache-Control': 'no-store',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    console.error('[Proof of Work Challenge Error]', error instanceof Error ? error.message : error);
+    return jsonError(locale, 500, 'api.challengeUnavailable', 'api.challengeUnavailableHint', {
+      headers: {
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  }
+}
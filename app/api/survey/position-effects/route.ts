@@ -0,0 +1,172 @@
+import { NextResponse } from "next/server";
+import { sql } from "@/lib/db";
+import { checkRateLimit, getRateLimitHeaders } from "@/lib/rate-limit";
+import { getCurrentEdition, getEdition } from "@/lib/editions";
+import { questions, type Question } from "@/lib/questions";
+import { isShuffled } from "@/lib/option-order";
+import { buildPositionEffectsQuery } from "@/lib/survey-storage";
+import { getRequestLocale, jsonError } from "@/lib/api-response";
+
+// 直接查询 survey_responses，不使用缓存
+export const dynamic = 'force-dynamic';
+
+interface PositionCount {
+  position: number;
+  shown: number;
+  chosen: number;
+  rate: number;
+}
+
+interface PositionRow {
+  code: string;
+  position: number;
+  shown: number;
+  chosen: number;
+}
+
+/**
+ * 计算选中率（保留 4 位小数）
+ */
+function toRate(chosen: number, shown: number): number {
+  return shown > 0 ? Math.round((chosen / shown) * 10000) / 10000 : 0;
+}
+
+/**
+ * 汇总单个问题的位置效应
+ * - options: 每个选项在各展示位置上的选中率（同一选项不同位置的选中率差异即位置效应）
+ * - positions: 各展示位置的整体选中率（反映首位/末位偏好）
+ */
+function summarize(question: Question, rows: PositionRow[]) {
+  const byPosition = new Map<number, PositionCount>();
+
+  const options = (question.options ?? []).map((opt) => {
+    const positions = rows
+      .filter((row) => row.code === opt.code)
+      .map((row) => ({
+        position: row.position,
+        shown: row.shown,
+        chosen: row.chosen,
+        rate: toRate(row.chosen, row.shown),
+      }));
+
+    for (const p of positions) {
+      const total = byPosition.get(p.position) ?? { position: p.position, shown: 0, chosen: 0, rate: 0 };
+      total.shown += p.shown;
+      total.chosen += p.chosen;
+      byPosition.set(p.position, total);
+    }
+
+    const shown = positions.reduce((sum, p) => sum + p.shown, 0);
+    const chosen = positions.reduce((sum, p) => sum + p.chosen, 0);
+    return {
+      code: opt.code,
+      pinned: !!opt.pinned,
+      shown,
+      chosen,
+      rate: toRate(chosen, shown),
+      positions,
+    };
+  });
+
+  const positions = [...byPosition.values()]
+    .sort((a, b) => a.position - b.position)
+    .map((p) => ({ ...p, rate: toRate(p.chosen, p.shown) }));
+
+  return {
+    id: question.id,
+    type: question.type,
+    // 每位答题者在每个位置恰好看到一个选项，因此第 1 位的展示次数即有效样本数
+    respondents: positions[0]?.shown ?? 0,
+    options,
+    positions,
+  };
+}
+
+/**
+ * 选项位置效应分析
+ * 只统计打乱顺序的问题，返回选项编码（客户端负责解析为文案）
+ */
+export async function GET(request: Request) {
+  const locale = getRequestLocale(request);
+
+  try {
+    // 解析期次参数（默认当前期）
+    const editionParam = new URL(request.url).searchParams.get("edition");
+    const edition = editionParam ? getEdition(editionParam) : getCurrentEdition();
+    if (!edition) {
+      return jsonError(locale, 400, "api.invalidEdition", "api.invalidEditionHint");
+    }
+
+    // 检查速率限制（防止滥用，只读接口单独计数，不影响提交）
+    const rateLimit = await checkRateLimit("read");
+    if (!rateLimit.allowed) {
+      // 存储不可用且按 closed 策略拒绝时返回 503，其余为正常限流 429
+      const [status, errorKey] = rateLimit.storeUnavailable
+        ? [503, "api.serverBusy" as const]
+        : [429, "api.tooManyRequests" as const];
+      return jsonError(locale, status, errorKey, "api.retryLater", {
+        headers: getRateLimitHeaders(rateLimit),
+      });
+    }
+
+    const dbTimeoutPromise = new Promise<never>((_, reject) => {
+      setTimeout(() => reject(new Error("Database timeout")), 10000); // 10秒超时
+    });
+
+    const shuffled = questions.filter(isShuffled);
+    const results = await Promise.race([
+      Promise.all(
+        shuffled.map(async (question) => {
+          const query = buildPositionEffectsQuery(question, edition.id);
+          const rows = (await sql.query(query.text, query.params)) as PositionRow[];
+          return summarize(question, rows);
+        }),
+      ),
+      dbTimeoutPromise,
+    ]);
+
+    return NextResponse.json(
+      {
+        success: true,
+        edition: {
+          id: edition.id,
+          year: edition.year,
+        },
+        questions: results,
+      },
+      {
+        headers: {
+          "Cache-Control": "no-cache",
+          "X-Content-Type-Options": "nosniff",
+          "X-Frame-Options": "SAMEORIGIN",
+          ...getRateLimitHeaders(rateLimit),
+        },
+      },
+    );
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    console.error("[Position Effects API Error]", {
+      message: errorMessage,
+      stack:
+        process.env.NODE_ENV === "development" && error instanceof Error
+          ? error.stack
+          : undefined,
+    });
+
+    if (errorMessage.includes("timeout")) {
+      return jsonError(locale, 503, "api.dbTimeout", "api.dbTimeoutHint", {
+        headers: {
+          "X-Content-Type-Options": "nosniff",
+        },
+      });
+    }
+
+    return jsonError(locale, 500, "api.statsFailed", "api.statsFailedHint", {
+      headers: {
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  }
+}
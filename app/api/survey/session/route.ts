@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jsonError } from '@/lib/api-response';
+import { issueSurveySession } from '@/lib/survey-session';
+import {
+  createGuardContext,
+  createGuardPipeline,
+  requireBody,
+  csrfGuard,
+  rateLimitGuard,
+  bodySizeGuard,
+  jsonBodyGuard,
+  editionGuard,
+} from '@/lib/guards';
+
+// 签发会话前的检查（与提交接口共用守卫）
+const runSessionGuards = createGuardPipeline([
+  csrfGuard(), // 1. CSRF 保护
+  rateLimitGuard('session'), // 2. 开始答题速率限制
+  bodySizeGuard(1024), // 3. 请求体大小（只包含期次）
+  jsonBodyGuard(), // 4. 解析请求体
+  editionGuard(), // 5. 期次是否接受提交
+]);
+
+/**
+ * 签发答题会话（用户点击"开始匿名记录"时调用）
+ * 返回的 sessionToken 记录服务端开始时间，提交问卷时一并发送
+ */
+export async function POST(request: NextRequest) {
+  const context = createGuardContext(request);
+  const { locale } = context;
+
+  try {
+    const rejection = await runSessionGuards(context);
+    if (rejection) {
+      return rejection;
+    }
+
+    const { token, session } = issueSurveySession(requireBody(context)['edition'] as string);
+
+    return NextResponse.json(
+      {
+        success: true,
+        sessionToken: token,
+        expiresAt: session.expiresAt,
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+          'X-Content-Type-Options': 'nosniff',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('[Survey Session Error]', error instanceof Error ? error.message : error);
+    return jsonError(locale, 500, 'api.sessionUnavailable', 'api.sessionUnavailableHint', {
+      headers: {
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  }
+}
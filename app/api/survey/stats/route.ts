@@ -1,24 +1,36 @@
 import { NextResponse } from "next/server";
 import { sql } from "@/lib/db";
-import { checkGlobalRateLimit } from "@/lib/rate-limit";
+import { checkRateLimit, getRateLimitHeaders } from "@/lib/rate-limit";
+import { getCurrentEdition, getEdition, isEditionOpen } from "@/lib/editions";
+import { getRequestLocale, jsonError } from "@/lib/api-response";
+import { summarizeSalaryHistogram } from "@/lib/salary-stats";
 
 // 禁用 Next.js 缓存，因为 aggregated_stats 表由触发器实时维护
 export const dynamic = 'force-dynamic';
 
-export async function GET() {
+export async function GET(request: Request) {
+  const locale = getRequestLocale(request);
+
   try {
-    // 检查速率限制（防止滥用）
-    const rateLimitPassed = await checkGlobalRateLimit();
-    if (!rateLimitPassed) {
-      return NextResponse.json(
-        {
-          error: "请求过于频繁",
-          message: "请稍后再试",
-        },
-        { status: 429 },
-      );
+    // 解析期次参数（默认当前期）
+    const editionParam = new URL(request.url).searchParams.get("edition");
+    const edition = editionParam ? getEdition(editionParam) : getCurrentEdition();
+    if (!edition) {
+      return jsonError(locale, 400, "api.invalidEdition", "api.invalidEditionHint");
     }
-    // 从预计算的 aggregated_stats 表读取数据（触发器自动维护）
+
+    // 检查速率限制（防止滥用，只读接口单独计数，不影响提交）
+    const rateLimit = await checkRateLimit("read");
+    if (!rateLimit.allowed) {
+      // 存储不可用且按 closed 策略拒绝时返回 503，其余为正常限流 429
+      const [status, errorKey] = rateLimit.storeUnavailable
+        ? [503, "api.serverBusy" as const]
+        : [429, "api.tooManyRequests" as const];
+      return jsonError(locale, status, errorKey, "api.retryLater", {
+        headers: getRateLimitHeaders(rateLimit),
+      });
+    }
+    // 从预计算的 aggregated_stats 表读取数据（触发器按行增量维护）
     const dbTimeoutPromise = new Promise((_, reject) => {
       setTimeout(() => reject(new Error("Database timeout")), 10000); // 10秒超时
     });
@@ -27,7 +39,7 @@ export async function GET() {
       sql`
         SELECT
           total_responses as total,
-          avg_salary_months as avg_months,
+          salary_histogram,
           income_growth,
           income_stable,
           income_decline,
@@ -35,32 +47,32 @@ export async function GET() {
           friends_mixed,
           friends_worse,
           arrears_safe,
-          arrears_risk
+          arrears_risk,
+          pay_components_change,
+          welfare_cut_respondents,
+          welfare_cut,
+          welfare_cut_pairs,
+          friends_arrears_perception
         FROM aggregated_stats
-        WHERE id = 1
+        WHERE edition_id = ${edition.id}
       `,
       dbTimeoutPromise,
     ])) as any[];
-    const result = stats[0];
-
-    // 验证查询结果
-    if (!result) {
-
-      return NextResponse.json(
-        {
-          error: "数据查询失败",
-          message: "无法获取统计数据",
-        },
-        { status: 500 },
-      );
-    }
+    // 新开的期次在收到第一条回复前没有统计行，按全 0 返回
+    const result = stats[0] ?? {};
 
     return NextResponse.json(
       {
         success: true,
+        edition: {
+          id: edition.id,
+          year: edition.year,
+          readOnly: !isEditionOpen(edition.id),
+        },
         stats: {
           total: parseInt(result.total) || 0,
-          avgMonths: parseFloat(result.avg_months).toFixed(1),
+          // 实发薪资月数：均值、中位数、P25/P75、低于 12 个月的比例和完整分布（由直方图计算）
+          salaryMonths: summarizeSalaryHistogram(result.salary_histogram ?? {}),
           income: {
             growth: parseInt(result.income_growth) || 0,
             stable: parseInt(result.income_stable) || 0,
@@ -75,6 +87,22 @@ export async function GET() {
             safe: parseInt(result.arrears_safe) || 0,
             risk: parseInt(result.arrears_risk) || 0,
           },
+          // 矩阵题：子项编码 -> 选项编码 -> 人数（客户端负责解析为文案）
+          matrix: {
+            pay_components_change: result.pay_components_change ?? {},
+          },
+          // 多选题：回答人数、每个选项的人数、两两同时选择的人数（选项编码 -> 选项编码 -> 人数）
+          multi: {
+            welfare_cut: {
+              respondents: parseInt(result.welfare_cut_respondents) || 0,
+              counts: result.welfare_cut ?? {},
+              pairs: result.welfare_cut_pairs ?? {},
+            },
+          },
+          // 单选题完整分布：选项编码 -> 人数
+          choice: {
+            friends_arrears_perception: result.friends_arrears_perception ?? {},
+          },
         },
       },
       {
@@ -82,6 +110,7 @@ export async function GET() {
           "Cache-Control": "no-cache",
           "X-Content-Type-Options": "nosniff",
           "X-Frame-Options": "SAMEORIGIN",
+          ...getRateLimitHeaders(rateLimit),
         },
       },
     );
@@ -100,31 +129,17 @@ export async function GET() {
     }
     // 超时错误返回503
     if (errorMessage.includes("timeout")) {
-      return NextResponse.json(
-        {
-          error: "数据库操作超时",
-          message: "服务器繁忙，请稍后重试",
-        },
-        {
-          status: 503,
-          headers: {
-            "X-Content-Type-Options": "nosniff",
-          },
-        },
-      );
-    }
-
-    return NextResponse.json(
-      {
-        error: "获取数据失败",
-        message: "服务器处理请求时发生错误",
-      },
-      {
-        status: 500,
+      return jsonError(locale, 503, "api.dbTimeout", "api.dbTimeoutHint", {
         headers: {
           "X-Content-Type-Options": "nosniff",
         },
+      });
+    }
+
+    return jsonError(locale, 500, "api.statsFailed", "api.statsFailedHint", {
+      headers: {
+        "X-Content-Type-Options": "nosniff",
       },
-    );
+    });
   }
 }
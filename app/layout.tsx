@@ -1,7 +1,10 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
-import { headers } from "next/headers";
+import { cookies, headers } from "next/headers";
 import "./globals.css";
+import { getCurrentEdition } from "@/lib/editions";
+import { LOCALE_COOKIE, isSupportedLocale, negotiateLocale } from "@/lib/i18n";
+import { LocaleProvider } from "@/components/LocaleProvider";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -13,9 +16,11 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
+const edition = getCurrentEdition();
+
 export const metadata: Metadata = {
-  title: "算账 2025 - Reckoning-蛙蛤蛤",
-  description: "2025 年度全网生存状况匿名调查",
+  title: `算账 ${edition.year} - Reckoning-蛙蛤蛤`,
+  description: `${edition.year} 年度全网生存状况匿名调查`,
 };
 
 export default async function RootLayout({
@@ -23,14 +28,21 @@ export default async function RootLayout({
 }: Readonly<{
   children: React.ReactNode;
 }>) {
-  const nonce = (await headers()).get('x-nonce') || '';
+  const requestHeaders = await headers();
+  const nonce = requestHeaders.get('x-nonce') || '';
+
+  // 语言：优先使用用户手动选择（cookie），否则按 Accept-Language 协商
+  const savedLocale = (await cookies()).get(LOCALE_COOKIE)?.value;
+  const locale = isSupportedLocale(savedLocale)
+    ? savedLocale
+    : negotiateLocale(requestHeaders.get('accept-language'));
 
   return (
-    <html lang="en">
+    <html lang={locale}>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <LocaleProvider initialLocale={locale}>{children}</LocaleProvider>
       </body>
     </html>
   );
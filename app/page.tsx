@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useRef, useMemo } from "react";
 import {
   ArrowRight,
   Lock,
@@ -10,64 +10,122 @@ import {
   Check,
   Calculator,
 } from "lucide-react";
-import ReCAPTCHA from "react-google-recaptcha";
-import { questions } from "@/lib/questions";
+import { getVisibleQuestions, getVisibleAnswers, type Question } from "@/lib/questions";
+import { getCurrentEdition, formatEditionText } from "@/lib/editions";
+import { toggleMultiOption, checkMultiConstraints } from "@/lib/multi-select";
+import {
+  createOptionOrder,
+  orderOptions,
+  getPresentedOrder,
+  type OptionOrder,
+} from "@/lib/option-order";
 import DataDashboard from "@/components/DataDashboard";
 import SafetyResult from "@/components/SafetyResult";
-import { canSubmit, recordSubmission } from "@/lib/client-rate-limit";
+import CooldownNotice, { useCooldown } from "@/components/CooldownNotice";
+import CaptchaWidget, { type CaptchaHandle } from "@/components/CaptchaWidget";
+import { getCaptchaProviderName, getCaptchaSiteKey, requiresSiteKey } from "@/lib/captcha/config";
+import { startProofOfWork } from "@/lib/client-proof-of-work";
+import {
+  canSubmit,
+  recordSubmission,
+  getRetryAfter,
+  recordServerCooldown,
+} from "@/lib/client-rate-limit";
 import {
   initBehaviorTracking,
   validateHumanBehavior,
   getBehaviorData,
 } from "@/lib/bot-detection";
-import { generateEncryptedToken } from "@/lib/client-token-crypto";
+import { RISK_RULE_MESSAGES } from "@/lib/risk-scoring";
+import type { QuestionTimings } from "@/lib/question-timing";
+import { validateSurveyData } from "@/lib/validation";
+import { isMessageKey, type MessageKey } from "@/lib/i18n";
+import { useI18n, LocaleSwitcher } from "@/components/LocaleProvider";
+
+// 当前期次（往期只读，只能查看数据）
+const edition = getCurrentEdition();
 
 export default function SuanZhangFullSurvey() {
+  const { t, locale, localize } = useI18n();
   const [step, setStep] = useState(0);
   const [answers, setAnswers] = useState<Record<string, any>>({});
   const [viewMode, setViewMode] = useState<"survey" | "dashboard">("survey");
   const [currentSelection, setCurrentSelection] = useState<string | null>(null);
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [isRecaptchaReady, setIsRecaptchaReady] = useState(false);
-  const recaptchaRef = useRef<ReCAPTCHA>(null);
+  const [isCaptchaReady, setIsCaptchaReady] = useState(false);
+  // 选项展示顺序（开始答题时随机生成，答题过程中保持不变）
+  const [optionOrder, setOptionOrder] = useState<OptionOrder>({});
+  // 服务端签发的答题会话（记录服务端开始时间，提交时由服务端校验答题时长）
+  const [sessionToken, setSessionToken] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [startError, setStartError] = useState<string | null>(null);
+  // 服务端限流时的自动重试时间（倒计时期间保留答案，结束后自动重新提交 / 重新开始）
+  const [submitRetryAt, setSubmitRetryAt] = useState<number | null>(null);
+  const [startRetryAt, setStartRetryAt] = useState<number | null>(null);
+  const captchaRef = useRef<CaptchaHandle>(null);
   // 使用 ref 跟踪提交状态，防止竞态条件
   const isSubmittingRef = useRef(false);
+  // 每题停留时长（毫秒，只按问题 id 累计，返回上一题再回来时累加）
+  const timingsRef = useRef<QuestionTimings>({});
+  const currentDwellRef = useRef<{ questionId: string; enteredAt: number } | null>(null);
+  // 根据已有答案计算需要作答的问题（跳题逻辑）
+  const visibleQuestions = useMemo(() => getVisibleQuestions(answers), [answers]);
+  const currentQuestionId = visibleQuestions[step - 1]?.id;
+  const totalSteps = visibleQuestions.length;
 
   // 初始化行为追踪
   useEffect(() => {
     initBehaviorTracking();
   }, []);
 
-  // 监听步骤变化，重置 ReCAPTCHA 状态
+  // 结束当前题目的计时，累加到停留时长
+  const closeDwell = () => {
+    const current = currentDwellRef.current;
+    if (current) {
+      const { questionId, enteredAt } = current;
+      timingsRef.current[questionId] = (timingsRef.current[questionId] ?? 0) + Date.now() - enteredAt;
+      currentDwellRef.current = null;
+    }
+  };
+
+  // 切换题目时记录停留时长
+  useEffect(() => {
+    closeDwell();
+    if (currentQuestionId) {
+      currentDwellRef.current = { questionId: currentQuestionId, enteredAt: Date.now() };
+    }
+  }, [currentQuestionId]);
+
+  // 监听步骤变化，重置人机验证状态
   useEffect(() => {
-    // 如果不是最后一题，重置 ReCAPTCHA 准备状态
-    if (step !== questions.length) {
-      setIsRecaptchaReady(false);
+    // 如果不是最后一题，重置人机验证准备状态
+    if (step !== totalSteps) {
+      setIsCaptchaReady(false);
     } else {
-      // 到达最后一题时，延迟检查 reCAPTCHA 是否已加载
+      // 到达最后一题时，延迟检查人机验证组件是否已加载
       // 因为 onLoad 回调可能不可靠
       let attempts = 0;
       const maxAttempts = 20; // 最多等待 10 秒（20 * 500ms）
 
-      const checkRecaptcha = () => {
+      const checkCaptcha = () => {
         attempts++;
 
-        if (recaptchaRef.current) {
-          setIsRecaptchaReady(true);
+        if (captchaRef.current) {
+          setIsCaptchaReady(true);
         } else if (attempts >= maxAttempts) {
           // 超时后强制设置为准备好，避免用户无法提交
-          setIsRecaptchaReady(true);
-          setSubmitError("人机验证加载较慢，如提交失败请刷新页面重试");
+          setIsCaptchaReady(true);
+          setSubmitError(t("submit.captchaSlow"));
         } else {
           // 继续等待
-          setTimeout(checkRecaptcha, 500);
+          setTimeout(checkCaptcha, 500);
         }
       };
 
-      setTimeout(checkRecaptcha, 100);
+      setTimeout(checkCaptcha, 100);
     }
-  }, [step]);
+  }, [step, totalSteps, t]);
 
   const submitData = async (finalAnswers: Record<string, any>) => {
     // 防止竞态条件：检查是否已经在提交中
@@ -83,166 +141,188 @@ export default function SuanZhangFullSurvey() {
 
     try {
       // 1. 检查客户端速率限制
-      const rateLimitCheck = canSubmit();
+      const rateLimitCheck = canSubmit(locale);
       if (!rateLimitCheck.allowed) {
-        setSubmitError(rateLimitCheck.message || "提交过于频繁，请稍后再试");
+        if (rateLimitCheck.cooldownUntil) {
+          // 服务端冷却中：倒计时结束后自动重试
+          setSubmitRetryAt(rateLimitCheck.cooldownUntil);
+        } else {
+          setSubmitError(rateLimitCheck.message || t("submit.tooFrequent"));
+        }
         isSubmittingRef.current = false;
         setIsSubmitting(false);
         return false;
       }
 
-      // 2. 验证答案完整性
-      const requiredFields = questions.map(q => q.id);
-      const missingFields = requiredFields.filter(field => {
-        const value = finalAnswers[field];
-        return value === undefined || value === null || value === '';
-      });
-
-      if (missingFields.length > 0) {
-        setSubmitError(`请完成所有问题：缺少 ${missingFields.join(', ')}`);
+      // 2. 验证答案完整性和有效性（与服务端共用同一套基于 questions 配置的规则）
+      const validation = validateSurveyData(finalAnswers);
+      if (!validation.valid) {
+        setSubmitError(t("submit.invalidAnswers", { details: validation.errors.join(', ') }));
         isSubmittingRef.current = false;
         setIsSubmitting(false);
         return false;
       }
 
-      // 3. 验证答案有效性（选项是否匹配）
-      for (const q of questions) {
-        const value = finalAnswers[q.id];
-
-        if (q.type === 'choice' && q.options) {
-          if (!q.options.includes(value)) {
-            setSubmitError(`无效的答案：${q.id}`);
-            isSubmittingRef.current = false;
-            setIsSubmitting(false);
-            return false;
-          }
-        } else if (q.type === 'multi' && q.options) {
-          if (!Array.isArray(value) || value.length === 0) {
-            setSubmitError(`请至少选择一项：${q.id}`);
-            isSubmittingRef.current = false;
-            setIsSubmitting(false);
-            return false;
-          }
-          for (const item of value) {
-            if (!q.options.includes(item)) {
-              setSubmitError(`无效的选项：${q.id}`);
-              isSubmittingRef.current = false;
-              setIsSubmitting(false);
-              return false;
-            }
-          }
-        } else if (q.type === 'range') {
-          const numValue = Number(value);
-          if (isNaN(numValue) || numValue < (q.min || 0) || numValue > (q.max || 100)) {
-            setSubmitError(`数值超出范围：${q.id}`);
-            isSubmittingRef.current = false;
-            setIsSubmitting(false);
-            return false;
-          }
-        }
-      }
-
-      // 4. 验证人类行为
+      // 3. 验证人类行为
       const behaviorCheck = validateHumanBehavior();
       if (!behaviorCheck.isHuman) {
         setSubmitError(
-          `检测到异常行为：${behaviorCheck.reason}，请正常填写问卷`,
+          t("submit.abnormalBehavior", {
+            reason: behaviorCheck.rules.map(rule => t(RISK_RULE_MESSAGES[rule])).join(", "),
+          }),
         );
         isSubmittingRef.current = false;
         setIsSubmitting(false);
         return false;
       }
 
-      // 5. 获取reCAPTCHA token
-      // 检查 reCAPTCHA 组件是否已挂载
-      if (!recaptchaRef.current) {
-        setSubmitError("人机验证组件未加载，请刷新页面重试");
+      // 4. 获取人机验证 token
+      // 检查人机验证组件是否已挂载
+      if (!captchaRef.current) {
+        setSubmitError(t("submit.captchaNotLoaded"));
         isSubmittingRef.current = false;
         setIsSubmitting(false);
         return false;
       }
 
-      const recaptchaToken = recaptchaRef.current.getValue();
-      if (!recaptchaToken) {
-        setSubmitError("请完成人机验证");
+      const captchaToken = await captchaRef.current.getValue();
+      if (!captchaToken) {
+        setSubmitError(t("submit.captchaRequired"));
         isSubmittingRef.current = false;
         setIsSubmitting(false);
         return false;
       }
 
-      // 6. 生成加密token（基于问卷数据 + 客户端时间戳）
-      const clientTimestamp = Date.now();
-      const submitToken = await generateEncryptedToken(
-        {
-          industry: finalAnswers["industry"],
-          salary_months: finalAnswers["salary_months"],
-          personal_income: finalAnswers["personal_income"],
-          friends_status: finalAnswers["friends_status"],
-          personal_arrears: finalAnswers["personal_arrears"],
-          friends_arrears_perception:
-            finalAnswers["friends_arrears_perception"],
-          welfare_cut: finalAnswers["welfare_cut"],
-        },
-        clientTimestamp,
-      );
-
-      // 7. 获取行为数据
+      // 5. 获取行为数据和每题停留时长（包括正在作答的最后一题，只发送需要作答的题目）
       const behaviorData = getBehaviorData();
+      closeDwell();
+      if (currentQuestionId) {
+        currentDwellRef.current = { questionId: currentQuestionId, enteredAt: Date.now() };
+      }
+      const questionTimings = Object.fromEntries(
+        Object.entries(timingsRef.current).filter(([id]) => id in getVisibleAnswers(finalAnswers)),
+      );
 
-      // 8. 发送请求
+      // 6. 发送请求
       const response = await fetch("/api/survey/submit", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          // 接口按此语言返回文案（客户端仍以返回的文案键为准）
+          "Accept-Language": locale,
         },
         body: JSON.stringify({
           ...finalAnswers,
-          submitToken,
+          edition: edition.id,
+          // 只记录选项编码的展示顺序，用于分析顺序偏差
+          optionOrder: getPresentedOrder(optionOrder, finalAnswers),
+          sessionToken,
           behaviorData,
-          recaptchaToken,
+          questionTimings,
+          captchaToken,
         }),
       });
 
       const data = await response.json();
 
       if (!response.ok) {
-        // 处理错误
+        // 服务端限流：按 Retry-After 倒计时后自动重试（人机验证和答题会话尚未使用，不需要重置）
+        // 设备当天的提交次数已满时要等到第二天，不自动重试
+        const retryAfter = data.errorKey === "api.deviceLimitReached" ? null : getRetryAfter(response);
+        if (retryAfter !== null) {
+          setSubmitRetryAt(recordServerCooldown(retryAfter));
+          isSubmittingRef.current = false;
+          setIsSubmitting(false);
+          return false;
+        }
+
+        // 处理错误（按接口返回的文案键本地化）
+        const localizeKey = (key: unknown, fallback: MessageKey) =>
+          isMessageKey(key) ? t(key) : t(fallback);
+
         if (response.status === 429 || response.status === 503) {
-          setSubmitError(data.message || "提交过于频繁，请稍后再试");
-        } else if (response.status === 403 && data.error?.includes("行为")) {
-          setSubmitError(data.error || "检测到异常行为");
+          setSubmitError(localizeKey(data.messageKey, "submit.tooFrequent"));
+        } else if (data.captchaFallback) {
+          // 人机验证分数处于临界区：显示补充验证，已填写的答案保留，完成后重新提交
+          captchaRef.current?.showFallback?.();
+          setSubmitError(localizeKey(data.messageKey, "submit.captchaRequired"));
         } else {
-          setSubmitError(data.error || "提交失败，请稍后重试");
+          setSubmitError(localizeKey(data.errorKey, "submit.failed"));
         }
         isSubmittingRef.current = false;
         setIsSubmitting(false);
-        recaptchaRef.current?.reset();
+        captchaRef.current?.reset();
         return false;
       }
 
-      // 9. 提交成功，记录到本地存储
+      // 7. 提交成功，记录到本地存储
       recordSubmission();
       setSubmitError(null);
       isSubmittingRef.current = false;
       setIsSubmitting(false);
 
-      // 10. 重置reCAPTCHA
-      recaptchaRef.current?.reset();
+      // 8. 重置人机验证
+      captchaRef.current?.reset();
 
-      // 11. 返回成功标志
+      // 9. 返回成功标志
       return true;
     } catch (e) {
       console.error("Error submitting survey:", e);
-      setSubmitError("提交失败，请稍后重试");
+      setSubmitError(t("submit.failed"));
       isSubmittingRef.current = false;
       setIsSubmitting(false);
 
-      // 提交失败也重置reCAPTCHA
-      recaptchaRef.current?.reset();
+      // 提交失败也重置人机验证
+      captchaRef.current?.reset();
       return false;
     }
   };
 
+  // 开始答题：向服务端申请答题会话，成功后进入第一题
+  const handleStart = async () => {
+    if (isStarting) return;
+    setIsStarting(true);
+    setStartError(null);
+
+    try {
+      const response = await fetch("/api/survey/session", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Accept-Language": locale,
+        },
+        body: JSON.stringify({ edition: edition.id }),
+      });
+      const data = await response.json();
+
+      // 服务端限流：倒计时后自动重试
+      const retryAfter = getRetryAfter(response);
+      if (retryAfter !== null) {
+        setStartRetryAt(Date.now() + retryAfter);
+        return;
+      }
+
+      if (!response.ok || typeof data.sessionToken !== "string") {
+        setStartError(isMessageKey(data.errorKey) ? t(data.errorKey) : t("intro.startFailed"));
+        return;
+      }
+
+      setSessionToken(data.sessionToken);
+      // 自建人机验证：在用户答题期间后台完成工作量证明
+      if (getCaptchaProviderName() === "pow") {
+        startProofOfWork(locale);
+      }
+      setOptionOrder(createOptionOrder());
+      timingsRef.current = {};
+      setStep(1);
+    } catch (e) {
+      console.error("Error starting survey session:", e);
+      setStartError(t("intro.startFailed"));
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
   const handleAnswer = async (key: string, value: any) => {
     // 防止在提交过程中重复点击
     if (isSubmittingRef.current) {
@@ -250,14 +330,15 @@ export default function SuanZhangFullSurvey() {
       return;
     }
 
-    const newAns = { ...answers, [key]: value };
+    // 答案变化可能改变后续问题的显示，清除被跳过问题的旧答案
+    const newAns = getVisibleAnswers({ ...answers, [key]: value });
     setAnswers(newAns);
     setCurrentSelection(null);
 
     // 如果是最后一题，先提交数据
-    // step从1开始计数，questions.length是题目总数
-    // 当step === questions.length时，表示正在回答最后一题（questions[step-1]即questions[questions.length-1]）
-    if (step === questions.length) {
+    // step从1开始计数，按新答案重新计算需要作答的题目总数
+    // 当step等于题目总数时，表示正在回答最后一题
+    if (step === getVisibleQuestions(newAns).length) {
       const success = await submitData(newAns);
       // 只有提交成功才跳转到结果页
       if (success) {
@@ -269,12 +350,15 @@ export default function SuanZhangFullSurvey() {
     }
   };
 
-  const handleMulti = (key: string, val: string) => {
-    const curr = answers[key] || [];
-    const next = curr.includes(val)
-      ? curr.filter((i: string) => i !== val)
-      : [...curr, val];
-    setAnswers({ ...answers, [key]: next });
+  const handleMatrix = (key: string, row: string, val: string) => {
+    const curr = answers[key] || {};
+    setAnswers({ ...answers, [key]: { ...curr, [row]: val } });
+  };
+
+  const handleMulti = (question: Question, val: string) => {
+    // 选中时自动取消与之冲突的选项（规则与服务端校验一致）
+    const next = toggleMultiOption(question, answers[question.id] || [], val);
+    setAnswers({ ...answers, [question.id]: next });
   };
 
   const submitMulti = async () => {
@@ -285,9 +369,9 @@ export default function SuanZhangFullSurvey() {
     }
 
     // 如果是最后一题，先提交数据
-    // step从1开始计数，questions.length是题目总数
-    // 当step === questions.length时，表示正在回答最后一题（questions[step-1]即questions[questions.length-1]）
-    if (step === questions.length) {
+    // step从1开始计数，totalSteps是当前需要作答的题目总数
+    // 当step === totalSteps时，表示正在回答最后一题（visibleQuestions[totalSteps-1]）
+    if (step === totalSteps) {
       // submitData 内部会设置 isSubmittingRef，不需要在这里提前设置
       const success = await submitData(answers);
       // 只有提交成功才跳转到结果页
@@ -300,6 +384,20 @@ export default function SuanZhangFullSurvey() {
     }
   };
 
+  // 限流倒计时结束后自动重试（仍停留在最后一题时才重新提交，答案保留在 answers 中）
+  const submitCooldown = useCooldown(submitRetryAt, async () => {
+    setSubmitRetryAt(null);
+    if (step !== totalSteps) return;
+    const success = await submitData(answers);
+    if (success) {
+      setStep((prev) => prev + 1);
+    }
+  });
+  const startCooldown = useCooldown(startRetryAt, () => {
+    setStartRetryAt(null);
+    handleStart();
+  });
+
   if (viewMode === "dashboard")
     return <DataDashboard onBack={() => setViewMode("survey")} />;
 
@@ -308,41 +406,57 @@ export default function SuanZhangFullSurvey() {
     return (
       <div className="flex flex-col items-center justify-center min-h-screen bg-stone-950 text-stone-100 p-6 font-sans">
         <div className="max-w-lg w-full space-y-10 animate-in fade-in duration-700">
+          <div className="flex justify-end">
+            <LocaleSwitcher />
+          </div>
           <div className="border-l-2 border-red-600 pl-6">
             <h1 className="text-5xl md:text-6xl font-black text-white mb-2 tracking-tighter">
-              算账
+              {t("intro.title")}
             </h1>
             <div className="flex items-center gap-2 text-stone-500 font-mono text-sm uppercase tracking-widest">
               <Lock size={14} />
-              <span>Reckoning 2025</span>
+              <span>Reckoning {edition.year}</span>
             </div>
           </div>
 
           <div className="space-y-4 text-lg text-stone-400 leading-relaxed">
             <p>
-              <strong>不记录 IP，不记录身份。</strong>
-            </p>
-            <p>
-              我们需要你个人的真实数据（如实发薪资月数），也需要你对周围环境的客观观察。
+              <strong>{t("intro.privacy")}</strong>
             </p>
+            <p>{t("intro.description")}</p>
             <p className="text-stone-500 text-base">
-              数据将用于生成 2025 年度全网生存状况看板。
+              {t("intro.purpose", { year: edition.year })}
             </p>
           </div>
 
           <div className="pt-6 space-y-4">
             <button
-              onClick={() => setStep(1)}
-              className="w-full py-5 bg-stone-100 text-stone-950 text-xl font-bold hover:bg-white transition-all flex items-center justify-center gap-3"
+              onClick={handleStart}
+              disabled={!!edition.closed || isStarting || startRetryAt !== null}
+              className="w-full py-5 bg-stone-100 text-stone-950 text-xl font-bold hover:bg-white transition-all flex items-center justify-center gap-3 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              开始匿名记录 <ArrowRight size={20} />
+              {edition.closed ? (
+                t("intro.closed")
+              ) : isStarting ? (
+                t("intro.starting")
+              ) : (
+                <>
+                  {t("intro.start")} <ArrowRight size={20} />
+                </>
+              )}
             </button>
+            {startError && (
+              <p className="text-sm text-red-500 text-center">{startError}</p>
+            )}
+            {startRetryAt !== null && (
+              <CooldownNotice message={t("intro.startCooldown", { seconds: startCooldown })} />
+            )}
 
             <button
               onClick={() => setViewMode("dashboard")}
               className="w-full py-4 border border-stone-800 text-stone-500 hover:text-stone-300 hover:border-stone-600 transition-all flex items-center justify-center gap-2"
             >
-              <BarChart3 size={16} /> 直接查看现有数据
+              <BarChart3 size={16} /> {t("intro.viewData")}
             </button>
           </div>
         </div>
@@ -351,11 +465,12 @@ export default function SuanZhangFullSurvey() {
   }
 
   // Result
-  if (step > questions.length) {
+  if (step > totalSteps) {
     return (
       <SafetyResult
         onReset={() => {
           setAnswers({});
+          setSessionToken(null);
           setStep(0);
           setSubmitError(null);
         }}
@@ -366,15 +481,19 @@ export default function SuanZhangFullSurvey() {
   }
 
   // Survey
-  const q = questions[step - 1];
+  const currentQuestion = visibleQuestions[step - 1];
 
   // 安全检查：如果问题不存在，返回到首页
-  if (!q) {
+  if (!currentQuestion) {
     setStep(0);
     return null;
   }
 
-  const progress = (step / questions.length) * 100;
+  // 按当前语言展示文案（选项编码不变）
+  const q = localize(currentQuestion);
+  const options = orderOptions(q, optionOrder);
+
+  const progress = (step / totalSteps) * 100;
 
   return (
     <div className="min-h-screen bg-stone-950 text-stone-100 flex flex-col font-sans">
@@ -394,25 +513,25 @@ export default function SuanZhangFullSurvey() {
             <div className="flex items-center gap-2 text-stone-500 font-mono text-xs mb-2">
               <Calculator size={14} />
               <span>
-                QUESTION 0{step} / 0{questions.length}
+                QUESTION 0{step} / 0{totalSteps}
               </span>
             </div>
             <h2 className="text-2xl md:text-3xl font-bold mb-3 leading-snug">
-              {q.question}
+              {formatEditionText(q.question, edition)}
             </h2>
             {q.sub && <p className="text-stone-400 text-sm italic">{q.sub}</p>}
           </div>
 
           <div className="space-y-3">
-            {/* 单选 */}
-            {q.type === "choice" &&
-              q.options?.map((opt, i) => (
+            {/* 单选（注意力检查题同样按单选作答） */}
+            {(q.type === "choice" || q.type === "attention") &&
+              options.map((opt) => (
                 <button
-                  key={i}
-                  onClick={() => handleAnswer(q.id, opt)}
+                  key={opt.code}
+                  onClick={() => handleAnswer(q.id, opt.code)}
                   className="w-full text-left p-4 rounded border border-stone-800 bg-stone-900/30 hover:bg-stone-100 hover:text-stone-900 hover:border-stone-100 transition-all flex justify-between items-center group"
                 >
-                  <span className="text-lg">{opt}</span>
+                  <span className="text-lg">{opt.label}</span>
                   <ChevronRight
                     className="opacity-0 group-hover:opacity-100 transition-all"
                     size={18}
@@ -430,7 +549,7 @@ export default function SuanZhangFullSurvey() {
                   <div className="text-stone-500 pb-2 mb-1">{q.unit}</div>
                 </div>
                 <div className="text-xs text-stone-500 mb-8">
-                  （拖动滑块调整数字）
+                  {t("survey.sliderHint")}
                 </div>
 
                 <input
@@ -447,50 +566,87 @@ export default function SuanZhangFullSurvey() {
                   onClick={() => handleAnswer(q.id, currentSelection ?? 12)}
                   className="w-full py-4 bg-stone-100 text-stone-900 font-bold mt-8 hover:bg-white rounded transition-all"
                 >
-                  确认记录
+                  {t("common.confirm")}
                 </button>
               </div>
             )}
 
+            {/* 矩阵（多个子项使用同一量表） */}
+            {q.type === "matrix" && (
+              <>
+                {q.rows?.map((row) => (
+                  <div
+                    key={row.code}
+                    className="p-4 rounded border border-stone-800 bg-stone-900/30"
+                  >
+                    <div className="text-stone-200 mb-3">{row.label}</div>
+                    <div className="flex flex-wrap gap-2">
+                      {q.options?.map((opt) => {
+                        const active = answers[q.id]?.[row.code] === opt.code;
+                        return (
+                          <button
+                            key={opt.code}
+                            onClick={() => handleMatrix(q.id, row.code, opt.code)}
+                            className={`px-3 py-2 text-sm rounded border transition-all ${
+                              active
+                                ? "border-red-600 bg-stone-900 text-red-500"
+                                : "border-stone-800 text-stone-400 hover:bg-stone-900 hover:text-stone-200"
+                            }`}
+                          >
+                            {opt.label}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+
+                <button
+                  onClick={() => handleAnswer(q.id, answers[q.id])}
+                  className="w-full py-4 bg-stone-100 text-stone-900 font-bold mt-6 hover:bg-white rounded disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                  disabled={
+                    !q.rows?.every((row) => answers[q.id]?.[row.code])
+                  }
+                >
+                  {t("common.confirm")}
+                </button>
+              </>
+            )}
+
             {/* 多选 */}
             {q.type === "multi" && (
               <>
-                {q.options?.map((opt, i) => {
-                  const active = (answers[q.id] || []).includes(opt);
+                {options.map((opt) => {
+                  const active = (answers[q.id] || []).includes(opt.code);
                   return (
                     <button
-                      key={i}
-                      onClick={() => handleMulti(q.id, opt)}
+                      key={opt.code}
+                      onClick={() => handleMulti(q, opt.code)}
                       className={`w-full text-left p-4 rounded border transition-all flex justify-between items-center ${
                         active
                           ? "border-red-600 bg-stone-900 text-red-500"
                           : "border-stone-800 text-stone-400 hover:bg-stone-900 hover:text-stone-200"
                       }`}
                     >
-                      <span>{opt}</span>
+                      <span>{opt.label}</span>
                       {active && <Check size={18} />}
                     </button>
                   );
                 })}
 
-                {/* reCAPTCHA */}
+                {/* 人机验证（服务商由配置决定） */}
                 <div className="flex justify-center mt-6">
-                  <ReCAPTCHA
-                    ref={recaptchaRef}
-                    sitekey={
-                      process.env["NEXT_PUBLIC_RECAPTCHA_SITE_KEY"] || ""
-                    }
-                    size="normal"
-                    theme="dark"
+                  <CaptchaWidget
+                    ref={captchaRef}
                     onLoad={() => {
-                      setIsRecaptchaReady(true);
+                      setIsCaptchaReady(true);
                     }}
-                    onErrored={() => {
-                      setIsRecaptchaReady(false);
-                      setSubmitError("人机验证加载失败，请刷新页面重试");
+                    onError={() => {
+                      setIsCaptchaReady(false);
+                      setSubmitError(t("submit.captchaLoadFailed"));
                     }}
                     onExpired={() => {
-                      setSubmitError("人机验证已过期，请重新验证");
+                      setSubmitError(t("submit.captchaExpired"));
                     }}
                   />
                 </div>
@@ -498,9 +654,14 @@ export default function SuanZhangFullSurvey() {
                 {/* 调试信息（仅开发环境） */}
                 {process.env.NODE_ENV === 'development' && (
                   <div className="mt-2 text-xs text-stone-600">
-                    reCAPTCHA 状态: {isRecaptchaReady ? '✓ 已加载' : '⏳ 加载中...'}
-                    {!process.env["NEXT_PUBLIC_RECAPTCHA_SITE_KEY"] && (
-                      <span className="text-red-500"> | ⚠️ 缺少 SITE_KEY</span>
+                    {t("survey.captchaStatus", {
+                      provider: getCaptchaProviderName(),
+                      status: isCaptchaReady
+                        ? t("survey.captchaLoaded")
+                        : t("survey.captchaLoading"),
+                    })}
+                    {requiresSiteKey() && !getCaptchaSiteKey() && (
+                      <span className="text-red-500"> | {t("survey.captchaMissingKey")}</span>
                     )}
                   </div>
                 )}
@@ -509,19 +670,28 @@ export default function SuanZhangFullSurvey() {
                   onClick={submitMulti}
                   className="w-full py-4 bg-stone-100 text-stone-900 font-bold mt-6 hover:bg-white rounded disabled:opacity-50 disabled:cursor-not-allowed transition-all"
                   disabled={
-                    !answers[q.id] ||
-                    answers[q.id].length === 0 ||
+                    checkMultiConstraints(q, answers[q.id] || []).length > 0 ||
                     isSubmitting ||
-                    !isRecaptchaReady
+                    !isCaptchaReady ||
+                    submitRetryAt !== null
                   }
                 >
                   {isSubmitting
-                    ? "提交中..."
-                    : !isRecaptchaReady
-                    ? "加载人机验证中..."
-                    : "确认提交"}
+                    ? t("survey.submitting")
+                    : submitRetryAt !== null
+                    ? t("survey.retryIn", { seconds: submitCooldown })
+                    : !isCaptchaReady
+                    ? t("survey.loadingCaptcha")
+                    : t("survey.submit")}
                 </button>
 
+                {/* 服务端限流倒计时 */}
+                {submitRetryAt !== null && (
+                  <div className="mt-4">
+                    <CooldownNotice message={t("submit.serverCooldown", { seconds: submitCooldown })} />
+                  </div>
+                )}
+
                 {/* 显示提交错误 */}
                 {submitError && (
                   <div className="mt-4 p-4 bg-red-900/20 border border-red-600 rounded text-red-400 text-sm">
@@ -534,7 +704,7 @@ export default function SuanZhangFullSurvey() {
 
           <div className="mt-12 text-center">
             <p className="text-stone-700 text-xs flex items-center justify-center gap-1">
-              <ShieldCheck size={10} /> 此数据仅用于生成匿名统计
+              <ShieldCheck size={10} /> {t("survey.footer")}
             </p>
           </div>
         </div>
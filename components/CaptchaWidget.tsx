@@ -0,0 +1,381 @@
+'use client';
+
+import React, { useEffect, useImperativeHandle, useRef, useState, useSyncExternalStore } from 'react';
+import ReCAPTCHA from 'react-google-recaptcha';
+import { ShieldCheck, Loader2, AlertTriangle } from 'lucide-react';
+import {
+  getCaptchaProviderName,
+  getCaptchaSiteKey,
+  getCaptchaFallbackSiteKey,
+  MOCK_CAPTCHA_PASS_TOKEN,
+  RECAPTCHA_FALLBACK_TOKEN_PREFIX,
+  CAPTCHA_SUBMIT_ACTION,
+} from '@/lib/captcha/config';
+import {
+  getProofOfWorkState,
+  getServerProofOfWorkState,
+  subscribeProofOfWork,
+  startProofOfWork,
+  resetProofOfWork,
+} from '@/lib/client-proof-of-work';
+import { useI18n } from './LocaleProvider';
+
+/**
+ * 人机验证组件对外暴露的方法（与服务商无关）
+ */
+export interface CaptchaHandle {
+  // 获取 token（reCAPTCHA v3 在提交时才生成 token，因此是异步的）
+  getValue: () => Promise<string | null>;
+  reset: () => void;
+  // 服务端要求补充验证时调用（目前只有 reCAPTCHA v3 支持，显示 v2 勾选验证）
+  showFallback?: () => void;
+}
+
+interface CaptchaWidgetProps {
+  ref?: React.Ref<CaptchaHandle>;
+  onLoad?: () => void;
+  onError?: () => void;
+  onExpired?: () => void;
+}
+
+/**
+ * hCaptcha / Turnstile 的显式渲染 API（两者接口一致）
+ */
+interface ExplicitCaptchaApi {
+  render: (container: HTMLElement, params: Record<string, unknown>) => string;
+  getResponse: (widgetId: string) => string | undefined;
+  reset: (widgetId: string) => void;
+  remove?: (widgetId: string) => void;
+}
+
+/**
+ * reCAPTCHA v3 的 API（同一个脚本也能显式渲染 v2 勾选验证，用于补充验证）
+ */
+interface RecaptchaV3Api {
+  ready: (callback: () => void) => void;
+  execute: (siteKey: string, options: { action: string }) => Promise<string>;
+  render: (container: HTMLElement, params: Record<string, unknown>) => number;
+  getResponse: (widgetId: number) => string;
+  reset: (widgetId: number) => void;
+}
+
+const EXPLICIT_SCRIPTS = {
+  hcaptcha: { src: 'https://js.hcaptcha.com/1/api.js?render=explicit', global: 'hcaptcha' },
+  turnstile: {
+    src: 'https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit',
+    global: 'turnstile',
+  },
+} as const;
+
+// 每个脚本只加载一次
+const scriptPromises = new Map<string, Promise<void>>();
+
+function loadScript(src: string): Promise<void> {
+  let promise = scriptPromises.get(src);
+  if (!promise) {
+    promise = new Promise<void>((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = src;
+      script.async = true;
+      script.onload = () => resolve();
+      script.onerror = () => {
+        scriptPromises.delete(src);
+        reject(new Error(`Failed to load ${src}`));
+      };
+      document.head.appendChild(script);
+    });
+    scriptPromises.set(src, promise);
+  }
+  return promise;
+}
+
+/**
+ * reCAPTCHA v2
+ */
+function RecaptchaWidget({ ref, onLoad, onError, onExpired }: CaptchaWidgetProps) {
+  const recaptchaRef = useRef<ReCAPTCHA>(null);
+
+  useImperativeHandle(ref, () => ({
+    getValue: async () => recaptchaRef.current?.getValue() ?? null,
+    reset: () => recaptchaRef.current?.reset(),
+  }));
+
+  return (
+    <ReCAPTCHA
+      ref={recaptchaRef}
+      sitekey={getCaptchaSiteKey()}
+      size="normal"
+      theme="dark"
+      asyncScriptOnLoad={onLoad}
+      onErrored={onError}
+      onExpired={onExpired}
+    />
+  );
+}
+
+/**
+ * reCAPTCHA v3（无感验证，提交时按操作生成 token）
+ * 服务端判断分数处于临界区时，改为显示 v2 勾选验证，已填写的答案保留
+ */
+function RecaptchaV3Widget({ ref, onLoad, onError, onExpired }: CaptchaWidgetProps) {
+  const { t } = useI18n();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const apiRef = useRef<RecaptchaV3Api | null>(null);
+  const fallbackIdRef = useRef<number | null>(null);
+  const [isFallback, setIsFallback] = useState(false);
+  const callbacksRef = useRef({ onLoad, onError, onExpired });
+  useEffect(() => {
+    callbacksRef.current = { onLoad, onError, onExpired };
+  });
+
+  useImperativeHandle(ref, () => ({
+    getValue: async () => {
+      const api = apiRef.current;
+      if (!api) return null;
+
+      // 补充验证：提交 v2 勾选验证的 token（带前缀，服务端据此改用 v2 密钥验证）
+      if (isFallback) {
+        const response = fallbackIdRef.current !== null ? api.getResponse(fallbackIdRef.current) : '';
+        return response ? `${RECAPTCHA_FALLBACK_TOKEN_PREFIX}${response}` : null;
+      }
+
+      try {
+        return await api.execute(getCaptchaSiteKey(), { action: CAPTCHA_SUBMIT_ACTION });
+      } catch {
+        return null;
+      }
+    },
+    reset: () => {
+      if (apiRef.current && fallbackIdRef.current !== null) {
+        apiRef.current.reset(fallbackIdRef.current);
+      }
+    },
+    showFallback: () => {
+      if (getCaptchaFallbackSiteKey()) setIsFallback(true);
+    },
+  }));
+
+  // 加载 v3 脚本
+  useEffect(() => {
+    let cancelled = false;
+    const src = `https://www.google.com/recaptcha/api.js?render=${encodeURIComponent(getCaptchaSiteKey())}`;
+
+    loadScript(src)
+      .then(() => {
+        const api = (window as unknown as { grecaptcha?: RecaptchaV3Api }).grecaptcha;
+        if (cancelled || !api) return;
+
+        api.ready(() => {
+          if (cancelled) return;
+          apiRef.current = api;
+          callbacksRef.current.onLoad?.();
+        });
+      })
+      .catch(() => {
+        if (!cancelled) callbacksRef.current.onError?.();
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // 需要补充验证时渲染 v2 勾选验证（每个组件实例只渲染一次）
+  useEffect(() => {
+    const api = apiRef.current;
+    if (!isFallback || !api || !containerRef.current || fallbackIdRef.current !== null) return;
+
+    fallbackIdRef.current = api.render(containerRef.current, {
+      sitekey: getCaptchaFallbackSiteKey(),
+      theme: 'dark',
+      'expired-callback': () => callbacksRef.current.onExpired?.(),
+      'error-callback': () => callbacksRef.current.onError?.(),
+    });
+  }, [isFallback]);
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div ref={containerRef} />
+      {!isFallback && <p className="text-xs text-stone-600">{t('survey.captchaInvisible')}</p>}
+    </div>
+  );
+}
+
+/**
+ * hCaptcha / Turnstile（加载官方脚本后显式渲染）
+ */
+function ExplicitWidget({
+  ref,
+  provider,
+  onLoad,
+  onError,
+  onExpired,
+}: CaptchaWidgetProps & { provider: keyof typeof EXPLICIT_SCRIPTS }) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const apiRef = useRef<ExplicitCaptchaApi | null>(null);
+  const widgetIdRef = useRef<string | null>(null);
+  // 回调可能在每次渲染时变化，通过 ref 读取最新值，避免重复渲染组件
+  const callbacksRef = useRef({ onLoad, onError, onExpired });
+  useEffect(() => {
+    callbacksRef.current = { onLoad, onError, onExpired };
+  });
+
+  useImperativeHandle(ref, () => ({
+    getValue: async () =>
+      apiRef.current && widgetIdRef.current
+        ? apiRef.current.getResponse(widgetIdRef.current) || null
+        : null,
+    reset: () => {
+      if (apiRef.current && widgetIdRef.current) {
+        apiRef.current.reset(widgetIdRef.current);
+      }
+    },
+  }));
+
+  useEffect(() => {
+    const { src, global } = EXPLICIT_SCRIPTS[provider];
+    let cancelled = false;
+
+    loadScript(src)
+      .then(() => {
+        const api = (window as unknown as Record<string, ExplicitCaptchaApi | undefined>)[global];
+        if (cancelled || !api || !containerRef.current) return;
+
+        apiRef.current = api;
+        widgetIdRef.current = api.render(containerRef.current, {
+          sitekey: getCaptchaSiteKey(),
+          theme: 'dark',
+          'expired-callback': () => callbacksRef.current.onExpired?.(),
+          'error-callback': () => callbacksRef.current.onError?.(),
+        });
+        callbacksRef.current.onLoad?.();
+      })
+      .catch(() => {
+        if (!cancelled) callbacksRef.current.onError?.();
+      });
+
+    return () => {
+      cancelled = true;
+      if (apiRef.current?.remove && widgetIdRef.current) {
+        apiRef.current.remove(widgetIdRef.current);
+      }
+      widgetIdRef.current = null;
+    };
+  }, [provider]);
+
+  return <div ref={containerRef} />;
+}
+
+/**
+ * 自建工作量证明（答题开始时已在后台计算，这里只展示进度并取出解答）
+ */
+function PowWidget({ ref, onLoad, onError }: CaptchaWidgetProps) {
+  const { t, locale } = useI18n();
+  const { status, solution } = useSyncExternalStore(
+    subscribeProofOfWork,
+    getProofOfWorkState,
+    getServerProofOfWorkState,
+  );
+  const callbacksRef = useRef({ onLoad, onError });
+  useEffect(() => {
+    callbacksRef.current = { onLoad, onError };
+  });
+
+  useImperativeHandle(ref, () => ({
+    getValue: async () => solution,
+    // 解答只能使用一次，重置后立即开始新的计算
+    reset: () => {
+      resetProofOfWork();
+      startProofOfWork(locale);
+    },
+  }));
+
+  // 还没有开始计算时（例如直接刷新到答题页）立即开始
+  useEffect(() => {
+    if (getProofOfWorkState().status === 'idle') {
+      startProofOfWork(locale);
+    }
+  }, [locale]);
+
+  useEffect(() => {
+    if (status === 'solved') callbacksRef.current.onLoad?.();
+    if (status === 'failed') callbacksRef.current.onError?.();
+  }, [status]);
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-stone-400">
+      {status === 'solved' ? (
+        <>
+          <ShieldCheck size={16} className="text-green-500" /> {t('survey.powSolved')}
+        </>
+      ) : status === 'failed' ? (
+        <>
+          <AlertTriangle size={16} className="text-red-500" /> {t('survey.powFailed')}
+        </>
+      ) : (
+        <>
+          <Loader2 size={16} className="animate-spin" /> {t('survey.powSolving')}
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * 本地测试（不依赖任何外部服务，勾选后返回固定的通过 token）
+ */
+function MockWidget({ ref, onLoad }: CaptchaWidgetProps) {
+  const { t } = useI18n();
+  const [checked, setChecked] = useState(false);
+
+  useImperativeHandle(ref, () => ({
+    getValue: async () => (checked ? MOCK_CAPTCHA_PASS_TOKEN : null),
+    reset: () => setChecked(false),
+  }));
+
+  const callbacksRef = useRef({ onLoad });
+  useEffect(() => {
+    callbacksRef.current = { onLoad };
+  });
+
+  // 只在挂载时通知一次
+  useEffect(() => {
+    callbacksRef.current.onLoad?.();
+  }, []);
+
+  return (
+    <button
+      type="button"
+      onClick={() => setChecked(!checked)}
+      className={`flex items-center gap-2 px-4 py-3 rounded border text-sm transition-all ${
+        checked
+          ? 'border-green-600 text-green-500'
+          : 'border-stone-700 text-stone-400 hover:text-stone-200'
+      }`}
+    >
+      <ShieldCheck size={16} /> {t('survey.captchaMock')}
+    </button>
+  );
+}
+
+/**
+ * 人机验证组件
+ * 服务商由 NEXT_PUBLIC_CAPTCHA_PROVIDER 选择，与服务端验证（lib/captcha）保持一致
+ */
+export default function CaptchaWidget(props: CaptchaWidgetProps) {
+  const provider = getCaptchaProviderName();
+
+  switch (provider) {
+    case 'recaptcha':
+      return <RecaptchaWidget {...props} />;
+    case 'recaptcha-v3':
+      return <RecaptchaV3Widget {...props} />;
+    case 'hcaptcha':
+    case 'turnstile':
+      return <ExplicitWidget {...props} provider={provider} />;
+    case 'pow':
+      return <PowWidget {...props} />;
+    case 'mock':
+      return <MockWidget {...props} />;
+  }
+}
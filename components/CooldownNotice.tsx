@@ -0,0 +1,54 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Timer } from 'lucide-react';
+
+/**
+ * 倒计时到指定时间点，结束时调用 onDone（until 为 null 时不计时）
+ * @returns 剩余秒数
+ */
+export function useCooldown(until: number | null, onDone: () => void): number {
+  const [remaining, setRemaining] = useState(0);
+  // 始终调用最新的回调（回调中可能读取最新的答案等状态）
+  const onDoneRef = useRef(onDone);
+  useEffect(() => {
+    onDoneRef.current = onDone;
+  });
+
+  useEffect(() => {
+    if (until === null) return;
+
+    const tick = () => {
+      const left = Math.max(Math.ceil((until - Date.now()) / 1000), 0);
+      setRemaining(left);
+      if (left === 0) {
+        clearInterval(timer);
+        onDoneRef.current();
+      }
+    };
+    const timer = setInterval(tick, 250);
+    const first = setTimeout(tick, 0);
+    return () => {
+      clearInterval(timer);
+      clearTimeout(first);
+    };
+  }, [until]);
+
+  return until === null ? 0 : remaining;
+}
+
+interface CooldownNoticeProps {
+  message: string;
+}
+
+/**
+ * 限流倒计时提示（文案由调用方按剩余秒数生成）
+ */
+export default function CooldownNotice({ message }: CooldownNoticeProps) {
+  return (
+    <div className="p-4 bg-amber-900/20 border border-amber-600 rounded text-amber-400 text-sm flex items-center gap-2">
+      <Timer size={16} className="shrink-0" />
+      <span>{message}</span>
+    </div>
+  );
+}
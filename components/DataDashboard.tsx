@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect, useMemo, useRef } from "react";
-import { ShieldCheck, FileWarning, Users, AlertTriangle } from "lucide-react";
+import { ShieldCheck, FileWarning, Users, AlertTriangle, Layers, Wallet, Gift, MessageCircle } from "lucide-react";
 import {
   BarChart,
   Bar,
@@ -14,6 +14,12 @@ import {
   Pie,
   Legend,
 } from "recharts";
+import { editions, getCurrentEdition } from "@/lib/editions";
+import { getQuestion } from "@/lib/questions";
+import { getRetryAfter } from "@/lib/client-rate-limit";
+import { FULL_YEAR_MONTHS, type SalaryMonthsSummary } from "@/lib/salary-stats";
+import { useI18n, LocaleSwitcher } from "./LocaleProvider";
+import CooldownNotice, { useCooldown } from "./CooldownNotice";
 
 interface DataDashboardProps {
   onBack: () => void;
@@ -21,7 +27,8 @@ interface DataDashboardProps {
 
 interface StatsData {
   total: number;
-  avgMonths: string;
+  // 实发薪资月数：均值、中位数、四分位、低于 12 个月的比例和完整分布
+  salaryMonths: SalaryMonthsSummary;
   income: {
     growth: number;
     stable: number;
@@ -36,15 +43,52 @@ interface StatsData {
     safe: number;
     risk: number;
   };
+  // 矩阵题分布：问题 id -> 子项编码 -> 选项编码 -> 人数
+  matrix: Record<string, Record<string, Record<string, number>>>;
+  // 多选题：问题 id -> 回答人数、选项编码 -> 人数、选项编码 -> 选项编码 -> 同时选择的人数
+  multi: Record<
+    string,
+    {
+      respondents: number;
+      counts: Record<string, number>;
+      pairs: Record<string, Record<string, number>>;
+    }
+  >;
+  // 单选题完整分布：问题 id -> 选项编码 -> 人数
+  choice: Record<string, Record<string, number>>;
 }
 
+// 矩阵题量表配色（按选项顺序）
+const MATRIX_COLORS = ["#22c55e", "#57534e", "#f97316", "#ef4444", "#292524"];
+const payComponentsSource = getQuestion("pay_components_change");
+// 欠薪感知配色（按选项顺序，从罕见到泛滥）
+const PERCEPTION_COLORS = ["#22c55e", "#a8a29e", "#f97316", "#ef4444"];
+const welfareCutSource = getQuestion("welfare_cut");
+const arrearsPerceptionSource = getQuestion("friends_arrears_perception");
+
 export default function DataDashboard({ onBack }: DataDashboardProps) {
+  const { t, locale, localize } = useI18n();
   const [stats, setStats] = useState<StatsData | null>(null);
   const [loading, setLoading] = useState(true);
+  const [editionId, setEditionId] = useState(() => getCurrentEdition().id);
   // 使用 ref 存储上次请求时间，避免触发重新渲染和依赖循环
   const lastFetchRef = useRef<number>(0);
+  const cooldownUntilRef = useRef<number>(0);
+  // 被限流时的重试时间：倒计时期间暂停轮询，保留已显示的数据，结束后自动刷新
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const cooldown = useCooldown(retryAt, () => {
+    setRetryAt(null);
+    setRefreshKey((key) => key + 1);
+  });
+
+  const edition = editions.find((e) => e.id === editionId) ?? getCurrentEdition();
+  const isReadOnly = edition.id !== getCurrentEdition().id || !!edition.closed;
 
   useEffect(() => {
+    // 切换期次时立即重新获取，不受防抖限制
+    lastFetchRef.current = 0;
+
     // 从 API 获取聚合数据
     const fetchData = async () => {
       // 防抖：如果距离上次请求不到 5 秒，跳过
@@ -52,13 +96,24 @@ export default function DataDashboard({ onBack }: DataDashboardProps) {
       if (now - lastFetchRef.current < 5000) {
         return;
       }
+      // 限流倒计时期间不请求
+      if (cooldownUntilRef.current > now) {
+        return;
+      }
 
       try {
-        const response = await fetch("/api/survey/stats", {
+        const response = await fetch(`/api/survey/stats?edition=${encodeURIComponent(editionId)}`, {
+          headers: { "Accept-Language": locale },
           // 使用浏览器缓存
           cache: "default",
           next: { revalidate: 30 },
         });
+        const retryAfter = getRetryAfter(response);
+        if (retryAfter !== null) {
+          cooldownUntilRef.current = now + retryAfter;
+          setRetryAt(cooldownUntilRef.current);
+          return;
+        }
         const result = await response.json();
         if (result.success) {
           setStats(result.stats);
@@ -73,44 +128,110 @@ export default function DataDashboard({ onBack }: DataDashboardProps) {
 
     fetchData();
 
-    // 每 60 秒刷新一次数据（降低刷新频率）
+    // 往期数据只读不再变化，只有当前期每 60 秒刷新一次数据（降低刷新频率）
+    if (isReadOnly) return;
     const interval = setInterval(fetchData, 60000);
     return () => clearInterval(interval);
-  }, []); // 空依赖数组，effect 只在组件挂载时执行一次
+  }, [editionId, isReadOnly, locale, refreshKey]); // 只在切换期次、语言或限流倒计时结束时重新执行
 
-  // 1. 关键指标（直接使用 API 返回的数据）
+  // 1. 关键指标（直接使用 API 返回的数据，月数保留 1 位小数）
   const metrics = useMemo(() => {
-    if (!stats) return { avgMonths: "0", total: 0 };
+    const salary = stats?.salaryMonths;
     return {
-      total: stats.total,
-      avgMonths: stats.avgMonths,
+      total: stats?.total ?? 0,
+      median: (salary?.median ?? 0).toFixed(1),
+      mean: (salary?.mean ?? 0).toFixed(1),
+      p25: (salary?.p25 ?? 0).toFixed(1),
+      p75: (salary?.p75 ?? 0).toFixed(1),
+      belowFullYear: `${((salary?.belowFullYearShare ?? 0) * 100).toFixed(1)}%`,
     };
   }, [stats]);
 
+  // 1.1. 实发薪资月数分布（0-18，步长 0.5，低于 12 个月标红）
+  const salaryHistogram = useMemo(
+    () =>
+      (stats?.salaryMonths?.histogram ?? []).map((bucket) => ({
+        name: bucket.months.toFixed(1),
+        months: bucket.months,
+        value: bucket.count,
+      })),
+    [stats],
+  );
+
   // 2. 个人收入 vs 身边人状态对比（直接使用 API 返回的数据）
   const incomeComparison = useMemo(() => {
     if (!stats) return [];
     return [
-      { name: "个人实况: 增长", value: stats.income.growth, type: "personal" },
-      { name: "个人实况: 持平", value: stats.income.stable, type: "personal" },
-      { name: "个人实况: 下跌", value: stats.income.decline, type: "personal" },
+      { name: t("dashboard.personalGrowth"), value: stats.income.growth, type: "personal" },
+      { name: t("dashboard.personalStable"), value: stats.income.stable, type: "personal" },
+      { name: t("dashboard.personalDecline"), value: stats.income.decline, type: "personal" },
       {
-        name: "环境体感: 普遍好",
+        name: t("dashboard.friendsBetter"),
         value: stats.friends.better,
         type: "friends",
       },
-      { name: "环境体感: 普遍差", value: stats.friends.worse, type: "friends" },
+      { name: t("dashboard.friendsWorse"), value: stats.friends.worse, type: "friends" },
     ];
-  }, [stats]);
+  }, [stats, t]);
 
   // 3. 欠薪比例（直接使用 API 返回的数据）
   const arrearsData = useMemo(() => {
     if (!stats) return [];
     return [
-      { name: "按时发放", value: stats.arrears.safe },
-      { name: "遭遇欠薪", value: stats.arrears.risk },
+      { name: t("dashboard.arrearsSafe"), value: stats.arrears.safe },
+      { name: t("dashboard.arrearsRisk"), value: stats.arrears.risk },
     ];
-  }, [stats]);
+  }, [stats, t]);
+
+  // 4. 收入组成变化（矩阵题，按子项堆叠展示各选项人数）
+  const payComponentsQuestion = useMemo(
+    () => (payComponentsSource ? localize(payComponentsSource) : undefined),
+    [localize],
+  );
+  const payComponentsData = useMemo(() => {
+    const distribution = stats?.matrix?.["pay_components_change"];
+    if (!distribution || !payComponentsQuestion?.rows) return [];
+    return payComponentsQuestion.rows.map((row) => ({
+      name: row.label,
+      ...distribution[row.code],
+    }));
+  }, [stats, payComponentsQuestion]);
+
+  // 5. 福利缩水（多选，比例按回答该题的人数计算，各项之和可超过 100%）
+  const welfareCutQuestion = useMemo(
+    () => (welfareCutSource ? localize(welfareCutSource) : undefined),
+    [localize],
+  );
+  const welfareCutData = useMemo(() => {
+    const summary = stats?.multi?.["welfare_cut"];
+    if (!summary || !welfareCutQuestion?.options) return [];
+    return welfareCutQuestion.options.map((opt) => {
+      const count = summary.counts[opt.code] ?? 0;
+      return {
+        name: opt.label,
+        value: count,
+        share: summary.respondents > 0 ? Math.round((count / summary.respondents) * 1000) / 10 : 0,
+      };
+    });
+  }, [stats, welfareCutQuestion]);
+
+  // 5.1. 福利缩水两两同时出现的人数（只列出和其他选项同时选择过的选项）
+  const welfareCutPairs = useMemo(() => {
+    const pairs = stats?.multi?.["welfare_cut"]?.pairs;
+    if (!pairs || !welfareCutQuestion?.options) return null;
+    const options = welfareCutQuestion.options.filter((opt) => pairs[opt.code]);
+    if (options.length < 2) return null;
+    const max = Math.max(...options.flatMap((a) => options.map((b) => pairs[a.code]?.[b.code] ?? 0)));
+    return { options, pairs, max };
+  }, [stats, welfareCutQuestion]);
+
+  // 6. 社交圈欠薪感知（完整分布）
+  const arrearsPerceptionData = useMemo(() => {
+    const distribution = stats?.choice?.["friends_arrears_perception"];
+    const question = arrearsPerceptionSource ? localize(arrearsPerceptionSource) : undefined;
+    if (!distribution || !question?.options) return [];
+    return question.options.map((opt) => ({ name: opt.label, value: distribution[opt.code] ?? 0 }));
+  }, [stats, localize]);
 
   if (loading)
     return (
@@ -125,43 +246,87 @@ export default function DataDashboard({ onBack }: DataDashboardProps) {
         <div className="flex justify-between items-center mb-10 border-b border-stone-800 pb-6">
           <div>
             <h1 className="text-2xl md:text-3xl font-black text-white tracking-tight">
-              2025 全网账本
+              {t("dashboard.title", { year: edition.year })}
             </h1>
             <div className="flex items-center gap-4 text-stone-500 text-xs font-mono mt-2">
               <span className="flex items-center gap-1">
                 <ShieldCheck size={12} className="text-green-500" /> DATA
                 ENCRYPTED
               </span>
-              <span>LIVE UPDATES</span>
+              <span>{isReadOnly ? "ARCHIVED" : "LIVE UPDATES"}</span>
             </div>
+            {/* 期次切换 */}
+            {editions.length > 1 && (
+              <div className="flex gap-2 mt-4">
+                {editions.map((e) => (
+                  <button
+                    key={e.id}
+                    onClick={() => setEditionId(e.id)}
+                    className={`text-xs font-mono px-3 py-1 rounded border transition-colors ${
+                      e.id === editionId
+                        ? "border-red-600 text-red-500"
+                        : "border-stone-800 text-stone-500 hover:text-stone-300"
+                    }`}
+                  >
+                    {e.year}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="flex flex-col items-end gap-3">
+            <LocaleSwitcher />
+            <button
+              onClick={onBack}
+              className="text-sm border border-stone-700 hover:bg-stone-800 px-4 py-2 rounded text-stone-400 transition-colors"
+            >
+              {t("dashboard.back")}
+            </button>
           </div>
-          <button
-            onClick={onBack}
-            className="text-sm border border-stone-700 hover:bg-stone-800 px-4 py-2 rounded text-stone-400 transition-colors"
-          >
-            返回首页
-          </button>
         </div>
 
+        {/* 被限流时显示倒计时（继续显示上次获取的数据） */}
+        {retryAt !== null && (
+          <div className="mb-6">
+            <CooldownNotice message={t("dashboard.cooldown", { seconds: cooldown })} />
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {/* Card: 关键数字 */}
           <div className="bg-stone-900 border border-stone-800 p-6 rounded-lg flex flex-col justify-center">
             <div className="text-stone-400 text-xs font-bold uppercase tracking-wider mb-2">
-              平均实发薪资
+              {t("dashboard.medianMonths")}
             </div>
             <div className="flex items-baseline gap-2">
               <span className="text-5xl font-black text-white">
-                {metrics.avgMonths}
+                {metrics.median}
               </span>
-              <span className="text-stone-500">个月</span>
+              <span className="text-stone-500">{t("common.months")}</span>
+            </div>
+            <div className="grid grid-cols-3 gap-2 mt-4 text-xs">
+              <div>
+                <div className="text-stone-500">{t("dashboard.meanMonths")}</div>
+                <div className="text-white font-bold font-mono">{metrics.mean}</div>
+              </div>
+              <div>
+                <div className="text-stone-500">{t("dashboard.quartileMonths")}</div>
+                <div className="text-white font-bold font-mono">
+                  {metrics.p25}–{metrics.p75}
+                </div>
+              </div>
+              <div>
+                <div className="text-stone-500">{t("dashboard.belowFullYear")}</div>
+                <div className="text-red-500 font-bold font-mono">{metrics.belowFullYear}</div>
+              </div>
             </div>
             <div className="mt-4 pt-4 border-t border-stone-800">
               <div className="text-stone-400 text-xs font-bold uppercase tracking-wider mb-1">
-                样本总数
+                {t("dashboard.total")}
               </div>
               <div className="text-2xl font-bold text-white">
                 {metrics.total}{" "}
-                <span className="text-sm font-normal text-stone-500">人</span>
+                <span className="text-sm font-normal text-stone-500">{t("common.people")}</span>
               </div>
             </div>
           </div>
@@ -169,7 +334,7 @@ export default function DataDashboard({ onBack }: DataDashboardProps) {
           {/* Chart: 欠薪比例 */}
           <div className="bg-stone-900 border border-stone-800 p-6 rounded-lg">
             <h3 className="text-stone-400 text-xs font-bold mb-4 uppercase tracking-wider flex items-center gap-2">
-              <FileWarning size={14} /> 样本欠薪率
+              <FileWarning size={14} /> {t("dashboard.arrearsRate")}
             </h3>
             <div className="h-48 w-full">
               <ResponsiveContainer>
@@ -202,14 +367,14 @@ export default function DataDashboard({ onBack }: DataDashboardProps) {
               </ResponsiveContainer>
             </div>
             <p className="text-xs text-stone-500 mt-2 text-center">
-              红色区域代表存在拖欠行为
+              {t("dashboard.arrearsNote")}
             </p>
           </div>
 
           {/* Chart: 个人vs环境 */}
           <div className="bg-stone-900 border border-stone-800 p-6 rounded-lg lg:col-span-1">
             <h3 className="text-stone-400 text-xs font-bold mb-4 uppercase tracking-wider flex items-center gap-2">
-              <Users size={14} /> 个人实感 vs 环境观察
+              <Users size={14} /> {t("dashboard.personalVsFriends")}
             </h3>
             <div className="h-48 w-full">
               <ResponsiveContainer>
@@ -244,28 +409,206 @@ export default function DataDashboard({ onBack }: DataDashboardProps) {
               </ResponsiveContainer>
             </div>
             <p className="text-xs text-stone-500 mt-2 text-center">
-              蓝色: 个人实际 | 灰色: 观察到的环境
+              {t("dashboard.personalVsFriendsNote")}
+            </p>
+          </div>
+
+          {/* Chart: 实发薪资月数分布 */}
+          <div className="bg-stone-900 border border-stone-800 p-6 rounded-lg lg:col-span-3">
+            <h3 className="text-stone-400 text-xs font-bold mb-4 uppercase tracking-wider flex items-center gap-2">
+              <Wallet size={14} /> {t("dashboard.salaryHistogram")}
+            </h3>
+            <div className="h-56 w-full">
+              <ResponsiveContainer>
+                <BarChart data={salaryHistogram} margin={{ left: 0 }}>
+                  <XAxis
+                    dataKey="name"
+                    interval={1}
+                    tick={{ fontSize: 10, fill: "#78716c" }}
+                  />
+                  <YAxis allowDecimals={false} width={40} tick={{ fontSize: 10, fill: "#78716c" }} />
+                  <Tooltip
+                    cursor={{ fill: "rgba(255,255,255,0.05)" }}
+                    contentStyle={{
+                      backgroundColor: "#0c0a09",
+                      border: "1px solid #333",
+                    }}
+                  />
+                  <Bar dataKey="value" name={t("common.people")} radius={[4, 4, 0, 0]}>
+                    {salaryHistogram.map((entry) => (
+                      <Cell
+                        key={entry.name}
+                        fill={entry.months < FULL_YEAR_MONTHS ? "#ef4444" : "#57534e"}
+                      />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <p className="text-xs text-stone-500 mt-2 text-center">
+              {t("dashboard.salaryHistogramNote")}
             </p>
           </div>
 
+          {/* Chart: 收入组成变化 */}
+          {payComponentsQuestion && (
+            <div className="bg-stone-900 border border-stone-800 p-6 rounded-lg lg:col-span-3">
+              <h3 className="text-stone-400 text-xs font-bold mb-4 uppercase tracking-wider flex items-center gap-2">
+                <Layers size={14} /> {t("dashboard.payComponents")}
+              </h3>
+              <div className="h-56 w-full">
+                <ResponsiveContainer>
+                  <BarChart data={payComponentsData} layout="vertical" margin={{ left: 0 }}>
+                    <XAxis type="number" hide />
+                    <YAxis
+                      dataKey="name"
+                      type="category"
+                      width={90}
+                      tick={{ fontSize: 10, fill: "#78716c" }}
+                    />
+                    <Tooltip
+                      cursor={{ fill: "rgba(255,255,255,0.05)" }}
+                      contentStyle={{
+                        backgroundColor: "#0c0a09",
+                        border: "1px solid #333",
+                      }}
+                    />
+                    <Legend wrapperStyle={{ fontSize: 10 }} />
+                    {payComponentsQuestion.options?.map((opt, index) => (
+                      <Bar
+                        key={opt.code}
+                        dataKey={opt.code}
+                        name={opt.label}
+                        stackId="matrix"
+                        fill={MATRIX_COLORS[index % MATRIX_COLORS.length]}
+                      />
+                    ))}
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          )}
+
+          {/* Chart: 福利缩水 */}
+          {welfareCutQuestion && (
+            <div className="bg-stone-900 border border-stone-800 p-6 rounded-lg lg:col-span-2">
+              <h3 className="text-stone-400 text-xs font-bold mb-4 uppercase tracking-wider flex items-center gap-2">
+                <Gift size={14} /> {t("dashboard.welfareCut")}
+              </h3>
+              <div className="h-56 w-full">
+                <ResponsiveContainer>
+                  <BarChart data={welfareCutData} layout="vertical" margin={{ left: 0 }}>
+                    <XAxis type="number" hide domain={[0, 100]} />
+                    <YAxis
+                      dataKey="name"
+                      type="category"
+                      width={150}
+                      tick={{ fontSize: 10, fill: "#78716c" }}
+                    />
+                    <Tooltip
+                      cursor={{ fill: "rgba(255,255,255,0.05)" }}
+                      contentStyle={{
+                        backgroundColor: "#0c0a09",
+                        border: "1px solid #333",
+                      }}
+                      formatter={(value) => `${value}%`}
+                    />
+                    <Bar dataKey="share" name={t("dashboard.share")} fill="#ef4444" radius={[0, 4, 4, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+              <p className="text-xs text-stone-500 mt-2 text-center">
+                {t("dashboard.welfareCutNote")}
+              </p>
+            </div>
+          )}
+
+          {/* Chart: 社交圈欠薪感知 */}
+          <div className="bg-stone-900 border border-stone-800 p-6 rounded-lg">
+            <h3 className="text-stone-400 text-xs font-bold mb-4 uppercase tracking-wider flex items-center gap-2">
+              <MessageCircle size={14} /> {t("dashboard.arrearsPerception")}
+            </h3>
+            <div className="h-56 w-full">
+              <ResponsiveContainer>
+                <BarChart data={arrearsPerceptionData} layout="vertical" margin={{ left: 0 }}>
+                  <XAxis type="number" hide />
+                  <YAxis
+                    dataKey="name"
+                    type="category"
+                    width={110}
+                    tick={{ fontSize: 10, fill: "#78716c" }}
+                  />
+                  <Tooltip
+                    cursor={{ fill: "rgba(255,255,255,0.05)" }}
+                    contentStyle={{
+                      backgroundColor: "#0c0a09",
+                      border: "1px solid #333",
+                    }}
+                  />
+                  <Bar dataKey="value" name={t("common.people")} radius={[0, 4, 4, 0]}>
+                    {arrearsPerceptionData.map((entry, index) => (
+                      <Cell key={entry.name} fill={PERCEPTION_COLORS[index % PERCEPTION_COLORS.length]} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          {/* 福利缩水同时出现的人数（对称矩阵，颜色越深人数越多） */}
+          {welfareCutPairs && (
+            <div className="bg-stone-900 border border-stone-800 p-6 rounded-lg lg:col-span-3 overflow-x-auto">
+              <h3 className="text-stone-400 text-xs font-bold mb-4 uppercase tracking-wider flex items-center gap-2">
+                <Gift size={14} /> {t("dashboard.welfareCutPairs")}
+              </h3>
+              <table className="text-xs text-stone-400 border-separate border-spacing-1">
+                <thead>
+                  <tr>
+                    <th />
+                    {welfareCutPairs.options.map((opt) => (
+                      <th key={opt.code} className="font-normal text-stone-500 max-w-28 align-bottom">
+                        {opt.label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {welfareCutPairs.options.map((row) => (
+                    <tr key={row.code}>
+                      <th className="font-normal text-stone-500 text-right pr-2">{row.label}</th>
+                      {welfareCutPairs.options.map((col) => {
+                        const count = welfareCutPairs.pairs[row.code]?.[col.code] ?? 0;
+                        return (
+                          <td
+                            key={col.code}
+                            className="w-16 h-10 text-center font-mono text-white rounded"
+                            style={{
+                              backgroundColor:
+                                row.code === col.code
+                                  ? "transparent"
+                                  : `rgba(239, 68, 68, ${welfareCutPairs.max > 0 ? (count / welfareCutPairs.max) * 0.8 : 0})`,
+                            }}
+                          >
+                            {row.code === col.code ? "—" : count}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-stone-500 mt-2">{t("dashboard.welfareCutPairsNote")}</p>
+            </div>
+          )}
+
           {/* 洞察文字 */}
           <div className="lg:col-span-3 bg-stone-900 border-l-4 border-red-600 p-6">
             <h4 className="text-white font-bold mb-2 flex items-center gap-2">
-              <AlertTriangle size={16} className="text-red-500" /> 数据洞察
+              <AlertTriangle size={16} className="text-red-500" /> {t("dashboard.insights")}
             </h4>
             <div className="text-stone-400 text-sm space-y-2">
-              <p>
-                • <strong>&ldquo;平均实发薪资&rdquo;</strong>{" "}
-                是衡量行业健康度的金标准。低于 12
-                个月意味着大规模的年终奖取消或扣薪。
-              </p>
-              <p>
-                • 观察
-                <strong>
-                  &ldquo;个人实况&rdquo;与&ldquo;环境体感&rdquo;的差值
-                </strong>
-                。如果环境普遍恶化（灰色条长），但个人大多持平（蓝色条长），可能存在&ldquo;幸存者偏差&rdquo;——即只有状况尚可的人才愿意填写问卷。
-              </p>
+              <p>• {t("dashboard.insightMonths")}</p>
+              <p>• {t("dashboard.insightBias")}</p>
             </div>
           </div>
         </div>
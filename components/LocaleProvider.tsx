@@ -0,0 +1,98 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import {
+  LOCALE_COOKIE,
+  SUPPORTED_LOCALES,
+  localizeQuestion,
+  translate,
+  type Locale,
+  type MessageKey,
+} from '@/lib/i18n';
+import type { Question } from '@/lib/questions';
+
+interface LocaleContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: Record<string, string | number>) => string;
+  localize: (question: Question) => Question;
+}
+
+const LocaleContext = createContext<LocaleContextValue | null>(null);
+
+interface LocaleProviderProps {
+  // 服务端根据 cookie / Accept-Language 协商出的初始语言
+  initialLocale: Locale;
+  children: React.ReactNode;
+}
+
+export function LocaleProvider({ initialLocale, children }: LocaleProviderProps) {
+  const [locale, setLocaleState] = useState<Locale>(initialLocale);
+
+  // 同步 <html lang>，便于屏幕阅读器和浏览器翻译识别
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    // 记住用户选择（一年），只保存语言，不含任何身份信息
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=31536000; samesite=lax`;
+  }, []);
+
+  const t = useCallback(
+    (key: MessageKey, params?: Record<string, string | number>) => translate(locale, key, params),
+    [locale]
+  );
+
+  const localize = useCallback((question: Question) => localizeQuestion(question, locale), [locale]);
+
+  return (
+    <LocaleContext.Provider value={{ locale, setLocale, t, localize }}>
+      {children}
+    </LocaleContext.Provider>
+  );
+}
+
+/**
+ * 获取当前语言和翻译函数
+ */
+export function useI18n(): LocaleContextValue {
+  const context = useContext(LocaleContext);
+  if (!context) {
+    throw new Error('useI18n must be used within LocaleProvider');
+  }
+  return context;
+}
+
+// 语言切换器中显示的名称（始终用该语言自身书写）
+const LOCALE_NAMES: Record<Locale, string> = {
+  'zh-CN': '简体',
+  'zh-TW': '繁體',
+  en: 'EN',
+};
+
+/**
+ * 语言切换器
+ */
+export function LocaleSwitcher() {
+  const { locale, setLocale } = useI18n();
+
+  return (
+    <div className="flex gap-2 text-xs font-mono">
+      {SUPPORTED_LOCALES.map((l) => (
+        <button
+          key={l}
+          onClick={() => setLocale(l)}
+          className={`px-2 py-1 rounded border transition-colors ${
+            l === locale
+              ? 'border-stone-500 text-stone-200'
+              : 'border-stone-800 text-stone-600 hover:text-stone-300'
+          }`}
+        >
+          {LOCALE_NAMES[l]}
+        </button>
+      ))}
+    </div>
+  );
+}
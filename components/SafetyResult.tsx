@@ -2,6 +2,7 @@
 
 import React from 'react';
 import { ShieldCheck, CheckCircle2, EyeOff, BarChart3, AlertTriangle } from 'lucide-react';
+import { useI18n } from './LocaleProvider';
 
 interface SafetyResultProps {
   onReset: () => void;
@@ -10,6 +11,8 @@ interface SafetyResultProps {
 }
 
 export default function SafetyResult({ onReset, onViewData, error }: SafetyResultProps) {
+  const { t } = useI18n();
+
   // 如果有错误，显示错误页面
   if (error) {
     return (
@@ -23,7 +26,7 @@ export default function SafetyResult({ onReset, onViewData, error }: SafetyResul
           </div>
 
           <div>
-            <h1 className="text-2xl font-bold text-white mb-2">提交失败</h1>
+            <h1 className="text-2xl font-bold text-white mb-2">{t('result.errorTitle')}</h1>
             <p className="text-stone-400 text-sm">
               {error}
             </p>
@@ -31,11 +34,11 @@ export default function SafetyResult({ onReset, onViewData, error }: SafetyResul
 
           <div className="bg-stone-900 p-6 rounded text-left border border-stone-800">
             <div className="text-sm text-stone-300 space-y-2">
-              <p className="text-stone-500 text-xs mb-2">可能的原因：</p>
+              <p className="text-stone-500 text-xs mb-2">{t('result.possibleReasons')}</p>
               <ul className="list-disc list-inside space-y-1 text-stone-400">
-                <li>提交过于频繁（每小时最多 3 次）</li>
-                <li>网络连接问题</li>
-                <li>服务器暂时不可用</li>
+                <li>{t('result.reasonFrequency')}</li>
+                <li>{t('result.reasonNetwork')}</li>
+                <li>{t('result.reasonServer')}</li>
               </ul>
             </div>
           </div>
@@ -45,14 +48,14 @@ export default function SafetyResult({ onReset, onViewData, error }: SafetyResul
               onClick={onReset}
               className="w-full py-4 bg-stone-100 text-stone-950 font-bold hover:bg-white transition-all rounded shadow-lg shadow-white/5"
             >
-              返回重试
+              {t('result.retry')}
             </button>
 
             <button
               onClick={onViewData}
               className="w-full py-4 border border-stone-800 text-stone-500 hover:text-stone-300 hover:border-stone-600 transition-all flex items-center justify-center gap-2"
             >
-              <BarChart3 size={16} /> 查看现有数据
+              <BarChart3 size={16} /> {t('common.viewData')}
             </button>
           </div>
 
@@ -73,9 +76,9 @@ export default function SafetyResult({ onReset, onViewData, error }: SafetyResul
         </div>
 
         <div>
-          <h1 className="text-2xl font-bold text-white mb-2">数据已加密归档</h1>
+          <h1 className="text-2xl font-bold text-white mb-2">{t('result.successTitle')}</h1>
           <p className="text-stone-400 text-sm">
-            您的个人数据与环境观察记录已混入匿名数据池。
+            {t('result.successDescription')}
           </p>
         </div>
 
@@ -84,14 +87,14 @@ export default function SafetyResult({ onReset, onViewData, error }: SafetyResul
              <CheckCircle2 className="text-green-600 shrink-0 mt-0.5" size={18} />
              <div className="text-sm text-stone-300">
                <span className="block text-stone-500 text-xs mb-1">PRIVACY</span>
-               本地 Session 已重置。
+               {t('result.sessionReset')}
              </div>
           </div>
           <div className="flex items-start gap-3">
              <EyeOff className="text-green-600 shrink-0 mt-0.5" size={18} />
              <div className="text-sm text-stone-300">
                <span className="block text-stone-500 text-xs mb-1">NO LOGS</span>
-               未关联任何身份 ID。请勿截图分享本页。
+               {t('result.noLogs')}
              </div>
           </div>
         </div>
@@ -101,14 +104,14 @@ export default function SafetyResult({ onReset, onViewData, error }: SafetyResul
             onClick={onViewData}
             className="w-full py-4 bg-stone-100 text-stone-950 font-bold hover:bg-white transition-all rounded shadow-lg shadow-white/5 flex items-center justify-center gap-2"
           >
-            <BarChart3 size={18} /> 查看全网统计数据
+            <BarChart3 size={18} /> {t('result.viewStats')}
           </button>
           
           <button 
             onClick={onReset}
             className="text-stone-500 text-sm hover:text-stone-300 underline underline-offset-4"
           >
-            关闭 / 离开
+            {t('result.leave')}
           </button>
         </div>
 
@@ -1,10 +1,35 @@
 declare namespace NodeJS {
   interface ProcessEnv {
     DATABASE_URL: string;
-    RECAPTCHA_SECRET_KEY: string;
+    // 人机验证：服务商（recaptcha | recaptcha-v3 | hcaptcha | turnstile | pow | mock）和密钥，见 lib/captcha/config.ts
+    NEXT_PUBLIC_CAPTCHA_PROVIDER?: string;
+    NEXT_PUBLIC_CAPTCHA_SITE_KEY?: string;
+    CAPTCHA_SECRET_KEY?: string;
+    // reCAPTCHA v3：临界分数时的 v2 补充验证密钥，以及各操作的分数阈值（action:pass:fallback，逗号分隔）
+    NEXT_PUBLIC_CAPTCHA_FALLBACK_SITE_KEY?: string;
+    CAPTCHA_FALLBACK_SECRET_KEY?: string;
+    RECAPTCHA_V3_THRESHOLDS?: string;
+    // 工作量证明基础难度（前导零比特数，默认 16）
+    POW_BASE_DIFFICULTY?: string;
+    // 答题会话和工作量证明题目的签名密钥（生产环境必须配置）
+    SURVEY_SESSION_SECRET?: string;
+    // 风险评分处理策略（0-100，达到隔离阈值入库待审核，达到拒绝阈值直接拒绝），见 lib/guards/risk.ts
+    RISK_QUARANTINE_THRESHOLD?: string;
+    RISK_REJECT_THRESHOLD?: string;
+    // 旧配置（仍兼容）
+    RECAPTCHA_SECRET_KEY?: string;
     TOKEN_SECRET_KEY: string;
     CLEANUP_SECRET?: string;
+    // 管理接口密钥（隔离审核等，Authorization: Bearer <ADMIN_SECRET>），未配置时管理接口不可用
+    ADMIN_SECRET?: string;
     ALLOWED_ORIGINS?: string;
+    // 服务端速率限制桶（bucket:limit:windowSeconds[:open|closed]，逗号分隔；桶为 read | session | write），见 lib/rate-limit.ts
+    RATE_LIMIT_BUCKETS?: string;
+    // 速率限制计数存储（postgres | memory | redis，默认 postgres）和 Redis 地址，见 lib/rate-limit-store
+    RATE_LIMIT_STORE?: string;
+    REDIS_URL?: string;
+    // 同一设备每天最多提交次数（默认 5，0 表示关闭），见 lib/device-limit.ts
+    DEVICE_DAILY_LIMIT?: string;
     NODE_ENV: 'development' | 'production' | 'test';
   }
 }
\ No newline at end of file
@@ -0,0 +1,42 @@
+/**
+ * 接口响应工具
+ * 所有错误响应都携带文案键（errorKey / messageKey），同时按请求语言返回翻译好的文本
+ */
+
+import { NextResponse } from 'next/server';
+import { negotiateLocale, translate, type Locale, type MessageKey } from './i18n';
+
+/**
+ * 从请求头协商响应语言
+ * 客户端会把用户选择的语言放在 Accept-Language 中发送
+ */
+export function getRequestLocale(request: Request): Locale {
+  return negotiateLocale(request.headers.get('accept-language'));
+}
+
+/**
+ * 构建带文案键的错误响应
+ */
+export function jsonError(
+  locale: Locale,
+  status: number,
+  errorKey: MessageKey,
+  messageKey?: MessageKey,
+  options: {
+    extra?: Record<string, unknown>;
+    headers?: HeadersInit;
+  } = {}
+): NextResponse {
+  return NextResponse.json(
+    {
+      error: translate(locale, errorKey),
+      errorKey,
+      ...(messageKey && {
+        message: translate(locale, messageKey),
+        messageKey,
+      }),
+      ...options.extra,
+    },
+    { status, headers: options.headers }
+  );
+}
@@ -10,6 +10,7 @@
  */
 
 import { isMobileDevice } from './user-agent-utils';
+import { assessRisk, decideRisk, type RiskRule } from './risk-scoring';
 
 interface BehaviorData {
   mouseMovements: number;
@@ -78,73 +79,25 @@ export function initBehaviorTracking(): void {
 
 /**
  * 验证用户行为是否像真人
+ * 与服务端使用同一套风险评分（lib/risk-scoring.ts），只提前拦截默认策略下会被拒绝的提交
  */
 export function validateHumanBehavior(): {
   isHuman: boolean;
-  reason?: string;
+  // 命中的规则（客户端按文案键本地化后提示用户）
+  rules: RiskRule[];
   score: number;
 } {
   const now = Date.now();
-  const timeSpent = (now - behaviorData.startTime) / 1000; // 秒
-  const isMobile = isMobileDevice();
-
-  let score = 0;
-  const reasons: string[] = [];
-
-  // 1. 检查停留时间（至少10秒）
-  if (timeSpent < 10) {
-    reasons.push('停留时间过短');
-  } else {
-    score += 20;
-  }
-
-  // 2. PC端检查鼠标移动
-  if (!isMobile) {
-    if (behaviorData.mouseMovements < 5) {
-      reasons.push('鼠标移动过少');
-    } else if (behaviorData.mouseMovements > 10) {
-      score += 30;
-    } else {
-      score += 15;
-    }
-  }
-
-  // 3. 移动端检查触摸事件
-  if (isMobile) {
-    if (behaviorData.touchEvents < 3) {
-      reasons.push('触摸交互过少');
-    } else {
-      score += 30;
-    }
-  }
-
-  // 4. 检查点击次数（至少3次，选择答案）
-  if (behaviorData.clicks < 3) {
-    reasons.push('点击次数过少');
-  } else {
-    score += 25;
-  }
-
-  // 5. 检查是否有交互（滚动或键盘）
-  if (behaviorData.scrolls > 0 || behaviorData.keyPresses > 0) {
-    score += 15;
-  }
-
-  // 6. 检查活跃度（最后活动时间不能太久）
-  const timeSinceLastActivity = (now - behaviorData.lastActivity) / 1000;
-  if (timeSinceLastActivity > 60) {
-    reasons.push('长时间无活动');
-    score -= 20;
-  } else {
-    score += 10;
-  }
-
-  // 判断阈值：60分以上认为是真人
-  const isHuman = score >= 60;
+  const { score, contributions } = assessRisk({
+    isMobile: isMobileDevice(),
+    behavior: behaviorData,
+    elapsedMs: now - behaviorData.startTime,
+    now,
+  });
 
   return {
-    isHuman,
-    reason: reasons.length > 0 ? reasons.join(', ') : undefined,
+    isHuman: decideRisk(score) !== 'reject',
+    rules: contributions.map(contribution => contribution.rule),
     score,
   };
 }
@@ -0,0 +1,78 @@
+/**
+ * 人机验证配置（客户端组件、服务端验证和 CSP 共用）
+ *
+ * 通过 NEXT_PUBLIC_CAPTCHA_PROVIDER 选择服务商，客户端组件和服务端验证始终使用同一个：
+ * - recaptcha: Google reCAPTCHA v2（默认）
+ * - recaptcha-v3: Google reCAPTCHA v3（无感验证，分数处于临界区时补充 v2 勾选验证，见 ./recaptcha-v3.ts）
+ * - hcaptcha: hCaptcha
+ * - turnstile: Cloudflare Turnstile（适合 Google 服务不可用的地区）
+ * - pow: 自建工作量证明（不依赖任何外部服务，见 lib/proof-of-work.ts）
+ * - mock: 本地测试（离线可用，结果可预测，生产环境拒绝使用）
+ *
+ * 密钥：NEXT_PUBLIC_CAPTCHA_SITE_KEY（客户端）和 CAPTCHA_SECRET_KEY（服务端）
+ * 兼容旧配置 NEXT_PUBLIC_RECAPTCHA_SITE_KEY / RECAPTCHA_SECRET_KEY
+ * reCAPTCHA v3 的补充验证使用单独的 v2 密钥：NEXT_PUBLIC_CAPTCHA_FALLBACK_SITE_KEY / CAPTCHA_FALLBACK_SECRET_KEY
+ */
+
+export const CAPTCHA_PROVIDERS = ['recaptcha', 'recaptcha-v3', 'hcaptcha', 'turnstile', 'pow', 'mock'] as const;
+export type CaptchaProviderName = (typeof CAPTCHA_PROVIDERS)[number];
+
+// 本地测试服务商：只有这个 token 能通过验证
+export const MOCK_CAPTCHA_PASS_TOKEN = 'mock-captcha-pass';
+
+// reCAPTCHA v3 补充验证：v2 勾选验证的 token 带此前缀提交，服务端据此改用 v2 密钥验证
+export const RECAPTCHA_FALLBACK_TOKEN_PREFIX = 'v2:';
+
+// 人机验证对应的操作（reCAPTCHA v3 按操作配置分数阈值，服务端检查 action 是否一致）
+export const CAPTCHA_SUBMIT_ACTION = 'submit';
+
+/**
+ * 获取当前配置的服务商（未配置或配置无效时使用 reCAPTCHA）
+ */
+export function getCaptchaProviderName(): CaptchaProviderName {
+  const value = process.env['NEXT_PUBLIC_CAPTCHA_PROVIDER'];
+  return (CAPTCHA_PROVIDERS as readonly string[]).includes(value ?? '')
+    ? (value as CaptchaProviderName)
+    : 'recaptcha';
+}
+
+/**
+ * 获取客户端组件使用的站点密钥
+ */
+export function getCaptchaSiteKey(): string {
+  return (
+    process.env['NEXT_PUBLIC_CAPTCHA_SITE_KEY'] ||
+    process.env['NEXT_PUBLIC_RECAPTCHA_SITE_KEY'] ||
+    ''
+  );
+}
+
+/**
+ * 获取 reCAPTCHA v3 补充验证（v2 勾选验证）的站点密钥，未配置时不提供补充验证
+ */
+export function getCaptchaFallbackSiteKey(): string {
+  return process.env['NEXT_PUBLIC_CAPTCHA_FALLBACK_SITE_KEY'] || '';
+}
+
+/**
+ * 服务商是否需要站点密钥（自建和本地测试服务商不需要）
+ */
+export function requiresSiteKey(provider: CaptchaProviderName = getCaptchaProviderName()): boolean {
+  return provider !== 'pow' && provider !== 'mock';
+}
+
+/**
+ * 各服务商需要在 CSP 中放行的域名（脚本、iframe 和验证请求）
+ */
+const CSP_SOURCES: Record<CaptchaProviderName, string[]> = {
+  recaptcha: ['https://www.google.com', 'https://www.gstatic.com'],
+  'recaptcha-v3': ['https://www.google.com', 'https://www.gstatic.com'],
+  hcaptcha: ['https://hcaptcha.com', 'https://*.hcaptcha.com'],
+  turnstile: ['https://challenges.cloudflare.com'],
+  pow: [],
+  mock: [],
+};
+
+export function getCaptchaCspSources(provider: CaptchaProviderName = getCaptchaProviderName()): string[] {
+  return CSP_SOURCES[provider];
+}
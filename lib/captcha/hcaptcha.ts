@@ -0,0 +1,11 @@
+/**
+ * hCaptcha 服务端验证
+ */
+
+import { createSiteverifyProvider } from './siteverify';
+
+export const hcaptchaProvider = createSiteverifyProvider({
+  name: 'hcaptcha',
+  label: 'hCaptcha',
+  verifyUrl: 'https://api.hcaptcha.com/siteverify',
+});
@@ -0,0 +1,63 @@
+/**
+ * 人机验证服务端入口
+ * 服务商由 NEXT_PUBLIC_CAPTCHA_PROVIDER 选择（见 ./config），与客户端组件 components/CaptchaWidget.tsx 保持一致
+ */
+
+import type { MessageKey } from '../i18n';
+import { getCaptchaProviderName, type CaptchaProviderName } from './config';
+import { recaptchaProvider } from './recaptcha';
+import { recaptchaV3Provider } from './recaptcha-v3';
+import { hcaptchaProvider } from './hcaptcha';
+import { turnstileProvider } from './turnstile';
+import { powProvider } from './pow';
+import { mockProvider } from './mock';
+
+/**
+ * 验证结果（失败时返回文案键，由调用方按请求语言翻译）
+ */
+export interface CaptchaVerifyResult {
+  success: boolean;
+  errorKey?: MessageKey;
+  // 需要补充验证（reCAPTCHA v3 分数处于临界区时，客户端改为显示 v2 勾选验证）
+  fallback?: boolean;
+  // 通过的是补充验证（计入风险分）
+  viaFallback?: boolean;
+}
+
+/**
+ * 验证时的请求信息
+ */
+export interface CaptchaVerifyContext {
+  // 本次操作（reCAPTCHA v3 按操作选择分数阈值并检查 action）
+  action: string;
+  // 允许生成 token 的域名（小写，不含端口）
+  hostnames: string[];
+}
+
+export interface CaptchaProvider {
+  name: CaptchaProviderName;
+  verify(token: string, context: CaptchaVerifyContext): Promise<CaptchaVerifyResult>;
+}
+
+const providers: Record<CaptchaProviderName, CaptchaProvider> = {
+  recaptcha: recaptchaProvider,
+  'recaptcha-v3': recaptchaV3Provider,
+  hcaptcha: hcaptchaProvider,
+  turnstile: turnstileProvider,
+  pow: powProvider,
+  mock: mockProvider,
+};
+
+/**
+ * 获取当前配置的服务商
+ */
+export function getCaptchaProvider(): CaptchaProvider {
+  return providers[getCaptchaProviderName()];
+}
+
+/**
+ * 使用当前配置的服务商验证客户端返回的 token
+ */
+export function verifyCaptcha(token: string, context: CaptchaVerifyContext): Promise<CaptchaVerifyResult> {
+  return getCaptchaProvider().verify(token, context);
+}
@@ -0,0 +1,26 @@
+/**
+ * 本地测试服务商（离线开发和自动化测试使用）
+ * 结果可预测：只有 MOCK_CAPTCHA_PASS_TOKEN 能通过，其他 token 一律拒绝
+ * 生产环境拒绝使用，防止误配置导致人机验证失效
+ */
+
+import { MOCK_CAPTCHA_PASS_TOKEN } from './config';
+import type { CaptchaProvider } from './index';
+
+export const mockProvider: CaptchaProvider = {
+  name: 'mock',
+  async verify(token) {
+    if (process.env.NODE_ENV === 'production') {
+      console.error('[Mock Captcha] mock provider must not be used in production');
+      return { success: false, errorKey: 'api.captchaNotConfigured' };
+    }
+
+    if (!token) {
+      return { success: false, errorKey: 'api.captchaMissing' };
+    }
+
+    return token === MOCK_CAPTCHA_PASS_TOKEN
+      ? { success: true }
+      : { success: false, errorKey: 'api.captchaRejected' };
+  },
+};
@@ -0,0 +1,23 @@
+/**
+ * 自建工作量证明（不依赖外部服务，见 lib/proof-of-work.ts）
+ */
+
+import { verifyPowSolution } from '../proof-of-work';
+import type { CaptchaProvider } from './index';
+
+export const powProvider: CaptchaProvider = {
+  name: 'pow',
+  async verify(token) {
+    if (!token) {
+      return { success: false, errorKey: 'api.captchaMissing' };
+    }
+
+    const result = await verifyPowSolution(token);
+    if (!result.valid) {
+      console.warn('[Proof of Work] Verification failed:', result.reason);
+      return { success: false, errorKey: 'api.captchaRejected' };
+    }
+
+    return { success: true };
+  },
+};
@@ -0,0 +1,133 @@
+/**
+ * Google reCAPTCHA v3 服务端验证（无感验证，按分数判断）
+ *
+ * 每个操作（action）配置两个阈值：
+ * - 分数 >= pass：通过
+ * - fallback <= 分数 < pass：分数处于临界区，要求用户补充完成 reCAPTCHA v2 勾选验证
+ * - 分数 < fallback：拒绝
+ *
+ * 阈值通过 RECAPTCHA_V3_THRESHOLDS 配置，格式为逗号分隔的 action:pass:fallback，
+ * 例如 RECAPTCHA_V3_THRESHOLDS=submit:0.7:0.3
+ *
+ * 补充验证使用单独的 v2 密钥（NEXT_PUBLIC_CAPTCHA_FALLBACK_SITE_KEY / CAPTCHA_FALLBACK_SECRET_KEY），
+ * 客户端提交时 token 带 RECAPTCHA_FALLBACK_TOKEN_PREFIX 前缀；未配置 v2 密钥时临界分数直接拒绝
+ */
+
+import { RECAPTCHA_FALLBACK_TOKEN_PREFIX } from './config';
+import type { CaptchaProvider } from './index';
+import { checkSiteverifyResponse, getSecretKey, requestSiteverify } from './siteverify';
+
+const VERIFY_URL = 'https://www.google.com/recaptcha/api/siteverify';
+
+interface ScoreThreshold {
+  pass: number;
+  fallback: number;
+}
+
+// 默认阈值（Google 建议以 0.5 作为起点）
+const DEFAULT_THRESHOLD: ScoreThreshold = { pass: 0.5, fallback: 0.3 };
+
+/**
+ * 读取各操作的阈值配置（格式无效的项忽略）
+ */
+function getThresholds(): Map<string, ScoreThreshold> {
+  const thresholds = new Map<string, ScoreThreshold>();
+  const value = process.env['RECAPTCHA_V3_THRESHOLDS'] || '';
+
+  for (const item of value.split(',')) {
+    const [action, pass, fallback] = item.trim().split(':');
+    const passScore = Number(pass);
+    const fallbackScore = fallback === undefined ? passScore : Number(fallback);
+    if (
+      !action ||
+      !(passScore >= 0 && passScore <= 1) ||
+      !(fallbackScore >= 0 && fallbackScore <= passScore)
+    ) {
+      continue;
+    }
+    thresholds.set(action, { pass: passScore, fallback: fallbackScore });
+  }
+
+  return thresholds;
+}
+
+export function getScoreThreshold(action: string): ScoreThreshold {
+  return getThresholds().get(action) ?? DEFAULT_THRESHOLD;
+}
+
+function getFallbackSecretKey(): string | undefined {
+  return process.env['CAPTCHA_FALLBACK_SECRET_KEY'];
+}
+
+export const recaptchaV3Provider: CaptchaProvider = {
+  name: 'recaptcha-v3',
+  async verify(token, context) {
+    if (!token) {
+      return { success: false, errorKey: 'api.captchaMissing' };
+    }
+
+    // 1. 补充的 v2 勾选验证（只检查是否通过，没有分数）
+    if (token.startsWith(RECAPTCHA_FALLBACK_TOKEN_PREFIX)) {
+      const secret = getFallbackSecretKey();
+      if (!secret) {
+        console.error('[reCAPTCHA v3] CAPTCHA_FALLBACK_SECRET_KEY not configured');
+        return { success: false, errorKey: 'api.captchaNotConfigured' };
+      }
+
+      const fallbackToken = token.substring(RECAPTCHA_FALLBACK_TOKEN_PREFIX.length);
+      const result = await requestSiteverify('reCAPTCHA v2 fallback', VERIFY_URL, secret, fallbackToken);
+      if ('error' in result) {
+        return result.error;
+      }
+      return (
+        checkSiteverifyResponse('reCAPTCHA v2 fallback', result.data, context) ?? {
+          success: true,
+          viaFallback: true,
+        }
+      );
+    }
+
+    // 2. v3 验证（检查是否配置了密钥）
+    const secret = getSecretKey();
+    if (!secret) {
+      console.error('[reCAPTCHA v3] CAPTCHA_SECRET_KEY not configured - this is a critical security issue');
+      return { success: false, errorKey: 'api.captchaNotConfigured' };
+    }
+
+    const result = await requestSiteverify('reCAPTCHA v3', VERIFY_URL, secret, token);
+    if ('error' in result) {
+      return result.error;
+    }
+
+    const { data } = result;
+    const rejection = checkSiteverifyResponse('reCAPTCHA v3', data, context);
+    if (rejection) {
+      return rejection;
+    }
+
+    // 3. action 必须与本次操作一致（防止把其他页面生成的 token 拿来提交）
+    if (data.action !== context.action) {
+      console.warn(`[reCAPTCHA v3] Action mismatch: expected ${context.action}, got ${data.action}`);
+      return { success: false, errorKey: 'api.captchaRejected' };
+    }
+
+    // 4. 按分数判断
+    if (typeof data.score !== 'number') {
+      console.warn('[reCAPTCHA v3] Missing score - is the secret key a v3 key?');
+      return { success: false, errorKey: 'api.captchaRejected' };
+    }
+
+    const threshold = getScoreThreshold(context.action);
+    if (data.score >= threshold.pass) {
+      return { success: true };
+    }
+
+    if (data.score >= threshold.fallback && getFallbackSecretKey()) {
+      console.warn(`[reCAPTCHA v3] Borderline score ${data.score} for ${context.action}, requiring v2 fallback`);
+      return { success: false, errorKey: 'api.captchaFallbackRequired', fallback: true };
+    }
+
+    console.warn(`[reCAPTCHA v3] Low score ${data.score} for ${context.action}`);
+    return { success: false, errorKey: 'api.captchaRejected' };
+  },
+};
@@ -0,0 +1,11 @@
+/**
+ * Google reCAPTCHA v2 服务端验证
+ */
+
+import { createSiteverifyProvider } from './siteverify';
+
+export const recaptchaProvider = createSiteverifyProvider({
+  name: 'recaptcha',
+  label: 'reCAPTCHA',
+  verifyUrl: 'https://www.google.com/recaptcha/api/siteverify',
+});
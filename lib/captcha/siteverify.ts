@@ -0,0 +1,138 @@
+/**
+ * siteverify 协议的通用实现
+ * reCAPTCHA、hCaptcha 和 Turnstile 的服务端验证接口一致：
+ * 以表单格式 POST secret 和 response，返回 { success, hostname, challenge_ts, error-codes }
+ *
+ * 除了 success，还必须检查：
+ * 1. hostname：token 是否在本站页面上生成（防止在其他站点解题后拿来提交）
+ * 2. challenge_ts：token 生成时间（防止囤积 token 后批量提交）
+ */
+
+import type { CaptchaProvider, CaptchaVerifyContext, CaptchaVerifyResult } from './index';
+
+// token 最长有效时间（各服务商的 token 本身 2 分钟左右过期）
+const MAX_TOKEN_AGE = 2 * 60 * 1000;
+// 允许的时钟偏差（服务商时间略快于本机时）
+const CLOCK_SKEW = 30 * 1000;
+
+/**
+ * siteverify 接口的响应（各服务商共有的字段，reCAPTCHA v3 额外返回 score 和 action）
+ */
+export interface SiteverifyResponse {
+  success: boolean;
+  hostname?: string;
+  challenge_ts?: string;
+  score?: number;
+  action?: string;
+  'error-codes'?: string[];
+}
+
+/**
+ * 获取服务端密钥（兼容旧的 RECAPTCHA_SECRET_KEY）
+ */
+export function getSecretKey(): string | undefined {
+  return process.env['CAPTCHA_SECRET_KEY'] || process.env['RECAPTCHA_SECRET_KEY'];
+}
+
+/**
+ * 调用 siteverify 接口
+ * 请求失败时返回错误结果，成功时返回响应内容
+ */
+export async function requestSiteverify(
+  label: string,
+  verifyUrl: string,
+  secret: string,
+  token: string
+): Promise<{ data: SiteverifyResponse } | { error: CaptchaVerifyResult }> {
+  try {
+    const response = await fetch(verifyUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ secret, response: token }).toString(),
+    });
+
+    if (!response.ok) {
+      console.error(`[${label}] HTTP error:`, response.status);
+      return { error: { success: false, errorKey: 'api.captchaUnavailable' } };
+    }
+
+    return { data: (await response.json()) as SiteverifyResponse };
+  } catch (error) {
+    console.error(`[${label}] Verification error:`, error);
+    return { error: { success: false, errorKey: 'api.captchaUnavailable' } };
+  }
+}
+
+/**
+ * 检查 siteverify 响应的公共字段（success、hostname、challenge_ts）
+ * 通过时返回 null
+ */
+export function checkSiteverifyResponse(
+  label: string,
+  data: SiteverifyResponse,
+  context: CaptchaVerifyContext
+): CaptchaVerifyResult | null {
+  // 1. 服务商验证结果
+  if (!data.success) {
+    console.warn(`[${label}] Verification failed:`, data['error-codes']);
+    return { success: false, errorKey: 'api.captchaRejected' };
+  }
+
+  // 2. token 必须在本站生成
+  const hostname = data.hostname?.toLowerCase();
+  if (!hostname || !context.hostnames.includes(hostname)) {
+    console.warn(`[${label}] Hostname mismatch:`, data.hostname);
+    return { success: false, errorKey: 'api.captchaRejected' };
+  }
+
+  // 3. token 生成时间
+  const issuedAt = data.challenge_ts ? Date.parse(data.challenge_ts) : NaN;
+  if (Number.isNaN(issuedAt)) {
+    console.warn(`[${label}] Missing challenge timestamp`);
+    return { success: false, errorKey: 'api.captchaRejected' };
+  }
+
+  const age = Date.now() - issuedAt;
+  if (age < -CLOCK_SKEW || age > MAX_TOKEN_AGE) {
+    console.warn(`[${label}] Token age out of range: ${Math.round(age / 1000)}s`);
+    return { success: false, errorKey: 'api.captchaExpired' };
+  }
+
+  return null;
+}
+
+export function createSiteverifyProvider(options: {
+  name: CaptchaProvider['name'];
+  // 日志前缀
+  label: string;
+  verifyUrl: string;
+}): CaptchaProvider {
+  const { name, label, verifyUrl } = options;
+
+  return {
+    name,
+    async verify(token, context) {
+      // 检查是否配置了密钥（生产环境必须配置）
+      const secret = getSecretKey();
+      if (!secret) {
+        console.error(`[${label}] CAPTCHA_SECRET_KEY not configured - this is a critical security issue`);
+        return { success: false, errorKey: 'api.captchaNotConfigured' };
+      }
+
+      // 验证token是否存在
+      if (!token) {
+        return { success: false, errorKey: 'api.captchaMissing' };
+      }
+
+      const result = await requestSiteverify(label, verifyUrl, secret, token);
+      if ('error' in result) {
+        return result.error;
+      }
+
+      // 验证成功返回 { success: true }
+      return checkSiteverifyResponse(label, result.data, context) ?? { success: true };
+    },
+  };
+}
@@ -0,0 +1,11 @@
+/**
+ * Cloudflare Turnstile 服务端验证
+ */
+
+import { createSiteverifyProvider } from './siteverify';
+
+export const turnstileProvider = createSiteverifyProvider({
+  name: 'turnstile',
+  label: 'Turnstile',
+  verifyUrl: 'https://challenges.cloudflare.com/turnstile/v0/siteverify',
+});
@@ -0,0 +1,118 @@
+/**
+ * 工作量证明客户端模块
+ * 用户开始答题时申请题目并在 Web Worker 中后台计算，提交时取出解答作为人机验证 token
+ * 状态保存在模块内，答题页面和人机验证组件通过订阅读取
+ */
+
+'use client';
+
+import type { Locale } from './i18n';
+import { encodePowSolution, type PowChallenge } from './proof-of-work-format';
+
+export type PowStatus = 'idle' | 'solving' | 'solved' | 'failed';
+
+export interface PowState {
+  status: PowStatus;
+  solution: string | null;
+}
+
+const IDLE_STATE: PowState = { status: 'idle', solution: null };
+
+let state: PowState = IDLE_STATE;
+let worker: Worker | null = null;
+// 每次开始计算递增，忽略已被重置的旧计算结果
+let generation = 0;
+const listeners = new Set<() => void>();
+
+function setState(next: PowState): void {
+  state = next;
+  listeners.forEach(listener => listener());
+}
+
+function stopWorker(): void {
+  worker?.terminate();
+  worker = null;
+}
+
+/**
+ * 获取当前状态
+ */
+export function getProofOfWorkState(): PowState {
+  return state;
+}
+
+/**
+ * 服务端渲染时的状态
+ */
+export function getServerProofOfWorkState(): PowState {
+  return IDLE_STATE;
+}
+
+/**
+ * 订阅状态变化（返回取消订阅函数）
+ */
+export function subscribeProofOfWork(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * 申请题目并开始后台计算（重复调用会放弃之前的计算）
+ */
+export async function startProofOfWork(locale: Locale): Promise<void> {
+  stopWorker();
+  const current = ++generation;
+  setState({ status: 'solving', solution: null });
+
+  try {
+    const response = await fetch('/api/survey/challenge', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept-Language': locale,
+      },
+      body: '{}',
+    });
+    if (!response.ok) {
+      throw new Error(`Challenge request failed: ${response.status}`);
+    }
+
+    const challenge: PowChallenge = await response.json();
+    if (current !== generation) return;
+
+    worker = new Worker(new URL('./proof-of-work.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<{ nonce?: number; error?: string }>) => {
+      if (current !== generation) return;
+      stopWorker();
+
+      const { nonce } = event.data;
+      setState(
+        nonce === undefined
+          ? { status: 'failed', solution: null }
+          : { status: 'solved', solution: encodePowSolution(challenge.challenge, nonce) }
+      );
+    };
+    worker.onerror = () => {
+      if (current !== generation) return;
+      stopWorker();
+      setState({ status: 'failed', solution: null });
+    };
+    worker.postMessage({ salt: challenge.salt, difficulty: challenge.difficulty });
+  } catch (error) {
+    console.error('[Proof of Work] Failed to start:', error);
+    if (current === generation) {
+      setState({ status: 'failed', solution: null });
+    }
+  }
+}
+
+/**
+ * 放弃当前计算并清除解答（解答只能使用一次，提交后需要重新计算）
+ */
+export function resetProofOfWork(): void {
+  stopWorker();
+  generation++;
+  setState(IDLE_STATE);
+}
@@ -1,11 +1,16 @@
 /**
  * 客户端速率限制（基于 localStorage）
  * 完全匿名，所有数据存储在用户浏览器本地
+ * 服务端限流时（响应带 Retry-After，见 lib/rate-limit.ts）记录冷却结束时间，冷却期间不再提交
  */
 
+import { DEFAULT_LOCALE, translate, type Locale } from './i18n';
+
 const STORAGE_KEY = 'survey_submissions';
 const RATE_LIMIT_WINDOW = 60 * 60 * 1000; // 1 小时
 const MAX_REQUESTS = 3; // 每小时最多 3 次
+const COOLDOWN_STORAGE_KEY = 'survey_server_cooldown';
+const MAX_COOLDOWN = 10 * 60 * 1000; // 服务端冷却时间上限（忽略异常的 Retry-After）
 
 interface SubmissionRecord {
   timestamps: number[];
@@ -13,11 +18,14 @@ interface SubmissionRecord {
 
 /**
  * 检查是否可以提交
+ * @param locale 提示信息使用的语言
  */
-export function canSubmit(): {
+export function canSubmit(locale: Locale = DEFAULT_LOCALE): {
   allowed: boolean;
   remaining: number;
   resetAt: Date | null;
+  // 服务端冷却结束时间（冷却结束后可自动重试）
+  cooldownUntil?: number;
   message?: string;
 } {
   if (typeof window === 'undefined') {
@@ -25,6 +33,21 @@ export function canSubmit(): {
   }
 
   const now = Date.now();
+
+  // 服务端要求等待时优先按服务端冷却处理
+  const cooldownUntil = getServerCooldown();
+  if (cooldownUntil !== null) {
+    return {
+      allowed: false,
+      remaining: MAX_REQUESTS,
+      resetAt: new Date(cooldownUntil),
+      cooldownUntil,
+      message: translate(locale, 'submit.serverCooldown', {
+        seconds: Math.ceil((cooldownUntil - now) / 1000),
+      }),
+    };
+  }
+
   const record = getSubmissionRecord();
   
   // 清理过期的时间戳
@@ -46,11 +69,11 @@ export function canSubmit(): {
   }
   
   if (!allowed && resetAt) {
-    const resetTime = resetAt.toLocaleTimeString('zh-CN', {
+    const resetTime = resetAt.toLocaleTimeString(locale, {
       hour: '2-digit',
       minute: '2-digit'
     });
-    message = `您已达到提交限制（每小时最多 ${MAX_REQUESTS} 次）。请在 ${resetTime} 后再试。`;
+    message = translate(locale, 'submit.clientRateLimited', { max: MAX_REQUESTS, time: resetTime });
   }
   
   return {
@@ -82,6 +105,55 @@ export function recordSubmission(): void {
   saveSubmissionRecord({ timestamps: validTimestamps });
 }
 
+/**
+ * 读取限流响应要求的等待时间（毫秒）
+ * 优先使用 Retry-After（秒数或 HTTP 日期），其次 RateLimit-Reset；不是限流响应时返回 null
+ */
+export function getRetryAfter(response: Response): number | null {
+  if (response.status !== 429 && response.status !== 503) {
+    return null;
+  }
+  const value = response.headers.get('Retry-After') ?? response.headers.get('RateLimit-Reset');
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  const waitMs = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(value) - Date.now();
+  if (!(waitMs >= 0)) {
+    return null;
+  }
+  return Math.min(Math.max(waitMs, 1000), MAX_COOLDOWN);
+}
+
+/**
+ * 记录服务端要求的冷却时间，返回冷却结束时间
+ */
+export function recordServerCooldown(waitMs: number): number {
+  const until = Date.now() + waitMs;
+  if (typeof window !== 'undefined') {
+    try {
+      localStorage.setItem(COOLDOWN_STORAGE_KEY, String(until));
+    } catch (error) {
+      console.error('Failed to save server cooldown:', error);
+    }
+  }
+  return until;
+}
+
+/**
+ * 获取仍在进行的服务端冷却结束时间（没有冷却时返回 null）
+ */
+export function getServerCooldown(): number | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const until = Number(localStorage.getItem(COOLDOWN_STORAGE_KEY));
+    return until > Date.now() ? until : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * 生成提交 token
  */
@@ -0,0 +1,314 @@
+/**
+ * 协同攻击检测（服务端）
+ *
+ * 一次性会话和人机验证挡不住真人刷单或打码平台：大量提交相同答案组合，把结论推向某个方向。
+ * 每次有回复通过后（节流），检查该期最近时间窗口内已接受、尚未标记且计入统计（非低质量）的回复：
+ * 1. 爆发（burst）：窗口内出现大量相同或几乎相同（最多一题不同）的答案组合
+ * 2. 分布突变（shift）：窗口内某题的选项分布与之前的基线差异过大，只记录问题级告警，不标记回复
+ *
+ * 检测只标记爆发的回复（survey_responses.coordination_alert_id）并记录告警（coordination_alerts），不删除数据；
+ * 由管理员在 /api/admin/alerts 审核后隔离（移入隔离表，统计由触发器重算）或忽略
+ * 多实例部署时通过 coordination_detection_runs 抢占检测，同一期次同一间隔内只有一个实例执行
+ */
+
+import { sql } from './db';
+import { questions, type Question } from './questions';
+
+// 检测窗口和节流
+const WINDOW_MS = 10 * 60 * 1000; // 最近10分钟
+const MAX_WINDOW_ROWS = 1000; // 窗口内最多检查的回复数
+const MIN_DETECTION_INTERVAL = 30 * 1000; // 同一期次两次检测至少间隔30秒（所有实例共享）
+
+// 爆发：相似答案簇至少8条，且占窗口的30%以上
+const BURST_MIN_SIZE = 8;
+const BURST_MIN_SHARE = 0.3;
+const BURST_MAX_DISTANCE = 1; // 最多一题答案不同
+
+// 分布突变：窗口至少30条、基线至少100条，总变差距离达到0.3
+const SHIFT_MIN_WINDOW = 30;
+const SHIFT_MIN_BASELINE = 100;
+const SHIFT_MIN_DISTANCE = 0.3;
+const SHIFT_MIN_EXCESS = 0.1; // 选项占比比基线高出10个百分点才算过度集中
+
+type ResponseRow = { id: number } & Record<string, unknown>;
+
+export type CoordinationAlertKind = 'burst' | 'shift';
+
+export interface CoordinationAlert {
+  kind: CoordinationAlertKind;
+  questionId: string | null;
+  detail: Record<string, unknown>;
+  responseIds: number[];
+}
+
+/**
+ * 答案向量：每题一个可比较的字符串（被跳过为 '-'，多选排序后拼接，矩阵按子项排序）
+ */
+export function answerVector(row: Record<string, unknown>): string[] {
+  return questions.map(question => {
+    const value = row[question.id];
+    if (value === null || value === undefined) return '-';
+
+    switch (question.type) {
+      case 'choice':
+      case 'attention':
+        return String(value);
+      case 'range':
+        return String(Number(value));
+      case 'multi':
+        return [...(value as string[])].sort().join('+');
+      case 'matrix':
+        return Object.entries(value as Record<string, string>)
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([row, option]) => `${row}=${option}`)
+          .join('&');
+    }
+  });
+}
+
+/**
+ * 两个答案向量不同的题目数
+ */
+export function vectorDistance(a: string[], b: string[]): number {
+  return a.reduce((distance, value, i) => distance + (value === b[i] ? 0 : 1), 0);
+}
+
+/**
+ * 找出窗口内相同或几乎相同的答案簇
+ * 从出现次数最多的答案组合开始，把距离不超过 BURST_MAX_DISTANCE 的回复归入同一簇
+ */
+export function findBursts(rows: ResponseRow[]): CoordinationAlert[] {
+  const vectors = rows.map(row => ({ id: row.id, vector: answerVector(row) }));
+  const counts = new Map<string, { vector: string[]; count: number }>();
+  for (const { vector } of vectors) {
+    const key = vector.join('|');
+    const entry = counts.get(key);
+    if (entry) entry.count++;
+    else counts.set(key, { vector, count: 1 });
+  }
+
+  const assigned = new Set<number>();
+  const alerts: CoordinationAlert[] = [];
+  const candidates = [...counts.values()]
+    .filter(entry => entry.count > 1)
+    .sort((a, b) => b.count - a.count);
+
+  for (const { vector: center, count } of candidates) {
+    const cluster = vectors.filter(
+      item => !assigned.has(item.id) && vectorDistance(item.vector, center) <= BURST_MAX_DISTANCE
+    );
+    if (cluster.length < BURST_MIN_SIZE || cluster.length / rows.length < BURST_MIN_SHARE) {
+      continue;
+    }
+
+    cluster.forEach(item => assigned.add(item.id));
+    alerts.push({
+      kind: 'burst',
+      questionId: null,
+      detail: {
+        answers: Object.fromEntries(questions.map((q, i) => [q.id, center[i]])),
+        identical: count,
+        size: cluster.length,
+        windowSize: rows.length,
+      },
+      responseIds: cluster.map(item => item.id),
+    });
+  }
+
+  return alerts;
+}
+
+/**
+ * 选项占比
+ */
+function toShares(counts: Map<string, number>): Map<string, number> {
+  const total = [...counts.values()].reduce((sum, n) => sum + n, 0);
+  return new Map([...counts].map(([code, n]) => [code, total > 0 ? n / total : 0]));
+}
+
+/**
+ * 检查单选题的分布突变（窗口 vs 基线，总变差距离）
+ * 只产生问题级告警，不标记回复：分布也会自然变化（如新闻报道后），选择该选项的大多是正常用户，
+ * 不能作为批量隔离的依据；真正的刷单表现为答案组合高度相似，由 findBursts 标记
+ */
+export function findShift(
+  question: Question,
+  rows: ResponseRow[],
+  baseline: Map<string, number>
+): CoordinationAlert | null {
+  const answered = rows.filter(row => typeof row[question.id] === 'string');
+  const baselineTotal = [...baseline.values()].reduce((sum, n) => sum + n, 0);
+  if (answered.length < SHIFT_MIN_WINDOW || baselineTotal < SHIFT_MIN_BASELINE) {
+    return null;
+  }
+
+  const windowCounts = new Map<string, number>();
+  for (const row of answered) {
+    const code = row[question.id] as string;
+    windowCounts.set(code, (windowCounts.get(code) ?? 0) + 1);
+  }
+
+  const windowShares = toShares(windowCounts);
+  const baselineShares = toShares(baseline);
+  const codes = new Set([...windowShares.keys(), ...baselineShares.keys()]);
+  let distance = 0;
+  const overRepresented: string[] = [];
+  for (const code of codes) {
+    const diff = (windowShares.get(code) ?? 0) - (baselineShares.get(code) ?? 0);
+    distance += Math.abs(diff) / 2;
+    if (diff >= SHIFT_MIN_EXCESS) overRepresented.push(code);
+  }
+
+  if (distance < SHIFT_MIN_DISTANCE || overRepresented.length === 0) {
+    return null;
+  }
+
+  return {
+    kind: 'shift',
+    questionId: question.id,
+    detail: {
+      distance: Math.round(distance * 1000) / 1000,
+      overRepresented,
+      window: Object.fromEntries(windowCounts),
+      baseline: Object.fromEntries(baseline),
+    },
+    responseIds: [],
+  };
+}
+
+/**
+ * 记录爆发告警并标记回复（单条语句）
+ * 只标记仍未被其他告警标记的回复，告警的 response_ids 就是实际标记的回复，
+ * 没有可标记的回复时不记录告警；参数：$1 期次、$2 类型、$3 问题、$4 详情、$5/$6 窗口、$7 回复 id
+ */
+const BURST_INSERT_QUERY = `
+  WITH alert AS (
+    SELECT nextval(pg_get_serial_sequence('coordination_alerts', 'id'))::int AS id
+  ),
+  marked AS (
+    UPDATE survey_responses SET coordination_alert_id = (SELECT id FROM alert)
+    WHERE id = ANY($7::int[]) AND coordination_alert_id IS NULL
+    RETURNING id
+  )
+  INSERT INTO coordination_alerts
+    (id, edition_id, kind, question_id, detail, response_ids, window_start, window_end)
+  SELECT alert.id, $1, $2, $3, $4, ARRAY(SELECT id FROM marked ORDER BY id), $5, $6
+  FROM alert
+  WHERE EXISTS (SELECT 1 FROM marked)
+  RETURNING id, cardinality(response_ids) AS marked
+`;
+
+/**
+ * 记录分布突变告警（问题级，不标记回复）
+ * 同一问题已有未处理的告警，或本窗口内已记录过（包括已忽略的）时不重复记录
+ * 参数同上（没有 $7）
+ */
+const SHIFT_INSERT_QUERY = `
+  INSERT INTO coordination_alerts
+    (edition_id, kind, question_id, detail, response_ids, window_start, window_end)
+  SELECT $1, $2, $3, $4, '{}'::int[], $5, $6
+  WHERE NOT EXISTS (
+    SELECT 1 FROM coordination_alerts
+    WHERE edition_id = $1 AND kind = 'shift' AND question_id = $3
+      AND (status = 'open' OR created_at >= $5)
+  )
+  RETURNING id, 0 AS marked
+`;
+
+/**
+ * 检测并记录告警（返回新告警数）
+ */
+export async function detectCoordination(editionId: string): Promise<number> {
+  const windowEnd = new Date();
+  const windowStart = new Date(windowEnd.getTime() - WINDOW_MS);
+
+  // 1. 窗口内已接受、尚未标记的回复（低质量回复本来就不计入统计，不参与检测，避免放大爆发）
+  const rows = (await sql.query(
+    `SELECT * FROM survey_responses
+     WHERE edition_id = $1 AND created_at >= $2 AND coordination_alert_id IS NULL AND NOT low_quality
+     ORDER BY created_at DESC
+     LIMIT ${MAX_WINDOW_ROWS}`,
+    [editionId, windowStart]
+  )) as ResponseRow[];
+
+  if (rows.length < BURST_MIN_SIZE) {
+    return 0;
+  }
+
+  // 2. 爆发检测
+  const alerts = findBursts(rows);
+
+  // 3. 分布突变检测（只检查单选题，基线为窗口之前计入统计的回复；列名来自 questions 配置）
+  const flagged = new Set(alerts.flatMap(alert => alert.responseIds));
+  const remaining = rows.filter(row => !flagged.has(row.id));
+  for (const question of questions.filter(q => q.type === 'choice')) {
+    const baselineRows = (await sql.query(
+      `SELECT ${question.id} AS code, COUNT(*)::int AS count FROM survey_responses
+       WHERE edition_id = $1 AND created_at < $2 AND NOT low_quality AND ${question.id} IS NOT NULL
+       GROUP BY ${question.id}`,
+      [editionId, windowStart]
+    )) as Array<{ code: string; count: number }>;
+
+    const alert = findShift(question, remaining, new Map(baselineRows.map(r => [r.code, r.count])));
+    if (alert) alerts.push(alert);
+  }
+
+  // 4. 记录告警并标记回复（已标记的回复不会再次参与检测）
+  let recorded = 0;
+  for (const alert of alerts) {
+    const params = [editionId, alert.kind, alert.questionId, JSON.stringify(alert.detail), windowStart, windowEnd];
+    const inserted = (await (alert.kind === 'burst'
+      ? sql.query(BURST_INSERT_QUERY, [...params, alert.responseIds])
+      : sql.query(SHIFT_INSERT_QUERY, params))) as Array<{ id: number; marked: number }>;
+
+    const row = inserted[0];
+    if (!row) continue;
+    recorded++;
+    console.warn(
+      `[Coordination] ${alert.kind} alert for edition ${editionId}` +
+        (alert.questionId ? ` (${alert.questionId})` : '') +
+        `: ${row.marked} responses`
+    );
+  }
+
+  return recorded;
+}
+
+// 每个期次上次检测的时间（进程内节流，避免每次提交都查询数据库）
+const lastDetection = new Map<string, number>();
+
+/**
+ * 抢占期次的检测（多实例共享，见 coordination_detection_runs）
+ * 条件更新在数据库中串行执行：距上次检测不足间隔时不更新，返回 false
+ */
+async function claimDetection(editionId: string): Promise<boolean> {
+  const rows = (await sql.query(
+    `INSERT INTO coordination_detection_runs (edition_id, last_run_at)
+     VALUES ($1, CURRENT_TIMESTAMP)
+     ON CONFLICT (edition_id) DO UPDATE SET last_run_at = CURRENT_TIMESTAMP
+     WHERE coordination_detection_runs.last_run_at <= CURRENT_TIMESTAMP - $2::int * INTERVAL '1 millisecond'
+     RETURNING edition_id`,
+    [editionId, MIN_DETECTION_INTERVAL]
+  )) as unknown[];
+  return rows.length > 0;
+}
+
+/**
+ * 节流执行检测（在提交成功后调用，失败只记录日志，不影响提交）
+ * 先在进程内节流，再在数据库中抢占，同一间隔内只有一个实例执行检测
+ */
+export async function scheduleCoordinationDetection(editionId: string): Promise<void> {
+  const now = Date.now();
+  if (now - (lastDetection.get(editionId) ?? 0) < MIN_DETECTION_INTERVAL) {
+    return;
+  }
+  lastDetection.set(editionId, now);
+
+  try {
+    if (await claimDetection(editionId)) {
+      await detectCoordination(editionId);
+    }
+  } catch (error) {
+    console.error('[Coordination Detection Error]', error instanceof Error ? error.message : error);
+  }
+}
@@ -1,4 +1,5 @@
 import { neon } from '@neondatabase/serverless';
+import type { SurveyData } from './validation';
 
 if (!process.env.DATABASE_URL) {
   throw new Error('DATABASE_URL environment variable is not set');
@@ -7,21 +8,23 @@ if (!process.env.DATABASE_URL) {
 export const sql = neon(process.env.DATABASE_URL);
 
 // 数据库表结构
-export interface SurveyResponse {
+// 答案列由 questions 配置推导：列名即问题 id，被跳过的问题为 NULL
+// 多选题和矩阵题为 JSONB，驱动会直接解析为数组和对象
+
+export type SurveyResponse = {
   id: number;
-  industry: string;
-  salary_months: number;
-  personal_income: string;
-  friends_status: string;
-  personal_arrears: string;
-  friends_arrears_perception: string;
-  welfare_cut: string;
+  edition_id: string;
   created_at: Date;
-}
+} & {
+  [K in keyof SurveyData]-?: undefined extends SurveyData[K]
+    ? NonNullable<SurveyData[K]> | null
+    : SurveyData[K];
+};
 
+// 每期一行统计，以 edition_id 区分
 export interface AggregatedStats {
+  edition_id: string;
   total_responses: number;
-  avg_salary_months: number;
   income_growth: number;
   income_stable: number;
   income_decline: number;
@@ -30,6 +33,16 @@ export interface AggregatedStats {
   friends_worse: number;
   arrears_safe: number;
   arrears_risk: number;
+  // 薪资月数 -> 人数（均值、中位数和分位数由此计算，见 lib/salary-stats.ts）
+  salary_histogram: Record<string, number>;
+  // 矩阵题每个子项的选项分布：子项编码 -> 选项编码 -> 人数
+  pay_components_change: Record<string, Record<string, number>>;
+  // 回答了福利缩水（多选）的人数、每个选项的人数和两两同时选择的人数
+  welfare_cut_respondents: number;
+  welfare_cut: Record<string, number>;
+  welfare_cut_pairs: Record<string, Record<string, number>>;
+  // 身边欠薪感知：选项编码 -> 人数
+  friends_arrears_perception: Record<string, number>;
   last_updated: Date;
 }
 
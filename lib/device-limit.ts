@@ -0,0 +1,205 @@
+/**
+ * 按设备限制重复提交（服务端，隐私保护）
+ *
+ * 客户端的提交记录（lib/client-rate-limit.ts）换个隐私窗口或清空存储就能绕过，而服务端刻意不保存任何可识别信息。
+ * 折中做法：用粗粒度的请求信号计算带盐的 HMAC 作为设备键，按天计数：
+ * 1. 信号只取 IP 网段（IPv4 前 24 位、IPv6 前 48 位）、User-Agent 和首选语言，只在内存中参与计算，不入库
+ * 2. 盐每天随机生成一个（device_limit_salts，多实例共享），不由任何密钥推导；
+ *    每个实例换天后第一次计算设备键之前，先删除之前日期的盐和计数（见 purgeExpiredDays），
+ *    定时任务也会清理（见 scripts/init-db.sql 中的清理函数）；换天后没有任何请求且定时任务未运行时，
+ *    前一天的数据会保留到下一次请求或清理为止
+ * 3. 数据库只保存 HMAC 结果和次数。盐删除后，即使拿到原始信号也无法重新算出旧的设备键，
+ *    旧记录无法与任何人关联，也无法与之后的记录关联（新的一天换了盐，同一设备的键完全不同）
+ *
+ * 剩余的暴露面：当天的盐和设备键保存在同一个数据库中，而信号的取值空间很小（/24 网段、常见的 User-Agent 和语言），
+ * 能读取数据库的人在盐删除之前可以穷举候选信号，把设备键还原为网段和 User-Agent（得不到完整 IP，也无法关联到具体的人）。
+ * 因此数据库的读取权限应当和回复数据一样严格控制
+ *
+ * 提交前只检查次数（见 lib/guards/device-limit.ts），回复成功入库后才计数，
+ * 被后续检查拒绝或入库失败的提交不占用名额
+ *
+ * 粗粒度信号会让同一网段、同款浏览器的不同用户共用一个键（如公司或校园网络），因此上限不宜过低
+ * DEVICE_DAILY_LIMIT：每个设备键每天最多提交次数（默认 5，0 表示关闭）
+ */
+
+import { createHmac, randomBytes } from 'crypto';
+import { isIPv4, isIPv6 } from 'net';
+import { sql } from './db';
+
+const DEFAULT_DAILY_LIMIT = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 查询函数（默认使用 lib/db 的 sql，测试时可替换）
+export type SqlTag = (strings: TemplateStringsArray, ...values: unknown[]) => Promise<unknown>;
+
+// 设备键：所属日期（UTC）和当天的 HMAC
+export interface DeviceKey {
+  day: string;
+  hash: string;
+}
+
+// 当天的盐（进程内缓存，换天后丢弃）
+let cachedSalt: { day: string; salt: string } | null = null;
+
+/**
+ * 每天最多提交次数（0 表示关闭）
+ */
+export function getDeviceDailyLimit(): number {
+  const value = Number(process.env['DEVICE_DAILY_LIMIT']);
+  return process.env['DEVICE_DAILY_LIMIT'] && Number.isInteger(value) && value >= 0 ? value : DEFAULT_DAILY_LIMIT;
+}
+
+/**
+ * 当前日期（UTC，YYYY-MM-DD），即盐和计数的有效期
+ */
+export function getLimitDay(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+/**
+ * 距离下次换盐（下一个 UTC 零点）的秒数，用于 Retry-After
+ */
+export function secondsUntilRotation(now: Date = new Date()): number {
+  const nextDay = Math.floor(now.getTime() / DAY_MS + 1) * DAY_MS;
+  return Math.max(Math.ceil((nextDay - now.getTime()) / 1000), 1);
+}
+
+/**
+ * 展开 IPv6 地址为 8 组（处理 :: 压缩），每组去掉前导零
+ */
+function expandIPv6(ip: string): string[] {
+  const [head = '', tail] = ip.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const zeros = tail === undefined ? [] : Array(8 - headGroups.length - tailGroups.length).fill('0');
+  return [...headGroups, ...zeros, ...tailGroups].map(group => parseInt(group, 16).toString(16));
+}
+
+/**
+ * IP 网段（IPv4 保留前 24 位，IPv6 保留前 48 位；IPv4 映射的 IPv6 地址按 IPv4 处理）
+ * 无法识别的地址返回空字符串
+ */
+export function toNetwork(ip: string): string {
+  const address = ip.trim().toLowerCase();
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  const ipv4 = mapped?.[1] ?? address;
+  if (isIPv4(ipv4)) {
+    return `${ipv4.split('.').slice(0, 3).join('.')}.0/24`;
+  }
+  if (isIPv6(address)) {
+    return `${expandIPv6(address).slice(0, 3).join(':')}::/48`;
+  }
+  return '';
+}
+
+/**
+ * 客户端地址：X-Forwarded-For 的最后一项（由最近的可信代理追加，客户端自己填写的项都在它前面），
+ * 没有时使用平台设置的 X-Real-IP
+ */
+function getClientAddress(headers: Headers): string {
+  const forwarded = headers.get('x-forwarded-for')?.split(',').map(item => item.trim()).filter(Boolean);
+  return forwarded?.[forwarded.length - 1] || headers.get('x-real-ip') || '';
+}
+
+/**
+ * 粗粒度请求信号（只用于计算设备键，不入库、不写日志）
+ */
+export function getDeviceSignals(headers: Headers): string {
+  const language = headers.get('accept-language')?.split(',')[0]?.trim() || '';
+  return [toNetwork(getClientAddress(headers)), headers.get('user-agent') ?? '', language].join('\n');
+}
+
+/**
+ * 设备键：用当天的盐对信号做 HMAC-SHA256
+ * 没有盐就无法由信号重新算出，盐删除后旧的设备键不可再关联
+ */
+export function deriveDeviceKey(salt: string, signals: string): string {
+  return createHmac('sha256', salt).update(signals).digest('hex');
+}
+
+/**
+ * 删除当天之前的盐和计数
+ */
+async function purgeExpiredDays(day: string, db: SqlTag): Promise<void> {
+  await db`DELETE FROM device_limit_salts WHERE day < ${day}`;
+  await db`DELETE FROM device_submissions WHERE day < ${day}`;
+}
+
+/**
+ * 获取当天的盐（首次使用时随机生成；多个实例同时生成时以先写入的为准）
+ * 每个实例换天后第一次获取时，先清理之前日期的数据再计算设备键（清理失败时抛出，由调用方按异常处理）
+ */
+export async function getDailySalt(day: string, db: SqlTag = sql): Promise<string> {
+  if (cachedSalt?.day === day) {
+    return cachedSalt.salt;
+  }
+
+  await purgeExpiredDays(day, db);
+
+  const rows = (await db`
+    WITH inserted AS (
+      INSERT INTO device_limit_salts (day, salt)
+      VALUES (${day}, ${randomBytes(32).toString('hex')})
+      ON CONFLICT (day) DO NOTHING
+      RETURNING salt
+    )
+    SELECT salt FROM inserted
+    UNION ALL
+    SELECT salt FROM device_limit_salts WHERE day = ${day}
+    LIMIT 1
+  `) as Array<{ salt: string }>;
+
+  const salt = rows[0]?.salt;
+  if (!salt) {
+    throw new Error('无法获取当天的设备限制盐');
+  }
+  cachedSalt = { day, salt };
+
+  return salt;
+}
+
+/**
+ * 计算请求的设备键
+ */
+export async function getDeviceKey(headers: Headers, db: SqlTag = sql): Promise<DeviceKey> {
+  const day = getLimitDay();
+  return { day, hash: deriveDeviceKey(await getDailySalt(day, db), getDeviceSignals(headers)) };
+}
+
+/**
+ * 检查设备当天是否还有提交名额（只读，不计数）
+ * 数据库异常时放行（不影响正常提交），但记录错误，此时不返回设备键
+ */
+export async function checkDeviceQuota(
+  headers: Headers,
+  limit: number,
+  db: SqlTag = sql
+): Promise<{ allowed: boolean; key: DeviceKey | null }> {
+  try {
+    const key = await getDeviceKey(headers, db);
+    const rows = (await db`
+      SELECT count FROM device_submissions
+      WHERE day = ${key.day} AND device_hash = ${key.hash}
+    `) as Array<{ count: number }>;
+    return { allowed: (rows[0]?.count ?? 0) < limit, key };
+  } catch (error) {
+    console.error('[Device Limit] Database error, allowing request:', error);
+    return { allowed: true, key: null };
+  }
+}
+
+/**
+ * 回复入库后计数（失败只记录错误，不影响已完成的提交）
+ */
+export async function recordDeviceSubmission(key: DeviceKey, db: SqlTag = sql): Promise<void> {
+  try {
+    await db`
+      INSERT INTO device_submissions (day, device_hash, count)
+      VALUES (${key.day}, ${key.hash}, 1)
+      ON CONFLICT (day, device_hash) DO UPDATE
+        SET count = device_submissions.count + 1
+    `;
+  } catch (error) {
+    console.error('[Device Limit] Failed to record submission:', error);
+  }
+}
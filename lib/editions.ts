@@ -0,0 +1,51 @@
+/**
+ * 问卷期次配置
+ *
+ * 规则：
+ * 1. 列表按时间顺序排列，最后一期为当前期
+ * 2. 只有当前期可以提交；一旦新一期加入列表，之前的期次自动变为只读
+ * 3. 当前期设置 closed: true 时也变为只读（例如年度调查结束后暂停收集）
+ */
+
+export interface SurveyEdition {
+  id: string;
+  year: number;
+  closed?: boolean;
+}
+
+export const editions: readonly SurveyEdition[] = [
+  { id: '2025', year: 2025 },
+];
+
+/**
+ * 获取当前期（最后一期）
+ */
+export function getCurrentEdition(): SurveyEdition {
+  const current = editions[editions.length - 1];
+  if (!current) {
+    throw new Error('未配置任何问卷期次');
+  }
+  return current;
+}
+
+/**
+ * 根据 id 查找期次
+ */
+export function getEdition(id: string): SurveyEdition | undefined {
+  return editions.find(e => e.id === id);
+}
+
+/**
+ * 判断期次是否接受提交（只有未关闭的当前期可以提交）
+ */
+export function isEditionOpen(id: string): boolean {
+  const current = getCurrentEdition();
+  return current.id === id && !current.closed;
+}
+
+/**
+ * 将文案中的 {year} 占位符替换为期次年份
+ */
+export function formatEditionText(text: string, edition: SurveyEdition): string {
+  return text.replaceAll('{year}', String(edition.year));
+}
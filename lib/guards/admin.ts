@@ -0,0 +1,53 @@
+/**
+ * 管理接口守卫：只接受携带管理密钥的请求（Authorization: Bearer <ADMIN_SECRET>）
+ * 未配置 ADMIN_SECRET 时管理接口一律不可用，防止误部署后被公开访问
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { reject, type Guard } from './pipeline';
+
+/**
+ * 常量时间比较（先取哈希，长度不同也不会提前返回）
+ */
+function secretMatches(provided: string, expected: string): boolean {
+  const a = createHash('sha256').update(provided).digest();
+  const b = createHash('sha256').update(expected).digest();
+  return timingSafeEqual(a, b);
+}
+
+// 管理接口单次批量处理的上限
+export const MAX_ADMIN_BATCH_SIZE = 500;
+
+/**
+ * 解析管理接口批量处理的 id 列表（正整数、去重、不超过上限），格式无效时返回 null
+ */
+export function parseIdList(value: unknown): number[] | null {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_ADMIN_BATCH_SIZE) {
+    return null;
+  }
+  if (!value.every(id => Number.isSafeInteger(id) && id > 0)) {
+    return null;
+  }
+  return [...new Set(value as number[])];
+}
+
+export function adminAuthGuard(): Guard {
+  return {
+    name: 'admin-auth',
+    run({ request }) {
+      const secret = process.env['ADMIN_SECRET'];
+      if (!secret) {
+        return reject(503, 'api.adminNotConfigured', undefined, {
+          reason: 'ADMIN_SECRET 未配置',
+        });
+      }
+
+      const header = request.headers.get('authorization') ?? '';
+      const provided = header.startsWith('Bearer ') ? header.substring('Bearer '.length) : '';
+      if (!provided || !secretMatches(provided, secret)) {
+        return reject(401, 'api.unauthorized');
+      }
+      return null;
+    },
+  };
+}
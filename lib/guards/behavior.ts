@@ -0,0 +1,59 @@
+/**
+ * 行为数据守卫（防止机器人）
+ * 校验客户端采集的交互数据（lib/bot-detection.ts）格式，并写入风险信号
+ * 是否像正常答题不在这里直接判断，由风险评分守卫（./risk）结合其他信号统一评分
+ * 答题时长由服务端签发的答题会话检查（见 ./survey-session），不使用客户端的 startTime
+ */
+
+import { isMobileUserAgent } from '../user-agent-utils';
+import { reject, requireBody, type Guard } from './pipeline';
+
+export function behaviorGuard(): Guard {
+  return {
+    name: 'behavior',
+    run(context) {
+      const { behaviorData } = requireBody(context);
+      context.signals.isMobile = isMobileUserAgent(context.request.headers.get('user-agent'));
+
+      // 未提交行为数据时计入风险分（由人机验证等其他信号共同判断）
+      if (!behaviorData) {
+        context.signals.behavior = null;
+        return null;
+      }
+
+      // 1. 验证 behaviorData 是对象
+      if (typeof behaviorData !== 'object' || Array.isArray(behaviorData)) {
+        return reject(400, 'api.behavior.invalidFormat');
+      }
+
+      const {
+        mouseMovements = 0,
+        clicks = 0,
+        touchEvents = 0,
+        startTime = 0,
+        scrolls = 0,
+        keyPresses = 0,
+        lastActivity = 0
+      } = behaviorData as Record<string, unknown>;
+
+      // 2. 验证所有字段都是数字且在合理范围内
+      const fields = { mouseMovements, clicks, touchEvents, startTime, scrolls, keyPresses, lastActivity };
+      for (const value of Object.values(fields)) {
+        if (typeof value !== 'number' || value < 0 || !Number.isFinite(value)) {
+          return reject(400, 'api.behavior.invalidValue');
+        }
+      }
+
+      // 3. 写入风险信号
+      context.signals.behavior = {
+        mouseMovements: mouseMovements as number,
+        clicks: clicks as number,
+        touchEvents: touchEvents as number,
+        scrolls: scrolls as number,
+        keyPresses: keyPresses as number,
+        lastActivity: lastActivity as number,
+      };
+      return null;
+    },
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * 请求体守卫
+ * 1. bodySizeGuard：按 Content-Length 拒绝过大的请求（防止大型 payload 攻击）
+ * 2. jsonBodyGuard：解析 JSON 请求体并写入上下文，之后的守卫通过 requireBody 读取
+ */
+
+import { reject, type Guard } from './pipeline';
+
+export function bodySizeGuard(maxBytes: number): Guard {
+  return {
+    name: 'body-size',
+    run({ request }) {
+      const contentLength = request.headers.get('content-length');
+      if (contentLength && parseInt(contentLength) > maxBytes) {
+        return reject(413, 'api.payloadTooLarge', 'api.payloadTooLargeHint');
+      }
+      return null;
+    },
+  };
+}
+
+export function jsonBodyGuard(): Guard {
+  return {
+    name: 'json-body',
+    async run(context) {
+      // 注意：不使用 Promise.race 超时，因为它不会取消原操作
+      // Next.js 的 request.json() 已经有内置超时机制
+      let body: unknown;
+      try {
+        body = await context.request.json();
+      } catch {
+        return reject(400, 'api.invalidJson', 'api.invalidJsonHint');
+      }
+
+      if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        return reject(400, 'api.invalidJson', 'api.invalidJsonHint');
+      }
+
+      context.body = body as Record<string, unknown>;
+      return null;
+    },
+  };
+}
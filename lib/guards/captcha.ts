@@ -0,0 +1,59 @@
+/**
+ * 人机验证守卫（防止机器人）
+ * 服务商由配置选择（见 lib/captcha），本地开发可使用 mock 服务商或通过 DISABLED_GUARDS=captcha 关闭
+ */
+
+import type { NextRequest } from 'next/server';
+import { verifyCaptcha } from '../captcha';
+import { CAPTCHA_SUBMIT_ACTION } from '../captcha/config';
+import { reject, requireBody, type Guard } from './pipeline';
+
+/**
+ * 允许生成 token 的域名：本站域名和 ALLOWED_ORIGINS 中的域名（与 CSRF 检查一致）
+ */
+function getCaptchaHostnames(request: NextRequest): string[] {
+  const hostnames = new Set<string>();
+
+  const host = request.headers.get('host');
+  if (host) {
+    hostnames.add(host.replace(/:\d+$/, '').toLowerCase());
+  }
+
+  // 开发环境允许 localhost
+  if (process.env.NODE_ENV === 'development') {
+    hostnames.add('localhost');
+    hostnames.add('127.0.0.1');
+  }
+
+  for (const origin of (process.env['ALLOWED_ORIGINS'] || '').split(',')) {
+    try {
+      hostnames.add(new URL(origin.trim()).hostname.toLowerCase());
+    } catch {
+      // 格式无效的配置项忽略
+    }
+  }
+
+  return [...hostnames];
+}
+
+export function captchaGuard(action: string = CAPTCHA_SUBMIT_ACTION): Guard {
+  return {
+    name: 'captcha',
+    async run(context) {
+      const { captchaToken } = requireBody(context);
+      const result = await verifyCaptcha(typeof captchaToken === 'string' ? captchaToken : '', {
+        action,
+        hostnames: getCaptchaHostnames(context.request),
+      });
+      if (!result.success) {
+        return reject(400, 'api.captchaFailed', result.errorKey ?? 'api.captchaRejected', {
+          // 客户端据此显示补充验证，已填写的答案保留
+          extra: result.fallback ? { captchaFallback: true } : undefined,
+        });
+      }
+
+      context.signals.captcha = result.viaFallback ? 'fallback' : 'passed';
+      return null;
+    },
+  };
+}
@@ -0,0 +1,19 @@
+/**
+ * CSRF 守卫：只接受同源请求（规则见 lib/csrf-protection.ts）
+ */
+
+import { validateCSRF } from '../csrf-protection';
+import { reject, type Guard } from './pipeline';
+
+export function csrfGuard(): Guard {
+  return {
+    name: 'csrf',
+    run({ request }) {
+      const check = validateCSRF(request);
+      if (!check.valid) {
+        return reject(403, 'api.csrfFailed', 'api.csrfFailedHint', { reason: check.reason });
+      }
+      return null;
+    },
+  };
+}
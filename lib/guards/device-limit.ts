@@ -0,0 +1,31 @@
+/**
+ * 设备提交次数守卫（排在风险评分之后，只检查不计数）
+ * 设备键由粗粒度请求信号和每天轮换的随机盐计算，不保存 IP，换天后旧记录无法关联，见 lib/device-limit.ts
+ * 通过时把设备键写入 context.deviceKey，回复入库成功后再计数（见 recordDeviceSubmission）
+ * 被拒绝时 Retry-After 为距离下次换盐（UTC 零点）的秒数
+ */
+
+import { checkDeviceQuota, getDeviceDailyLimit, secondsUntilRotation } from '../device-limit';
+import { reject, type Guard } from './pipeline';
+
+export function deviceLimitGuard(): Guard {
+  return {
+    name: 'device-limit',
+    async run(context) {
+      const limit = getDeviceDailyLimit();
+      if (limit === 0) {
+        return null;
+      }
+
+      const { allowed, key } = await checkDeviceQuota(context.request.headers, limit);
+      if (!allowed) {
+        return reject(429, 'api.deviceLimitReached', 'api.deviceLimitReachedHint', {
+          reason: '同一设备当天提交次数已达上限',
+          headers: { 'Retry-After': String(secondsUntilRotation()) },
+        });
+      }
+      context.deviceKey = key;
+      return null;
+    },
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * 期次守卫：用桩上下文单独运行守卫，不需要真实请求
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { NextRequest } from 'next/server';
+import { getCurrentEdition } from '../editions';
+import { editionGuard } from './edition';
+import { runGuards, type Guard, type GuardContext } from './pipeline';
+
+/**
+ * 桩上下文：请求体已解析（相当于 jsonBodyGuard 之后）
+ */
+function createStubContext(body: Record<string, unknown>): GuardContext {
+  return {
+    request: {} as NextRequest,
+    locale: 'zh-CN',
+    body,
+    signals: {},
+    risk: null,
+    rateLimit: null,
+    session: null,
+    deviceKey: null,
+  };
+}
+
+describe('editionGuard', () => {
+  it('当前开放的期次通过', async () => {
+    const context = createStubContext({ edition: getCurrentEdition().id });
+    assert.equal(await editionGuard().run(context), null);
+  });
+
+  it('其他期次被拒绝（往期只读）', async () => {
+    const rejection = await editionGuard().run(createStubContext({ edition: '2000' }));
+    assert.equal(rejection?.status, 403);
+    assert.equal(rejection?.errorKey, 'api.editionClosed');
+    assert.equal(rejection?.messageKey, 'api.editionClosedHint');
+  });
+
+  it('缺少或类型错误的期次被拒绝', async () => {
+    assert.equal((await editionGuard().run(createStubContext({})))?.status, 403);
+    assert.equal((await editionGuard().run(createStubContext({ edition: 2025 })))?.status, 403);
+  });
+
+  it('请求体尚未解析时抛出（守卫顺序错误）', () => {
+    const context = { ...createStubContext({}), body: null };
+    assert.throws(() => editionGuard().run(context));
+  });
+
+  it('在管道中拒绝后，之后的守卫不再执行', async () => {
+    let reached = false;
+    const next: Guard = {
+      name: 'next',
+      run() {
+        reached = true;
+        return null;
+      },
+    };
+
+    const result = await runGuards([editionGuard(), next], createStubContext({ edition: '2000' }));
+    assert.equal(result?.guard, 'edition');
+    assert.equal(result?.rejection.status, 403);
+    assert.equal(reached, false);
+  });
+});
@@ -0,0 +1,19 @@
+/**
+ * 期次守卫：只有当前开放的期次接受提交（往期数据只读）
+ */
+
+import { isEditionOpen } from '../editions';
+import { reject, requireBody, type Guard } from './pipeline';
+
+export function editionGuard(): Guard {
+  return {
+    name: 'edition',
+    run(context) {
+      const { edition } = requireBody(context);
+      if (typeof edition !== 'string' || !isEditionOpen(edition)) {
+        return reject(403, 'api.editionClosed', 'api.editionClosedHint');
+      }
+      return null;
+    },
+  };
+}
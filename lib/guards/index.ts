@@ -0,0 +1,17 @@
+/**
+ * 请求守卫入口
+ * 管道和上下文定义见 ./pipeline，每个守卫一个模块
+ */
+
+export * from './pipeline';
+export { csrfGuard } from './csrf';
+export { rateLimitGuard } from './rate-limit';
+export { bodySizeGuard, jsonBodyGuard } from './body';
+export { editionGuard } from './edition';
+export { captchaGuard } from './captcha';
+export { surveySessionGuard, consumeSurveySession } from './survey-session';
+export { behaviorGuard } from './behavior';
+export { surveyDataGuard } from './survey-data';
+export { riskGuard, getRiskPolicy } from './risk';
+export { deviceLimitGuard } from './device-limit';
+export { adminAuthGuard, parseIdList, MAX_ADMIN_BATCH_SIZE } from './admin';
@@ -0,0 +1,154 @@
+/**
+ * 请求守卫管道
+ * 写接口的前置检查（CSRF、速率限制、人机验证、行为检测、数据校验等）拆分为独立的守卫，按顺序执行
+ *
+ * 约定：
+ * 1. 每个守卫只做一件事，通过共享的 GuardContext 读取请求、写入解析结果（如 body）
+ * 2. 守卫通过返回 GuardRejection 拒绝请求，管道统一转换为带文案键的错误响应，后续守卫不再执行
+ * 3. 守卫不直接构造 NextResponse，便于单独测试和在其他写接口中复用
+ * 4. 不直接拒绝的可疑信号写入 context.signals，由最后的风险评分守卫统一评分（见 ./risk）
+ * 5. 可通过环境变量 DISABLED_GUARDS（逗号分隔的守卫名称）按环境关闭守卫，例如本地开发：DISABLED_GUARDS=captcha
+ */
+
+import type { NextRequest, NextResponse } from 'next/server';
+import { getRequestLocale, jsonError } from '../api-response';
+import type { Locale, MessageKey } from '../i18n';
+import type { RiskAssessment, RiskDecision, RiskSignals } from '../risk-scoring';
+import type { RateLimitResult } from '../rate-limit';
+import type { DeviceKey } from '../device-limit';
+
+/**
+ * 守卫共享的请求上下文
+ */
+export interface GuardContext {
+  request: NextRequest;
+  locale: Locale;
+  // 已解析的请求体（由 jsonBodyGuard 写入，之后的守卫才能读取）
+  body: Record<string, unknown> | null;
+  // 各守卫采集的风险信号（人机验证、答题时长、行为数据等）
+  signals: RiskSignals;
+  // 风险评分结果（由 riskGuard 写入，守卫被关闭时为 null）
+  risk: (RiskAssessment & { decision: RiskDecision }) | null;
+  // 速率限制检查结果（由 rateLimitGuard 写入，成功响应据此附带 RateLimit-* 头）
+  rateLimit: RateLimitResult | null;
+  // 已验证但尚未使用的答题会话（由 surveySessionGuard 写入，全部检查通过、入库前才标记为已使用）
+  session: { id: string; expiresAt: number } | null;
+  // 设备键（由 deviceLimitGuard 写入，回复入库成功后才计数）
+  deviceKey: DeviceKey | null;
+}
+
+/**
+ * 统一的拒绝结果
+ */
+export interface GuardRejection {
+  status: number;
+  errorKey: MessageKey;
+  messageKey?: MessageKey;
+  // 只写入服务端日志，不返回给客户端
+  reason?: string;
+  // 附加到响应体的字段（如校验错误明细）
+  extra?: Record<string, unknown>;
+  headers?: HeadersInit;
+}
+
+export interface Guard {
+  // 守卫名称（用于日志和 DISABLED_GUARDS 配置）
+  name: string;
+  run(context: GuardContext): Promise<GuardRejection | null> | GuardRejection | null;
+}
+
+/**
+ * 构建拒绝结果
+ */
+export function reject(
+  status: number,
+  errorKey: MessageKey,
+  messageKey?: MessageKey,
+  options: Omit<GuardRejection, 'status' | 'errorKey' | 'messageKey'> = {}
+): GuardRejection {
+  return { status, errorKey, messageKey, ...options };
+}
+
+/**
+ * 创建请求上下文
+ */
+export function createGuardContext(request: NextRequest): GuardContext {
+  return {
+    request,
+    locale: getRequestLocale(request),
+    body: null,
+    signals: {},
+    risk: null,
+    rateLimit: null,
+    session: null,
+    deviceKey: null,
+  };
+}
+
+/**
+ * 读取已解析的请求体（守卫顺序错误时直接抛出，属于编程错误）
+ */
+export function requireBody(context: GuardContext): Record<string, unknown> {
+  if (!context.body) {
+    throw new Error('请求体尚未解析，jsonBodyGuard 必须排在读取 body 的守卫之前');
+  }
+  return context.body;
+}
+
+/**
+ * 读取按环境关闭的守卫名称
+ */
+export function getDisabledGuards(): Set<string> {
+  const value = process.env['DISABLED_GUARDS'] ?? '';
+  return new Set(
+    value
+      .split(',')
+      .map(name => name.trim())
+      .filter(Boolean)
+  );
+}
+
+/**
+ * 按顺序执行守卫，遇到第一个拒绝即停止
+ * @returns 拒绝时返回守卫名称和拒绝结果，全部通过时返回 null
+ */
+export async function runGuards(
+  guards: readonly Guard[],
+  context: GuardContext
+): Promise<{ guard: string; rejection: GuardRejection } | null> {
+  for (const guard of guards) {
+    const rejection = await guard.run(context);
+    if (rejection) {
+      return { guard: guard.name, rejection };
+    }
+  }
+  return null;
+}
+
+/**
+ * 创建守卫管道（按环境过滤被关闭的守卫）
+ * 返回的函数在全部通过时返回 null，否则返回统一格式的错误响应
+ */
+export function createGuardPipeline(guards: readonly Guard[]) {
+  const disabled = getDisabledGuards();
+  const enabled = guards.filter(guard => !disabled.has(guard.name));
+
+  if (disabled.size > 0 && process.env.NODE_ENV === 'production') {
+    console.warn('[Guards] 生产环境关闭了以下守卫:', [...disabled].join(', '));
+  }
+
+  return async function run(context: GuardContext): Promise<NextResponse | null> {
+    const result = await runGuards(enabled, context);
+    if (!result) return null;
+
+    const { guard, rejection } = result;
+    if (rejection.reason) {
+      console.warn(`[Guard:${guard}] 请求被拒绝:`, rejection.reason);
+    }
+
+    return jsonError(context.locale, rejection.status, rejection.errorKey, rejection.messageKey, {
+      extra: rejection.extra,
+      headers: rejection.headers,
+    });
+  };
+}
@@ -0,0 +1,35 @@
+/**
+ * 速率限制守卫（防止 DDoS，不记录用户信息）
+ * 每个接口使用独立的桶，配置见 lib/rate-limit.ts
+ * 超限时返回 429，存储不可用且按 closed 策略拒绝时返回 503；提示文案按桶区分
+ * 被拒绝时返回 Retry-After 和 RateLimit-* 头，客户端据此倒计时后自动重试
+ */
+
+import { checkRateLimit, getRateLimitHeaders, type RateLimitBucket } from '../rate-limit';
+import type { MessageKey } from '../i18n';
+import { reject, type Guard } from './pipeline';
+
+// 各桶被拒绝时的提示（只读接口、开始答题、申请工作量证明题目、提交）
+const BUCKET_MESSAGES: Record<RateLimitBucket, MessageKey> = {
+  read: 'api.retryLater',
+  session: 'api.tooManySessions',
+  challenge: 'api.tooManySessions',
+  write: 'api.tooManySubmissions',
+};
+
+export function rateLimitGuard(bucket: RateLimitBucket): Guard {
+  return {
+    name: 'rate-limit',
+    async run(context) {
+      const result = await checkRateLimit(bucket);
+      context.rateLimit = result;
+      if (!result.allowed) {
+        const headers = getRateLimitHeaders(result);
+        return result.storeUnavailable
+          ? reject(503, 'api.serverBusy', BUCKET_MESSAGES[bucket], { headers })
+          : reject(429, 'api.tooManyRequests', BUCKET_MESSAGES[bucket], { headers });
+      }
+      return null;
+    },
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * 风险评分守卫（排在最后，汇总前面守卫写入的风险信号和答案模式）
+ * 评分规则见 lib/risk-scoring.ts，处理策略可通过环境变量调整：
+ * - RISK_QUARANTINE_THRESHOLD：达到该分数隔离（默认 40）
+ * - RISK_REJECT_THRESHOLD：达到该分数拒绝（默认 70）
+ */
+
+import {
+  assessRisk,
+  decideRisk,
+  DEFAULT_RISK_POLICY,
+  type RiskPolicy,
+} from '../risk-scoring';
+import type { OptionOrder } from '../option-order';
+import type { QuestionTimings } from '../question-timing';
+import { reject, requireBody, type Guard } from './pipeline';
+
+function readThreshold(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && value >= 0 && value <= 100 ? value : fallback;
+}
+
+/**
+ * 读取处理策略（隔离阈值不能高于拒绝阈值）
+ */
+export function getRiskPolicy(): RiskPolicy {
+  const rejectScore = readThreshold('RISK_REJECT_THRESHOLD', DEFAULT_RISK_POLICY.reject);
+  const quarantineScore = readThreshold('RISK_QUARANTINE_THRESHOLD', DEFAULT_RISK_POLICY.quarantine);
+  return { quarantine: Math.min(quarantineScore, rejectScore), reject: rejectScore };
+}
+
+export function riskGuard(): Guard {
+  const policy = getRiskPolicy();
+
+  return {
+    name: 'risk',
+    run(context) {
+      const body = requireBody(context);
+      const assessment = assessRisk({
+        ...context.signals,
+        // 答案已由 surveyDataGuard 验证
+        answers: body,
+        optionOrder: (body['optionOrder'] as OptionOrder | undefined) ?? null,
+        timings: (body['questionTimings'] as QuestionTimings | undefined) ?? null,
+      });
+      const decision = decideRisk(assessment.score, policy);
+      context.risk = { ...assessment, decision };
+
+      if (decision === 'reject') {
+        return reject(403, 'api.riskRejected', 'api.riskRejectedHint', {
+          reason: `风险分 ${assessment.score}: ${assessment.contributions.map(c => c.rule).join(', ')}`,
+        });
+      }
+      return null;
+    },
+  };
+}
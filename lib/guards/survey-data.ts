@@ -0,0 +1,21 @@
+/**
+ * 问卷数据守卫：验证答案完整性和合法性（规则由 lib/questions.ts 推导）
+ */
+
+import { validateSurveyData } from '../validation';
+import { reject, requireBody, type Guard } from './pipeline';
+
+export function surveyDataGuard(): Guard {
+  return {
+    name: 'survey-data',
+    run(context) {
+      const validation = validateSurveyData(requireBody(context));
+      if (!validation.valid) {
+        return reject(400, 'api.validationFailed', 'api.validationFailedHint', {
+          extra: { details: validation.errors },
+        });
+      }
+      return null;
+    },
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * 答题会话守卫（防止伪造答题时长和重放攻击）
+ * 1. 验证服务端签发的会话 token（签名、期次）
+ * 2. 按服务端时钟检查答题时长（最少10秒，最多10分钟）
+ * 3. 通过后把会话写入 context.session，不在这里标记为已使用：
+ *    后续守卫拒绝时会话仍然有效，用户可以用保留的答案重新提交；
+ *    提交路由在全部检查通过、入库前才原子地标记（见 consumeSurveySession），同一会话只能提交一次
+ * 答题时长同时写入风险信号（较短但合法的时长计入风险分，见 lib/risk-scoring.ts）
+ */
+
+import { verifySurveySession, MIN_SESSION_DURATION, MAX_SESSION_DURATION } from '../survey-session';
+import { consumeOneTimeToken } from '../rate-limit';
+import { reject, requireBody, type Guard, type GuardContext } from './pipeline';
+
+export function surveySessionGuard(): Guard {
+  return {
+    name: 'survey-session',
+    async run(context) {
+      const body = requireBody(context);
+
+      // 1. 验证签名
+      const verification = verifySurveySession(body['sessionToken']);
+      const session = verification.session;
+      if (!verification.valid || !session) {
+        return reject(400, 'api.invalidSubmission', 'api.refreshAndRetry', {
+          reason: verification.reason,
+          extra: { debug: process.env.NODE_ENV === 'development' ? verification.reason : undefined },
+        });
+      }
+
+      // 会话只能用于签发时的期次
+      if (session.edition !== body['edition']) {
+        return reject(400, 'api.invalidSubmission', 'api.refreshAndRetry', {
+          reason: `会话期次不匹配: ${session.edition}`,
+        });
+      }
+
+      // 2. 检查答题时长（使用服务端时间，未通过时不消耗会话，用户可稍后重试）
+      const elapsed = Date.now() - session.startedAt;
+      if (elapsed < 0) {
+        return reject(403, 'api.behavior.timeAnomaly');
+      }
+      if (elapsed < MIN_SESSION_DURATION) {
+        return reject(403, 'api.behavior.tooFast');
+      }
+      if (elapsed > MAX_SESSION_DURATION) {
+        return reject(403, 'api.sessionExpired', 'api.sessionExpiredHint');
+      }
+
+      // 3. 记录会话，入库前再标记为已使用
+      context.session = { id: session.id, expiresAt: session.expiresAt };
+      context.signals.elapsedMs = elapsed;
+      return null;
+    },
+  };
+}
+
+/**
+ * 标记已验证的会话为已使用（原子操作，重放的会话返回 false）
+ * 守卫被关闭时没有会话，直接返回 true
+ */
+export async function consumeSurveySession(context: GuardContext): Promise<boolean> {
+  if (!context.session) {
+    return true;
+  }
+  return consumeOneTimeToken(context.session.id, new Date(context.session.expiresAt));
+}
@@ -0,0 +1,145 @@
+/**
+ * 国际化模块
+ * 客户端和服务端共用
+ *
+ * 约定：
+ * 1. 界面和接口文案通过稳定的文案键（MessageKey）引用，简体中文为默认语言和兜底语言
+ * 2. 问题和选项按问题 id / 选项编码翻译，简体中文原文保存在 lib/questions.ts
+ * 3. 接口响应同时返回文案键（errorKey / messageKey）和按 Accept-Language 翻译好的文本，客户端优先使用文案键
+ */
+
+import type { Question } from './questions';
+import { messages as zhCNMessages } from './locales/zh-CN';
+import { messages as zhTWMessages, questionCatalog as zhTWQuestions } from './locales/zh-TW';
+import { messages as enMessages, questionCatalog as enQuestions } from './locales/en';
+
+export const SUPPORTED_LOCALES = ['zh-CN', 'zh-TW', 'en'] as const;
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'zh-CN';
+
+// 用户手动选择的语言保存在该 cookie 中（服务端渲染时用于设置 <html lang>）
+export const LOCALE_COOKIE = 'locale';
+
+export type MessageKey = keyof typeof zhCNMessages;
+export type Messages = Partial<Record<MessageKey, string>>;
+
+/**
+ * 单个问题的翻译（缺失的字段回退到简体中文原文）
+ */
+export interface QuestionTranslation {
+  question?: string;
+  sub?: string;
+  unit?: string;
+  options?: Record<string, string>;
+  rows?: Record<string, string>;
+}
+
+export type QuestionCatalog = Record<string, QuestionTranslation>;
+
+const messageCatalogs: Record<Locale, Messages> = {
+  'zh-CN': zhCNMessages,
+  'zh-TW': zhTWMessages,
+  en: enMessages,
+};
+
+const questionCatalogs: Record<Locale, QuestionCatalog> = {
+  'zh-CN': {},
+  'zh-TW': zhTWQuestions,
+  en: enQuestions,
+};
+
+/**
+ * 将任意语言标签映射到支持的语言（不支持时返回 null）
+ * 例如：zh-Hant-HK / zh-HK -> zh-TW，zh / zh-Hans -> zh-CN，en-US -> en
+ */
+export function matchLocale(tag: string): Locale | null {
+  const normalized = tag.trim().toLowerCase();
+  if (!normalized) return null;
+
+  if (normalized.startsWith('zh')) {
+    return /^zh-(tw|hk|mo|hant)/.test(normalized) ? 'zh-TW' : 'zh-CN';
+  }
+  if (normalized.startsWith('en')) {
+    return 'en';
+  }
+  return null;
+}
+
+/**
+ * 根据 Accept-Language 头协商语言（按 q 值从高到低匹配）
+ */
+export function negotiateLocale(acceptLanguage: string | null | undefined): Locale {
+  if (!acceptLanguage) return DEFAULT_LOCALE;
+
+  const candidates = acceptLanguage
+    .split(',')
+    .map(part => {
+      const [tag = '', ...params] = part.split(';');
+      const qParam = params.find(p => p.trim().startsWith('q='));
+      const q = qParam ? parseFloat(qParam.trim().substring(2)) : 1;
+      return { tag, q: isNaN(q) ? 0 : q };
+    })
+    .filter(c => c.q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  for (const { tag } of candidates) {
+    const locale = matchLocale(tag);
+    if (locale) return locale;
+  }
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * 判断是否为支持的语言
+ */
+export function isSupportedLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (SUPPORTED_LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * 翻译文案键，支持 {name} 占位符
+ * 当前语言缺失时回退到简体中文
+ */
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  params?: Record<string, string | number>
+): string {
+  const template = messageCatalogs[locale][key] ?? zhCNMessages[key];
+  if (!params) return template;
+
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+}
+
+/**
+ * 判断字符串是否为有效的文案键（用于解析接口返回的 messageKey）
+ */
+export function isMessageKey(value: unknown): value is MessageKey {
+  return typeof value === 'string' && value in zhCNMessages;
+}
+
+/**
+ * 返回翻译后的问题（结构不变，只替换展示文案；编码保持不变）
+ */
+export function localizeQuestion(question: Question, locale: Locale): Question {
+  const translation = questionCatalogs[locale][question.id];
+  if (!translation) return question;
+
+  return {
+    ...question,
+    question: translation.question ?? question.question,
+    sub: translation.sub ?? question.sub,
+    unit: translation.unit ?? question.unit,
+    options: question.options?.map(opt => ({
+      ...opt,
+      label: translation.options?.[opt.code] ?? opt.label,
+    })),
+    rows: question.rows?.map(row => ({
+      ...row,
+      label: translation.rows?.[row.code] ?? row.label,
+    })),
+  };
+}
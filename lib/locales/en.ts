@@ -0,0 +1,268 @@
+/**
+ * English
+ */
+
+import type { Messages, QuestionCatalog } from '../i18n';
+
+export const messages: Messages = {
+  'common.months': 'months',
+  'common.people': 'people',
+  'common.confirm': 'Confirm',
+  'common.viewData': 'View current data',
+
+  'intro.title': 'Reckoning',
+  'intro.privacy': 'No IP logging. No identity.',
+  'intro.description': 'We need your own real numbers (such as how many months of salary you actually received), and your honest view of the people around you.',
+  'intro.purpose': 'The data feeds the {year} nationwide living-conditions dashboard.',
+  'intro.start': 'Start anonymously',
+  'intro.closed': 'This edition is closed',
+  'intro.viewData': 'View current data',
+  'intro.starting': 'Opening an anonymous session...',
+  'intro.startFailed': 'Could not start the survey. Please try again later.',
+  'intro.startCooldown': 'Too many people are starting right now. Retrying automatically in {seconds}s.',
+
+  'survey.sliderHint': '(drag the slider to adjust)',
+  'survey.submit': 'Submit',
+  'survey.submitting': 'Submitting...',
+  'survey.retryIn': 'Retrying in {seconds}s',
+  'survey.loadingCaptcha': 'Loading verification...',
+  'survey.footer': 'Used for anonymous statistics only',
+  'survey.captchaStatus': 'Captcha ({provider}) status: {status}',
+  'survey.captchaLoaded': '✓ loaded',
+  'survey.captchaLoading': '⏳ loading...',
+  'survey.captchaMissingKey': '⚠️ SITE_KEY missing',
+  'survey.captchaMock': "I'm not a robot (local test)",
+  'survey.captchaInvisible': 'This site is protected by reCAPTCHA',
+  'survey.powSolving': 'Running a security check in the background...',
+  'survey.powSolved': '✓ Security check complete',
+  'survey.powFailed': 'Security check failed. Please refresh the page and try again.',
+
+  'submit.captchaSlow': 'Verification is loading slowly. If submission fails, please refresh and try again.',
+  'submit.captchaNotLoaded': 'Verification widget not loaded. Please refresh and try again.',
+  'submit.captchaRequired': 'Please complete the verification.',
+  'submit.captchaLoadFailed': 'Verification failed to load. Please refresh and try again.',
+  'submit.captchaExpired': 'Verification expired. Please verify again.',
+  'submit.tooFrequent': 'Too many submissions. Please try again later.',
+  'submit.clientRateLimited': 'You have reached the limit ({max} per hour). Please try again after {time}.',
+  'submit.invalidAnswers': 'Please check your answers: {details}',
+  'submit.abnormalBehavior': 'Unusual activity detected: {reason}. Please fill in the survey normally.',
+  'submit.failed': 'Submission failed. Please try again later.',
+  'submit.serverCooldown': 'The server is busy. Your answers are saved and will be submitted automatically in {seconds}s.',
+
+  // Risk scoring rules (explain why a submission looks unusual)
+  'risk.behaviorMissing': 'missing interaction data',
+  'risk.behaviorIdle': 'inactive for too long',
+  'risk.noPointer': 'no normal interaction',
+  'risk.lowPointer': 'little interaction',
+  'risk.fewClicks': 'too few clicks',
+  'risk.noScrollOrKeys': 'no scrolling or typing',
+  'risk.fast': 'completed too quickly',
+  'risk.speeding': 'answered many questions too quickly',
+  'risk.straightlining': 'gave the same answer to every row',
+  'risk.captchaFallback': 'additional verification was required',
+  'risk.firstOption': 'always chose the first option',
+  'risk.allOptions': 'selected every option',
+
+  'result.errorTitle': 'Submission failed',
+  'result.possibleReasons': 'Possible reasons:',
+  'result.reasonFrequency': 'Too many submissions (at most 3 per hour)',
+  'result.reasonNetwork': 'Network problems',
+  'result.reasonServer': 'Server temporarily unavailable',
+  'result.retry': 'Back and retry',
+  'result.successTitle': 'Data archived',
+  'result.successDescription': 'Your answers have been mixed into the anonymous data pool.',
+  'result.sessionReset': 'Local session has been reset.',
+  'result.noLogs': 'No identity is linked. Please do not share screenshots of this page.',
+  'result.viewStats': 'View nationwide statistics',
+  'result.leave': 'Close / leave',
+
+  'dashboard.title': '{year} Nationwide Ledger',
+  'dashboard.back': 'Back to home',
+  'dashboard.cooldown': 'Too many requests right now. Refreshing automatically in {seconds}s.',
+  'dashboard.medianMonths': 'Median salary months received',
+  'dashboard.meanMonths': 'Mean',
+  'dashboard.quartileMonths': 'Middle 50%',
+  'dashboard.belowFullYear': 'Below 12 months',
+  'dashboard.total': 'Responses',
+  'dashboard.arrearsRate': 'Wage arrears in sample',
+  'dashboard.arrearsSafe': 'Paid on time',
+  'dashboard.arrearsRisk': 'Wages owed',
+  'dashboard.arrearsNote': 'Red means wages are being withheld',
+  'dashboard.personalVsFriends': 'Personal vs. observed',
+  'dashboard.personalGrowth': 'Personal: growth',
+  'dashboard.personalStable': 'Personal: flat',
+  'dashboard.personalDecline': 'Personal: decline',
+  'dashboard.friendsBetter': 'Observed: mostly better',
+  'dashboard.friendsWorse': 'Observed: mostly worse',
+  'dashboard.personalVsFriendsNote': 'Blue: personal | Gray: observed around you',
+  'dashboard.salaryHistogram': 'Distribution of salary months received',
+  'dashboard.salaryHistogramNote': 'Red: below 12 months (bonus cancelled or pay cut)',
+  'dashboard.payComponents': 'Pay components',
+  'dashboard.welfareCut': 'Benefit cuts (multi-select)',
+  'dashboard.welfareCutNote': 'Share = people choosing the option / people answering the question. Multiple choices allowed, so shares can add up to more than 100%.',
+  'dashboard.welfareCutPairs': 'Benefit cuts reported together',
+  'dashboard.welfareCutPairsNote': 'Each cell is the number of people who chose both options. Darker means more people.',
+  'dashboard.arrearsPerception': 'Wage arrears in social circles',
+  'dashboard.share': 'Share',
+  'dashboard.insights': 'Insights',
+  'dashboard.insightMonths': '"Median salary months received" is the gold standard of industry health. Below 12 months means widespread bonus cancellations or pay cuts.',
+  'dashboard.insightBias': 'Compare "personal" with "observed". If the environment looks much worse (long gray bars) while most individuals report flat income (long blue bars), there may be survivorship bias: only those doing fine chose to respond.',
+
+  'api.csrfFailed': 'Request origin check failed',
+  'api.csrfFailedHint': 'Please submit the survey from the survey page',
+  'api.serverBusy': 'Server busy',
+  'api.tooManySubmissions': 'Too many people are submitting right now. Please try again later.',
+  'api.tooManySessions': 'Too many people are starting the survey right now. Please try again later.',
+  'api.deviceLimitReached': 'Submission limit reached',
+  'api.deviceLimitReachedHint': 'This device has reached today\'s submission limit. Thanks for taking part, please try again tomorrow.',
+  'api.tooManyRequests': 'Too many requests',
+  'api.retryLater': 'Please try again later',
+  'api.payloadTooLarge': 'Request too large',
+  'api.payloadTooLargeHint': 'The submitted data exceeds the size limit',
+  'api.invalidJson': 'Invalid request format',
+  'api.invalidJsonHint': 'The request body is malformed',
+  'api.editionClosed': 'This edition is closed',
+  'api.editionClosedHint': 'This edition no longer accepts responses. Refresh to join the latest one.',
+  'api.invalidEdition': 'Invalid edition',
+  'api.invalidEditionHint': 'The requested survey edition does not exist',
+  'api.captchaFailed': 'Captcha verification failed',
+  'api.captchaNotConfigured': 'Captcha is not configured. Please contact the administrator.',
+  'api.captchaMissing': 'Captcha token missing',
+  'api.captchaRejected': 'Captcha verification failed. Please try again.',
+  'api.captchaUnavailable': 'Captcha service error. Please try again later.',
+  'api.captchaExpired': 'Verification expired. Please verify again.',
+  'api.captchaFallbackRequired': 'Additional verification required. Please complete the check below and submit again (your answers are kept).',
+  'api.challengeUnavailable': 'Could not get a security challenge',
+  'api.challengeUnavailableHint': 'The server could not create a challenge. Please try again later.',
+  'api.invalidSubmission': 'Invalid submission',
+  'api.refreshAndRetry': 'Please refresh the page and try again',
+  'api.tokenInvalid': 'Invalid token. Please refresh the page and try again.',
+  'api.sessionExpired': 'Survey session expired',
+  'api.sessionExpiredHint': 'You took more than 10 minutes. Please go back and start again.',
+  'api.sessionUnavailable': 'Could not start the survey',
+  'api.sessionUnavailableHint': 'The server could not create a survey session. Please try again later.',
+  'api.behavior.invalidFormat': 'Invalid behavior data format',
+  'api.behavior.invalidValue': 'Behavior data contains invalid values',
+  'api.behavior.timeAnomaly': 'Unusual activity detected: invalid timing data',
+  'api.behavior.tooFast': 'Unusual activity detected: too little time spent. Please fill in the survey normally.',
+  'api.riskRejected': 'Unusual activity detected',
+  'api.riskRejectedHint': 'Please refresh the page and fill in the survey normally.',
+  'api.validationFailed': 'Validation failed',
+  'api.validationFailedHint': 'The submitted data is not valid',
+  'api.dbTimeout': 'Database timeout',
+  'api.dbTimeoutHint': 'Server busy. Please try again later.',
+  'api.submitSuccess': 'Submitted',
+  'api.submitFailed': 'Submission failed',
+  'api.submitFailedHint': 'The server failed to process the request. Please try again later.',
+  'api.statsFailed': 'Failed to load data',
+  'api.statsFailedHint': 'The server failed to process the request',
+  'api.unauthorized': 'Unauthorized',
+  'api.adminNotConfigured': 'Admin API is disabled. Please configure ADMIN_SECRET.',
+  'api.invalidRequest': 'Invalid request parameters',
+  'api.quarantineFailed': 'Failed to process quarantined responses',
+  'api.alertsFailed': 'Failed to process alerts',
+  'api.dataQualityFailed': 'Failed to load the data-quality report',
+  'api.rebuildStatsFailed': 'Failed to rebuild statistics',
+};
+
+export const questionCatalog: QuestionCatalog = {
+  industry: {
+    question: 'First, where do you work?',
+    sub: 'This decides where you stand in the storm.',
+    options: {
+      public_sector: 'Civil service / state sector (on shore)',
+      new_energy_tech: 'New energy / hard tech / going global',
+      internet: 'Internet / big tech',
+      real_estate: 'Real estate / construction / design',
+      finance: 'Finance / securities / investment',
+      manufacturing: 'Manufacturing / foreign trade / physical economy',
+      service_retail: 'Food service / services / retail',
+      freelance_unemployed: 'Freelance / between jobs',
+    },
+  },
+  salary_months: {
+    question: 'In {year}, how many months of salary did you actually receive?',
+    sub: 'Include your bonus, converted to months. A 12-month salary is 12; nothing paid is 0.',
+    unit: 'months',
+  },
+  personal_income: {
+    question: 'Compared with last year, how did your annual income change?',
+    sub: 'Total take-home pay after tax.',
+    options: {
+      growth: 'Grew against the trend (> 10%)',
+      stable: 'About the same (within 10%)',
+      mild_decline: 'Mild drop (10%-30%)',
+      severe_decline: 'Severe drop (> 30%)',
+      halved_or_zero: 'Halved / lost job, down to zero',
+    },
+  },
+  personal_arrears: {
+    question: 'Have you had wages withheld?',
+    sub: 'Including docked performance pay and unexplained delays.',
+    options: {
+      never: 'Never, always paid on time',
+      delayed_then_paid: 'Occasionally late, eventually paid',
+      owed_under_3m: 'Currently owed (under 3 months)',
+      owed_over_6m: 'Currently owed (over half a year / hopeless)',
+    },
+  },
+  pay_components_change: {
+    question: 'Compared with last year, how did each part of your pay change?',
+    sub: 'Answer each row. If you never had it, choose "Never had it".',
+    rows: {
+      base_pay: 'Base pay',
+      bonus: 'Bonus / performance pay',
+      overtime_pay: 'Overtime pay',
+      social_insurance: 'Social insurance / housing fund',
+    },
+    options: {
+      increased: 'Up',
+      unchanged: 'Same',
+      decreased: 'Down',
+      gone: 'Cancelled / stopped',
+      not_applicable: 'Never had it',
+    },
+  },
+  friends_status: {
+    question: 'What is the general state of the friends, family and colleagues around you?',
+    sub: 'Onlookers see clearly. Talking about others is more objective than talking about yourself.',
+    options: {
+      better: 'Mostly getting raises or switching jobs; the market is fine',
+      mixed: 'Only a few high performers get raises; most are just hanging on',
+      worse: 'Everyone is taking pay cuts or being laid off; lots of resentment',
+      protesting: 'Everyone is talking about claiming unpaid wages; things are bad',
+    },
+  },
+  friends_arrears_perception: {
+    question: 'In your social circle, "unpaid wages" is...',
+    sub: 'A rare word, or an everyday one?',
+    options: {
+      rare: 'Almost never heard of (rare)',
+      occasional: 'Heard of one or two cases (occasional)',
+      common: 'Often hear people complain (common)',
+      widespread: 'Happening in almost every industry (widespread)',
+    },
+  },
+  attention_check: {
+    question: 'This is an attention check. Please select the third option.',
+    sub: 'It helps filter out careless responses and does not affect your other answers.',
+    options: {
+      option_1: 'Option one',
+      option_2: 'Option two',
+      option_3: 'Option three',
+      option_4: 'Option four',
+    },
+  },
+  welfare_cut: {
+    question: 'Finally, which hidden benefits disappeared this year?',
+    sub: 'Multiple choice. If you never had any, choose "unchanged".',
+    options: {
+      housing_fund_cut: 'Housing fund / social insurance base lowered',
+      bonus_gone: 'Year-end bonus / 13th month gone',
+      allowance_cut: 'Overtime pay / taxi and meal allowance cancelled',
+      severance_cut: 'Severance cut from N+1 to N or less',
+      unchanged: 'No benefits cut / unchanged',
+      increased: 'Benefits actually increased',
+    },
+  },
+};
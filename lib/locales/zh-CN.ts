@@ -0,0 +1,172 @@
+/**
+ * 简体中文文案（默认语言，也是所有文案键的来源）
+ * 问题和选项的简体中文文案直接写在 lib/questions.ts 中，此处不重复
+ */
+
+export const messages = {
+  // 通用
+  'common.months': '个月',
+  'common.people': '人',
+  'common.confirm': '确认记录',
+  'common.viewData': '查看现有数据',
+
+  // 首页
+  'intro.title': '算账',
+  'intro.privacy': '不记录 IP，不记录身份。',
+  'intro.description': '我们需要你个人的真实数据（如实发薪资月数），也需要你对周围环境的客观观察。',
+  'intro.purpose': '数据将用于生成 {year} 年度全网生存状况看板。',
+  'intro.start': '开始匿名记录',
+  'intro.closed': '本期调查已结束',
+  'intro.viewData': '直接查看现有数据',
+  'intro.starting': '正在建立匿名会话...',
+  'intro.startFailed': '无法开始答题，请稍后重试',
+  'intro.startCooldown': '当前开始答题的人太多，{seconds} 秒后自动重试',
+
+  // 答题
+  'survey.sliderHint': '（拖动滑块调整数字）',
+  'survey.submit': '确认提交',
+  'survey.submitting': '提交中...',
+  'survey.retryIn': '{seconds} 秒后重试',
+  'survey.loadingCaptcha': '加载人机验证中...',
+  'survey.footer': '此数据仅用于生成匿名统计',
+  'survey.captchaStatus': '人机验证 ({provider}) 状态: {status}',
+  'survey.captchaLoaded': '✓ 已加载',
+  'survey.captchaLoading': '⏳ 加载中...',
+  'survey.captchaMissingKey': '⚠️ 缺少 SITE_KEY',
+  'survey.captchaMock': '我不是机器人（本地测试）',
+  'survey.captchaInvisible': '本站使用 reCAPTCHA 进行无感人机验证',
+  'survey.powSolving': '正在后台完成安全计算...',
+  'survey.powSolved': '✓ 安全计算已完成',
+  'survey.powFailed': '安全计算失败，请刷新页面重试',
+
+  // 客户端提交错误
+  'submit.captchaSlow': '人机验证加载较慢，如提交失败请刷新页面重试',
+  'submit.captchaNotLoaded': '人机验证组件未加载，请刷新页面重试',
+  'submit.captchaRequired': '请完成人机验证',
+  'submit.captchaLoadFailed': '人机验证加载失败，请刷新页面重试',
+  'submit.captchaExpired': '人机验证已过期，请重新验证',
+  'submit.tooFrequent': '提交过于频繁，请稍后再试',
+  'submit.clientRateLimited': '您已达到提交限制（每小时最多 {max} 次）。请在 {time} 后再试。',
+  'submit.invalidAnswers': '请检查答案：{details}',
+  'submit.abnormalBehavior': '检测到异常行为：{reason}，请正常填写问卷',
+  'submit.failed': '提交失败，请稍后重试',
+  'submit.serverCooldown': '服务器繁忙，答案已保留，{seconds} 秒后自动提交',
+
+  // 风险评分规则（提示命中原因）
+  'risk.behaviorMissing': '缺少交互数据',
+  'risk.behaviorIdle': '长时间无活动',
+  'risk.noPointer': '缺少正常交互',
+  'risk.lowPointer': '交互较少',
+  'risk.fewClicks': '点击次数过少',
+  'risk.noScrollOrKeys': '没有滚动或键盘操作',
+  'risk.fast': '答题时间过短',
+  'risk.speeding': '多道题作答过快',
+  'risk.straightlining': '矩阵题所有子项选择相同',
+  'risk.captchaFallback': '人机验证需要补充验证',
+  'risk.firstOption': '总是选择第一个选项',
+  'risk.allOptions': '多选题选择了全部选项',
+
+  // 结果页
+  'result.errorTitle': '提交失败',
+  'result.possibleReasons': '可能的原因：',
+  'result.reasonFrequency': '提交过于频繁（每小时最多 3 次）',
+  'result.reasonNetwork': '网络连接问题',
+  'result.reasonServer': '服务器暂时不可用',
+  'result.retry': '返回重试',
+  'result.successTitle': '数据已加密归档',
+  'result.successDescription': '您的个人数据与环境观察记录已混入匿名数据池。',
+  'result.sessionReset': '本地 Session 已重置。',
+  'result.noLogs': '未关联任何身份 ID。请勿截图分享本页。',
+  'result.viewStats': '查看全网统计数据',
+  'result.leave': '关闭 / 离开',
+
+  // 数据看板
+  'dashboard.title': '{year} 全网账本',
+  'dashboard.back': '返回首页',
+  'dashboard.cooldown': '请求过于频繁，{seconds} 秒后自动刷新',
+  'dashboard.medianMonths': '实发薪资中位数',
+  'dashboard.meanMonths': '平均值',
+  'dashboard.quartileMonths': '中间 50%',
+  'dashboard.belowFullYear': '低于 12 个月',
+  'dashboard.total': '样本总数',
+  'dashboard.arrearsRate': '样本欠薪率',
+  'dashboard.arrearsSafe': '按时发放',
+  'dashboard.arrearsRisk': '遭遇欠薪',
+  'dashboard.arrearsNote': '红色区域代表存在拖欠行为',
+  'dashboard.personalVsFriends': '个人实感 vs 环境观察',
+  'dashboard.personalGrowth': '个人实况: 增长',
+  'dashboard.personalStable': '个人实况: 持平',
+  'dashboard.personalDecline': '个人实况: 下跌',
+  'dashboard.friendsBetter': '环境体感: 普遍好',
+  'dashboard.friendsWorse': '环境体感: 普遍差',
+  'dashboard.personalVsFriendsNote': '蓝色: 个人实际 | 灰色: 观察到的环境',
+  'dashboard.salaryHistogram': '实发薪资月数分布',
+  'dashboard.salaryHistogramNote': '红色: 低于 12 个月（年终奖取消或扣薪）',
+  'dashboard.payComponents': '收入组成变化',
+  'dashboard.welfareCut': '福利缩水（多选）',
+  'dashboard.welfareCutNote': '比例 = 选择该项的人数 / 回答该题的人数，可多选，合计可超过 100%',
+  'dashboard.welfareCutPairs': '福利缩水同时出现',
+  'dashboard.welfareCutPairsNote': '格子中的数字为同时选择两项的人数，颜色越深人数越多',
+  'dashboard.arrearsPerception': '社交圈中的欠薪',
+  'dashboard.share': '占比',
+  'dashboard.insights': '数据洞察',
+  'dashboard.insightMonths': '"实发薪资中位数" 是衡量行业健康度的金标准。低于 12 个月意味着大规模的年终奖取消或扣薪。',
+  'dashboard.insightBias': '观察"个人实况"与"环境体感"的差值。如果环境普遍恶化（灰色条长），但个人大多持平（蓝色条长），可能存在"幸存者偏差"——即只有状况尚可的人才愿意填写问卷。',
+
+  // 接口消息
+  'api.csrfFailed': '请求来源验证失败',
+  'api.csrfFailedHint': '请从正确的页面提交问卷',
+  'api.serverBusy': '服务器繁忙',
+  'api.tooManySubmissions': '当前提交人数过多，请稍后再试',
+  'api.tooManySessions': '当前开始答题的人数过多，请稍后再试',
+  'api.deviceLimitReached': '提交次数已达上限',
+  'api.deviceLimitReachedHint': '同一设备今天的提交次数已达上限，感谢参与，请明天再试',
+  'api.tooManyRequests': '请求过于频繁',
+  'api.retryLater': '请稍后再试',
+  'api.payloadTooLarge': '请求数据过大',
+  'api.payloadTooLargeHint': '提交的数据超过大小限制',
+  'api.invalidJson': '无效的请求格式',
+  'api.invalidJsonHint': '请求数据格式错误',
+  'api.editionClosed': '本期调查已结束',
+  'api.editionClosedHint': '该期问卷已停止收集，请刷新页面参与最新一期',
+  'api.invalidEdition': '无效的期次',
+  'api.invalidEditionHint': '请求的问卷期次不存在',
+  'api.captchaFailed': '人机验证失败',
+  'api.captchaNotConfigured': '人机验证服务未正确配置，请联系管理员',
+  'api.captchaMissing': '人机验证 token 缺失',
+  'api.captchaRejected': '人机验证失败，请重试',
+  'api.captchaUnavailable': '人机验证服务异常，请稍后重试',
+  'api.captchaExpired': '人机验证已过期，请重新验证',
+  'api.captchaFallbackRequired': '需要补充验证，请完成下方的人机验证后重新提交（已填写的答案不会丢失）',
+  'api.challengeUnavailable': '无法获取安全验证题目',
+  'api.challengeUnavailableHint': '服务器暂时无法生成验证题目，请稍后重试',
+  'api.invalidSubmission': '无效的提交请求',
+  'api.refreshAndRetry': '请刷新页面后重试',
+  'api.tokenInvalid': 'Token无效，请刷新页面后重试',
+  'api.sessionExpired': '答题会话已过期',
+  'api.sessionExpiredHint': '答题时间超过 10 分钟，请返回首页重新开始',
+  'api.sessionUnavailable': '无法开始答题',
+  'api.sessionUnavailableHint': '服务器暂时无法创建答题会话，请稍后重试',
+  'api.behavior.invalidFormat': '无效的行为数据格式',
+  'api.behavior.invalidValue': '行为数据包含无效值',
+  'api.behavior.timeAnomaly': '检测到异常行为：时间数据异常',
+  'api.behavior.tooFast': '检测到异常行为：停留时间过短，请正常填写问卷',
+  'api.riskRejected': '检测到异常行为',
+  'api.riskRejectedHint': '请刷新页面后正常填写问卷',
+  'api.validationFailed': '数据验证失败',
+  'api.validationFailedHint': '提交的数据不符合要求',
+  'api.dbTimeout': '数据库操作超时',
+  'api.dbTimeoutHint': '服务器繁忙，请稍后重试',
+  'api.submitSuccess': '提交成功',
+  'api.submitFailed': '提交失败',
+  'api.submitFailedHint': '服务器处理请求时发生错误，请稍后重试',
+  'api.statsFailed': '获取数据失败',
+  'api.statsFailedHint': '服务器处理请求时发生错误',
+  'api.unauthorized': '未授权',
+  'api.adminNotConfigured': '管理接口未启用，请配置 ADMIN_SECRET',
+  'api.invalidRequest': '无效的请求参数',
+  'api.quarantineFailed': '处理隔离数据失败',
+  'api.alertsFailed': '处理告警失败',
+  'api.dataQualityFailed': '获取数据质量报告失败',
+  'api.rebuildStatsFailed': '重算统计失败',
+} as const;
@@ -0,0 +1,268 @@
+/**
+ * 繁體中文
+ */
+
+import type { Messages, QuestionCatalog } from '../i18n';
+
+export const messages: Messages = {
+  'common.months': '個月',
+  'common.people': '人',
+  'common.confirm': '確認記錄',
+  'common.viewData': '查看現有數據',
+
+  'intro.title': '算賬',
+  'intro.privacy': '不記錄 IP，不記錄身份。',
+  'intro.description': '我們需要你個人的真實數據（如實發薪資月數），也需要你對周圍環境的客觀觀察。',
+  'intro.purpose': '數據將用於生成 {year} 年度全網生存狀況看板。',
+  'intro.start': '開始匿名記錄',
+  'intro.closed': '本期調查已結束',
+  'intro.viewData': '直接查看現有數據',
+  'intro.starting': '正在建立匿名會話...',
+  'intro.startFailed': '無法開始作答，請稍後重試',
+  'intro.startCooldown': '目前開始作答的人太多，{seconds} 秒後自動重試',
+
+  'survey.sliderHint': '（拖動滑桿調整數字）',
+  'survey.submit': '確認提交',
+  'survey.submitting': '提交中...',
+  'survey.retryIn': '{seconds} 秒後重試',
+  'survey.loadingCaptcha': '載入人機驗證中...',
+  'survey.footer': '此數據僅用於生成匿名統計',
+  'survey.captchaStatus': '人機驗證 ({provider}) 狀態: {status}',
+  'survey.captchaLoaded': '✓ 已載入',
+  'survey.captchaLoading': '⏳ 載入中...',
+  'survey.captchaMissingKey': '⚠️ 缺少 SITE_KEY',
+  'survey.captchaMock': '我不是機器人（本地測試）',
+  'survey.captchaInvisible': '本站使用 reCAPTCHA 進行無感人機驗證',
+  'survey.powSolving': '正在背景完成安全計算...',
+  'survey.powSolved': '✓ 安全計算已完成',
+  'survey.powFailed': '安全計算失敗，請重新整理頁面重試',
+
+  'submit.captchaSlow': '人機驗證載入較慢，如提交失敗請重新整理頁面重試',
+  'submit.captchaNotLoaded': '人機驗證元件未載入，請重新整理頁面重試',
+  'submit.captchaRequired': '請完成人機驗證',
+  'submit.captchaLoadFailed': '人機驗證載入失敗，請重新整理頁面重試',
+  'submit.captchaExpired': '人機驗證已過期，請重新驗證',
+  'submit.tooFrequent': '提交過於頻繁，請稍後再試',
+  'submit.clientRateLimited': '您已達到提交限制（每小時最多 {max} 次）。請在 {time} 後再試。',
+  'submit.invalidAnswers': '請檢查答案：{details}',
+  'submit.abnormalBehavior': '偵測到異常行為：{reason}，請正常填寫問卷',
+  'submit.failed': '提交失敗，請稍後重試',
+  'submit.serverCooldown': '伺服器繁忙，答案已保留，{seconds} 秒後自動提交',
+
+  // 風險評分規則（提示命中原因）
+  'risk.behaviorMissing': '缺少互動數據',
+  'risk.behaviorIdle': '長時間無活動',
+  'risk.noPointer': '缺少正常互動',
+  'risk.lowPointer': '互動較少',
+  'risk.fewClicks': '點擊次數過少',
+  'risk.noScrollOrKeys': '沒有捲動或鍵盤操作',
+  'risk.fast': '作答時間過短',
+  'risk.speeding': '多道題作答過快',
+  'risk.straightlining': '矩陣題所有子項選擇相同',
+  'risk.captchaFallback': '人機驗證需要補充驗證',
+  'risk.firstOption': '總是選擇第一個選項',
+  'risk.allOptions': '多選題選擇了全部選項',
+
+  'result.errorTitle': '提交失敗',
+  'result.possibleReasons': '可能的原因：',
+  'result.reasonFrequency': '提交過於頻繁（每小時最多 3 次）',
+  'result.reasonNetwork': '網路連線問題',
+  'result.reasonServer': '伺服器暫時無法使用',
+  'result.retry': '返回重試',
+  'result.successTitle': '數據已加密歸檔',
+  'result.successDescription': '您的個人數據與環境觀察記錄已混入匿名數據池。',
+  'result.sessionReset': '本地 Session 已重置。',
+  'result.noLogs': '未關聯任何身份 ID。請勿截圖分享本頁。',
+  'result.viewStats': '查看全網統計數據',
+  'result.leave': '關閉 / 離開',
+
+  'dashboard.title': '{year} 全網賬本',
+  'dashboard.back': '返回首頁',
+  'dashboard.cooldown': '請求過於頻繁，{seconds} 秒後自動重新整理',
+  'dashboard.medianMonths': '實發薪資中位數',
+  'dashboard.meanMonths': '平均值',
+  'dashboard.quartileMonths': '中間 50%',
+  'dashboard.belowFullYear': '低於 12 個月',
+  'dashboard.total': '樣本總數',
+  'dashboard.arrearsRate': '樣本欠薪率',
+  'dashboard.arrearsSafe': '按時發放',
+  'dashboard.arrearsRisk': '遭遇欠薪',
+  'dashboard.arrearsNote': '紅色區域代表存在拖欠行為',
+  'dashboard.personalVsFriends': '個人實感 vs 環境觀察',
+  'dashboard.personalGrowth': '個人實況: 增長',
+  'dashboard.personalStable': '個人實況: 持平',
+  'dashboard.personalDecline': '個人實況: 下跌',
+  'dashboard.friendsBetter': '環境體感: 普遍好',
+  'dashboard.friendsWorse': '環境體感: 普遍差',
+  'dashboard.personalVsFriendsNote': '藍色: 個人實際 | 灰色: 觀察到的環境',
+  'dashboard.salaryHistogram': '實發薪資月數分布',
+  'dashboard.salaryHistogramNote': '紅色: 低於 12 個月（年終獎取消或扣薪）',
+  'dashboard.payComponents': '收入組成變化',
+  'dashboard.welfareCut': '福利縮水（多選）',
+  'dashboard.welfareCutNote': '比例 = 選擇該項的人數 / 回答該題的人數，可多選，合計可超過 100%',
+  'dashboard.welfareCutPairs': '福利縮水同時出現',
+  'dashboard.welfareCutPairsNote': '格子中的數字為同時選擇兩項的人數，顏色越深人數越多',
+  'dashboard.arrearsPerception': '社交圈中的欠薪',
+  'dashboard.share': '佔比',
+  'dashboard.insights': '數據洞察',
+  'dashboard.insightMonths': '「實發薪資中位數」是衡量行業健康度的金標準。低於 12 個月意味著大規模的年終獎取消或扣薪。',
+  'dashboard.insightBias': '觀察「個人實況」與「環境體感」的差值。如果環境普遍惡化（灰色條長），但個人大多持平（藍色條長），可能存在「倖存者偏差」——即只有狀況尚可的人才願意填寫問卷。',
+
+  'api.csrfFailed': '請求來源驗證失敗',
+  'api.csrfFailedHint': '請從正確的頁面提交問卷',
+  'api.serverBusy': '伺服器繁忙',
+  'api.tooManySubmissions': '目前提交人數過多，請稍後再試',
+  'api.tooManySessions': '目前開始作答的人數過多，請稍後再試',
+  'api.deviceLimitReached': '提交次數已達上限',
+  'api.deviceLimitReachedHint': '同一裝置今天的提交次數已達上限，感謝參與，請明天再試',
+  'api.tooManyRequests': '請求過於頻繁',
+  'api.retryLater': '請稍後再試',
+  'api.payloadTooLarge': '請求數據過大',
+  'api.payloadTooLargeHint': '提交的數據超過大小限制',
+  'api.invalidJson': '無效的請求格式',
+  'api.invalidJsonHint': '請求數據格式錯誤',
+  'api.editionClosed': '本期調查已結束',
+  'api.editionClosedHint': '該期問卷已停止收集，請重新整理頁面參與最新一期',
+  'api.invalidEdition': '無效的期次',
+  'api.invalidEditionHint': '請求的問卷期次不存在',
+  'api.captchaFailed': '人機驗證失敗',
+  'api.captchaNotConfigured': '人機驗證服務未正確設定，請聯絡管理員',
+  'api.captchaMissing': '人機驗證 token 缺失',
+  'api.captchaRejected': '人機驗證失敗，請重試',
+  'api.captchaUnavailable': '人機驗證服務異常，請稍後重試',
+  'api.captchaExpired': '人機驗證已過期，請重新驗證',
+  'api.captchaFallbackRequired': '需要補充驗證，請完成下方的人機驗證後重新提交（已填寫的答案不會遺失）',
+  'api.challengeUnavailable': '無法取得安全驗證題目',
+  'api.challengeUnavailableHint': '伺服器暫時無法產生驗證題目，請稍後重試',
+  'api.invalidSubmission': '無效的提交請求',
+  'api.refreshAndRetry': '請重新整理頁面後重試',
+  'api.tokenInvalid': 'Token無效，請重新整理頁面後重試',
+  'api.sessionExpired': '作答會話已過期',
+  'api.sessionExpiredHint': '作答時間超過 10 分鐘，請返回首頁重新開始',
+  'api.sessionUnavailable': '無法開始作答',
+  'api.sessionUnavailableHint': '伺服器暫時無法建立作答會話，請稍後重試',
+  'api.behavior.invalidFormat': '無效的行為數據格式',
+  'api.behavior.invalidValue': '行為數據包含無效值',
+  'api.behavior.timeAnomaly': '偵測到異常行為：時間數據異常',
+  'api.behavior.tooFast': '偵測到異常行為：停留時間過短，請正常填寫問卷',
+  'api.riskRejected': '偵測到異常行為',
+  'api.riskRejectedHint': '請重新整理頁面後正常填寫問卷',
+  'api.validationFailed': '數據驗證失敗',
+  'api.validationFailedHint': '提交的數據不符合要求',
+  'api.dbTimeout': '資料庫操作逾時',
+  'api.dbTimeoutHint': '伺服器繁忙，請稍後重試',
+  'api.submitSuccess': '提交成功',
+  'api.submitFailed': '提交失敗',
+  'api.submitFailedHint': '伺服器處理請求時發生錯誤，請稍後重試',
+  'api.statsFailed': '取得數據失敗',
+  'api.statsFailedHint': '伺服器處理請求時發生錯誤',
+  'api.unauthorized': '未授權',
+  'api.adminNotConfigured': '管理介面未啟用，請設定 ADMIN_SECRET',
+  'api.invalidRequest': '無效的請求參數',
+  'api.quarantineFailed': '處理隔離資料失敗',
+  'api.alertsFailed': '處理告警失敗',
+  'api.dataQualityFailed': '取得資料品質報告失敗',
+  'api.rebuildStatsFailed': '重算統計失敗',
+};
+
+export const questionCatalog: QuestionCatalog = {
+  industry: {
+    question: '第一步，確認你的行業座標',
+    sub: '這決定了你在風暴中的位置。',
+    options: {
+      public_sector: '公務員/體制內 (岸上)',
+      new_energy_tech: '新能源/硬科技/出海',
+      internet: '網際網路/大廠',
+      real_estate: '房地產/建築/設計',
+      finance: '金融/證券/投資',
+      manufacturing: '製造業/外貿/實體',
+      service_retail: '餐飲/服務/零售',
+      freelance_unemployed: '自由職業/待業',
+    },
+  },
+  salary_months: {
+    question: '{year}年，你個人實際到手了多少個月薪水？',
+    sub: '包含年終獎折算。如果是12薪就是12，發不出就是0。',
+    unit: '個月',
+  },
+  personal_income: {
+    question: '與去年相比，你個人的年收入變化？',
+    sub: '指稅後到手總包。',
+    options: {
+      growth: '逆勢增長 (漲幅 > 10%)',
+      stable: '基本持平 (波動 < 10%)',
+      mild_decline: '溫和下跌 (跌幅 10%-30%)',
+      severe_decline: '嚴重下跌 (跌幅 > 30%)',
+      halved_or_zero: '腰斬/失業歸零',
+    },
+  },
+  personal_arrears: {
+    question: '你目前遭遇過欠薪嗎？',
+    sub: '包括績效被扣、無理由緩發。',
+    options: {
+      never: '從未欠薪，按時發放',
+      delayed_then_paid: '偶爾延遲，最終發了',
+      owed_under_3m: '正在被拖欠 (3個月以內)',
+      owed_over_6m: '正在被拖欠 (半年以上/無望)',
+    },
+  },
+  pay_components_change: {
+    question: '與去年相比，你收入的各個組成部分怎麼變了？',
+    sub: '逐項選擇。沒有這一項就選「本來就沒有」。',
+    rows: {
+      base_pay: '基本工資',
+      bonus: '獎金/績效',
+      overtime_pay: '加班費',
+      social_insurance: '社保/公積金',
+    },
+    options: {
+      increased: '增加',
+      unchanged: '不變',
+      decreased: '減少',
+      gone: '取消/停發',
+      not_applicable: '本來就沒有',
+    },
+  },
+  friends_status: {
+    question: '據你觀察，你周圍親友/同事的普遍狀態是？',
+    sub: '旁觀者清。談論別人比談論自己更客觀。',
+    options: {
+      better: '普遍在漲薪/跳槽，行情不錯',
+      mixed: '只有極個別能力強的在漲，大部分苟著',
+      worse: '大家都在降薪/被裁，怨氣很重',
+      protesting: '都在談論維權/討薪，情況惡劣',
+    },
+  },
+  friends_arrears_perception: {
+    question: '在你的社交圈裡，「欠薪」這件事...',
+    sub: '是一個罕見的詞，還是高頻詞？',
+    options: {
+      rare: '幾乎沒聽說過 (罕見)',
+      occasional: '聽說過一兩個案例 (偶發)',
+      common: '經常聽到有人抱怨 (普遍)',
+      widespread: '幾乎各行各業都在發生 (氾濫)',
+    },
+  },
+  attention_check: {
+    question: '這是一道注意力檢查題，請直接選擇第三項',
+    sub: '用於剔除隨手亂點的回覆，不影響你的其他答案。',
+    options: {
+      option_1: '第一項',
+      option_2: '第二項',
+      option_3: '第三項',
+      option_4: '第四項',
+    },
+  },
+  welfare_cut: {
+    question: '最後，今年哪些隱形福利消失了？',
+    sub: '多選。如果本來就沒有，選「維持原狀」。',
+    options: {
+      housing_fund_cut: '公積金/社保基數調降',
+      bonus_gone: '年終獎/13薪 消失',
+      allowance_cut: '加班費/打車餐補 取消',
+      severance_cut: '裁員賠償 N+1 變 N 或更少',
+      unchanged: '沒有任何福利縮水/維持原狀',
+      increased: '福利反而增加了',
+    },
+  },
+};
@@ -0,0 +1,99 @@
+/**
+ * 多选题选项约束
+ * 客户端（自动取消冲突选项）和服务端（校验）共用同一套规则，保证两端行为一致
+ *
+ * 支持的约束（配置见 lib/questions.ts）：
+ * 1. 互斥选项（exclusive）：不能与任何其他选项同时选择
+ * 2. 互不相容的选项组（incompatibleGroups）：不同组的选项不能同时选择
+ * 3. 选择数量（minSelections / maxSelections）
+ */
+
+import type { Question } from './questions';
+
+/**
+ * 获取最少选择数量
+ */
+export function getMinSelections(question: Question): number {
+  return question.minSelections ?? 1;
+}
+
+/**
+ * 获取最多选择数量
+ */
+export function getMaxSelections(question: Question): number {
+  return question.maxSelections ?? question.options?.length ?? 0;
+}
+
+/**
+ * 判断两个选项是否冲突
+ */
+export function isConflicting(question: Question, a: string, b: string): boolean {
+  if (a === b) return false;
+
+  // 1. 互斥选项与任何其他选项冲突
+  const isExclusive = (code: string) =>
+    question.options?.some(opt => opt.code === code && opt.exclusive) ?? false;
+  if (isExclusive(a) || isExclusive(b)) return true;
+
+  // 2. 分属不同的互不相容组
+  const groupA = question.incompatibleGroups?.findIndex(group => group.includes(a)) ?? -1;
+  const groupB = question.incompatibleGroups?.findIndex(group => group.includes(b)) ?? -1;
+  return groupA !== -1 && groupB !== -1 && groupA !== groupB;
+}
+
+/**
+ * 切换选项（客户端使用）
+ * - 已选中：取消选择
+ * - 未选中：选中，并自动取消与其冲突的已选项；超过最多选择数量时不做改变
+ */
+export function toggleMultiOption(
+  question: Question,
+  selected: readonly string[],
+  code: string
+): string[] {
+  if (selected.includes(code)) {
+    return selected.filter(c => c !== code);
+  }
+
+  const kept = selected.filter(c => !isConflicting(question, c, code));
+  if (kept.length >= getMaxSelections(question)) {
+    return [...selected];
+  }
+
+  return [...kept, code];
+}
+
+/**
+ * 检查选择是否满足约束，返回错误信息列表（空数组表示通过）
+ * 注意：只检查约束，选项编码是否有效由调用方负责
+ */
+export function checkMultiConstraints(question: Question, selected: readonly string[]): string[] {
+  const errors: string[] = [];
+  const min = getMinSelections(question);
+  const max = getMaxSelections(question);
+
+  // 1. 检查选择数量
+  if (selected.length < min) {
+    errors.push(`${question.id} 至少需要选择 ${min} 项`);
+  } else if (selected.length > max) {
+    errors.push(`${question.id} 最多只能选择 ${max} 项`);
+  }
+
+  // 2. 检查重复选项
+  if (new Set(selected).size !== selected.length) {
+    errors.push(`${question.id} 包含重复选项`);
+  }
+
+  // 3. 检查冲突选项
+  for (let i = 0; i < selected.length; i++) {
+    for (let j = i + 1; j < selected.length; j++) {
+      const a = selected[i];
+      const b = selected[j];
+      if (a !== undefined && b !== undefined && isConflicting(question, a, b)) {
+        errors.push(`${question.id} 选项 ${a} 与 ${b} 不能同时选择`);
+      }
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,128 @@
+/**
+ * 选项顺序随机化
+ * 客户端（生成并展示随机顺序）和服务端（校验、入库）共用同一套规则
+ *
+ * 规则（配置见 lib/questions.ts）：
+ * 1. 只有设置了 shuffle 的问题会打乱选项顺序，量表类问题保持原顺序
+ * 2. 设置了 pinned 的选项固定在原位置（例如"自由职业/待业"始终排在最后），其余选项在剩余位置中随机排列
+ * 3. 每位答题者在开始答题时生成一次顺序，答题过程中保持不变
+ *
+ * 匿名化：提交时只记录展示给答题者的选项编码顺序，不包含随机种子、时间或设备信息
+ */
+
+import { questions, isQuestionVisible, type Question, type QuestionOption } from './questions';
+
+/**
+ * 展示顺序：问题 id -> 按展示顺序排列的选项编码
+ */
+export type OptionOrder = Partial<Record<string, string[]>>;
+
+/**
+ * 判断问题是否需要打乱选项顺序
+ */
+export function isShuffled(question: Question): boolean {
+  return !!question.shuffle && (question.options?.length ?? 0) > 1;
+}
+
+/**
+ * 生成单个问题的随机展示顺序（固定选项保持原位置）
+ * 使用 Fisher-Yates 洗牌，random 参数便于复现
+ */
+export function shuffleOptionCodes(question: Question, random: () => number = Math.random): string[] {
+  const options = question.options ?? [];
+  const movable = options.filter(opt => !opt.pinned).map(opt => opt.code);
+
+  for (let i = movable.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    const a = movable[i];
+    const b = movable[j];
+    if (a !== undefined && b !== undefined) {
+      movable[i] = b;
+      movable[j] = a;
+    }
+  }
+
+  // 固定选项放回原位置，其余位置依次填入打乱后的选项
+  let next = 0;
+  return options.map(opt => (opt.pinned ? opt.code : movable[next++] ?? opt.code));
+}
+
+/**
+ * 为所有需要打乱的问题生成展示顺序（客户端开始答题时调用一次）
+ */
+export function createOptionOrder(random: () => number = Math.random): OptionOrder {
+  const order: OptionOrder = {};
+  for (const question of questions) {
+    if (isShuffled(question)) {
+      order[question.id] = shuffleOptionCodes(question, random);
+    }
+  }
+  return order;
+}
+
+/**
+ * 按展示顺序排列选项（没有记录顺序时保持配置顺序）
+ */
+export function orderOptions(question: Question, order: OptionOrder): readonly QuestionOption[] {
+  const options = question.options ?? [];
+  const codes = order[question.id];
+  if (!codes) return options;
+
+  return codes
+    .map(code => options.find(opt => opt.code === code))
+    .filter((opt): opt is QuestionOption => opt !== undefined);
+}
+
+/**
+ * 只保留实际展示过的问题的顺序（被跳过的问题不记录）
+ */
+export function getPresentedOrder(order: OptionOrder, answers: Record<string, unknown>): OptionOrder {
+  const presented: OptionOrder = {};
+  for (const question of questions) {
+    const codes = order[question.id];
+    if (codes && isShuffled(question) && isQuestionVisible(question, answers)) {
+      presented[question.id] = codes;
+    }
+  }
+  return presented;
+}
+
+/**
+ * 校验提交的展示顺序，返回错误信息列表（空数组表示通过）
+ * 1. 只能包含需要打乱且已显示的问题
+ * 2. 每个顺序必须是该问题全部选项编码的一个排列
+ * 3. 固定选项必须在原位置
+ * 未提交展示顺序（undefined）视为通过，入库时记为 NULL
+ */
+export function validateOptionOrder(value: unknown, answers: Record<string, unknown>): string[] {
+  if (value === undefined) return [];
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return ['optionOrder 格式无效'];
+  }
+
+  const errors: string[] = [];
+  for (const [id, codes] of Object.entries(value)) {
+    const question = questions.find(q => q.id === id);
+    if (!question || !isShuffled(question) || !isQuestionVisible(question, answers)) {
+      errors.push(`optionOrder 包含无效问题: ${id}`);
+      continue;
+    }
+
+    const options = question.options ?? [];
+    if (
+      !Array.isArray(codes) ||
+      codes.length !== options.length ||
+      new Set(codes).size !== codes.length ||
+      !options.every(opt => codes.includes(opt.code))
+    ) {
+      errors.push(`optionOrder.${id} 不是有效的选项排列`);
+      continue;
+    }
+
+    if (options.some((opt, index) => opt.pinned && codes[index] !== opt.code)) {
+      errors.push(`optionOrder.${id} 固定选项位置错误`);
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,57 @@
+/**
+ * 工作量证明的公共格式（服务端、客户端和 Web Worker 共用，不依赖 Node.js 模块）
+ *
+ * 题目：服务端签发随机 salt 和难度 difficulty（前导零比特数）
+ * 解答：找到 nonce，使 SHA-256(`${salt}:${nonce}`) 至少有 difficulty 个前导零比特
+ * 提交：人机验证 token 为 `${challenge}:${nonce}`（challenge 为服务端签名的题目 token）
+ */
+
+export interface PowChallenge {
+  // 服务端签名的题目 token（提交时原样带回）
+  challenge: string;
+  salt: string;
+  difficulty: number;
+  expiresAt: number;
+}
+
+/**
+ * 计算哈希的输入
+ */
+export function powInput(salt: string, nonce: number): string {
+  return `${salt}:${nonce}`;
+}
+
+/**
+ * 统计哈希的前导零比特数
+ */
+export function leadingZeroBits(hash: Uint8Array): number {
+  let bits = 0;
+  for (const byte of hash) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+/**
+ * 编码解答（作为人机验证 token 提交）
+ */
+export function encodePowSolution(challenge: string, nonce: number): string {
+  return `${challenge}:${nonce}`;
+}
+
+/**
+ * 解码解答（格式无效时返回 null）
+ */
+export function decodePowSolution(token: string): { challenge: string; nonce: number } | null {
+  const index = token.lastIndexOf(':');
+  if (index <= 0) return null;
+
+  const nonceText = token.substring(index + 1);
+  if (!/^\d{1,15}$/.test(nonceText)) return null;
+
+  return { challenge: token.substring(0, index), nonce: Number(nonceText) };
+}
@@ -0,0 +1,116 @@
+/**
+ * 工作量证明（服务端）
+ * 自建的人机验证替代方案，不依赖任何境外服务（Google 等服务不可用的地区也能提交）
+ *
+ * 流程：
+ * 1. 用户开始答题时，客户端向 /api/survey/challenge 申请题目
+ * 2. 浏览器在 Web Worker 中后台计算（用户答题期间完成）
+ * 3. 提交时服务端验证签名、有效期和哈希，并将题目标记为已使用（一次性）
+ *
+ * 难度随全站流量自动提高：开始答题（session 桶）或提交（write 桶）的流量越接近速率限制，计算量越大，
+ * 批量提交的成本越高；两个桶取负载较高的一个，只刷提交或只刷开始答题都会提高难度
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { createSignedToken, readSignedToken } from './signed-token';
+import { getRateLimitLoad, consumeOneTimeToken } from './rate-limit';
+import { MAX_SESSION_DURATION } from './survey-session';
+import {
+  powInput,
+  leadingZeroBits,
+  decodePowSolution,
+  type PowChallenge,
+} from './proof-of-work-format';
+
+// 基础难度（前导零比特数），每增加 1 计算量翻倍；16 约为普通手机数秒的计算量
+const BASE_DIFFICULTY = parseInt(process.env['POW_BASE_DIFFICULTY'] || '16');
+// 难度上限（防止配置错误导致无法提交）
+const MAX_DIFFICULTY = 24;
+
+// 按负载提高难度（负载 = 窗口内请求数 / 限制，取 session 和 write 桶中较高的）
+const LOAD_STEPS = [
+  { load: 0.8, extra: 4 },
+  { load: 0.5, extra: 2 },
+];
+
+// 题目有效期与答题会话一致（用户在答题期间后台计算）
+const CHALLENGE_VALIDITY = MAX_SESSION_DURATION;
+
+/**
+ * 按当前负载计算难度
+ */
+export async function getCurrentDifficulty(): Promise<number> {
+  const loads = await Promise.all([getRateLimitLoad('session'), getRateLimitLoad('write')]);
+  const load = Math.max(...loads);
+  const extra = LOAD_STEPS.find(step => load >= step.load)?.extra ?? 0;
+  return Math.min(BASE_DIFFICULTY + extra, MAX_DIFFICULTY);
+}
+
+/**
+ * 签发题目
+ */
+export async function issuePowChallenge(): Promise<PowChallenge> {
+  const difficulty = await getCurrentDifficulty();
+  const payload = {
+    id: randomBytes(16).toString('hex'),
+    salt: randomBytes(16).toString('hex'),
+    difficulty,
+    expiresAt: Date.now() + CHALLENGE_VALIDITY,
+  };
+
+  return {
+    challenge: createSignedToken(payload),
+    salt: payload.salt,
+    difficulty,
+    expiresAt: payload.expiresAt,
+  };
+}
+
+/**
+ * 验证并消耗解答
+ * 1. 检查格式和签名
+ * 2. 检查有效期
+ * 3. 检查哈希是否满足难度
+ * 4. 将题目标记为已使用（同一题目只能提交一次）
+ */
+export async function verifyPowSolution(token: string): Promise<{ valid: boolean; reason?: string }> {
+  // 1. 检查格式和签名
+  const solution = decodePowSolution(token);
+  if (!solution) {
+    return { valid: false, reason: '解答格式无效' };
+  }
+
+  const { valid, payload, reason } = readSignedToken(solution.challenge);
+  if (!valid || !payload) {
+    return { valid: false, reason: `题目 ${reason ?? 'token 无效'}` };
+  }
+
+  const { id, salt, difficulty, expiresAt } = payload;
+  if (
+    typeof id !== 'string' ||
+    typeof salt !== 'string' ||
+    typeof difficulty !== 'number' ||
+    typeof expiresAt !== 'number'
+  ) {
+    return { valid: false, reason: '题目内容无效' };
+  }
+
+  // 2. 检查有效期
+  if (Date.now() > expiresAt) {
+    return { valid: false, reason: '题目已过期' };
+  }
+
+  // 3. 检查哈希
+  const hash = createHash('sha256').update(powInput(salt, solution.nonce)).digest();
+  if (leadingZeroBits(hash) < difficulty) {
+    return { valid: false, reason: '解答不满足难度要求' };
+  }
+
+  // 4. 一次性使用
+  const consumed = await consumeOneTimeToken(`pow:${id}`, new Date(expiresAt));
+  if (!consumed) {
+    return { valid: false, reason: '题目已被使用' };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,25 @@
+/**
+ * 工作量证明 Web Worker
+ * 在后台线程中逐个尝试 nonce，不阻塞答题界面
+ * 收到 { salt, difficulty }，找到解答后返回 { nonce }，超出尝试上限时返回 { error }
+ */
+
+import { powInput, leadingZeroBits } from './proof-of-work-format';
+
+const encoder = new TextEncoder();
+
+self.onmessage = async (event: MessageEvent<{ salt: string; difficulty: number }>) => {
+  const { salt, difficulty } = event.data;
+  // 期望尝试次数为 2^difficulty，上限取其 256 倍，避免异常参数导致无限计算
+  const maxAttempts = 2 ** (difficulty + 8);
+
+  for (let nonce = 0; nonce < maxAttempts; nonce++) {
+    const digest = await crypto.subtle.digest('SHA-256', encoder.encode(powInput(salt, nonce)));
+    if (leadingZeroBits(new Uint8Array(digest)) >= difficulty) {
+      self.postMessage({ nonce });
+      return;
+    }
+  }
+
+  self.postMessage({ error: 'max attempts exceeded' });
+};
@@ -0,0 +1,126 @@
+/**
+ * 每题停留时长（客户端和服务端共用）
+ *
+ * 客户端记录每道题的停留时长（毫秒，只按问题 id 汇总，不含任何其他信息），随提交一起发送；
+ * 服务端按题目最短阅读时长判断是否过快（speeding）和矩阵题是否一路同选（straightlining），计入风险分，
+ * 入库时只保留粗粒度的时长区间（timing_buckets），用于之后的数据质量分析
+ */
+
+import { questions, isQuestionVisible, type Question, type QuestionType } from './questions';
+
+// 问题 id -> 停留时长（毫秒）
+export type QuestionTimings = Partial<Record<string, number>>;
+
+// 各题型默认的最短停留时长（毫秒），可在问题配置中用 minDwellMs 覆盖
+const DEFAULT_MIN_DWELL: Record<QuestionType, number> = {
+  choice: 1500,
+  range: 2000,
+  multi: 2500,
+  matrix: 3000,
+  attention: 1500,
+};
+// 矩阵题每个子项额外需要的时长
+const MATRIX_ROW_DWELL = 1000;
+
+// 单题停留时长上限（与答题会话有效期一致）
+const MAX_DWELL = 10 * 60 * 1000;
+
+// 过快：至少一半的题目低于最短停留时长
+const SPEEDING_RATIO = 0.5;
+
+// 入库的时长区间（上界，毫秒）
+const TIMING_BUCKETS = [
+  { bucket: 'lt2s', below: 2000 },
+  { bucket: '2to5s', below: 5000 },
+  { bucket: '5to10s', below: 10000 },
+  { bucket: '10to30s', below: 30000 },
+] as const;
+
+export type TimingBucket = (typeof TIMING_BUCKETS)[number]['bucket'] | 'gte30s';
+
+/**
+ * 问题的最短停留时长
+ */
+export function getMinDwell(question: Question): number {
+  if (question.minDwellMs !== undefined) return question.minDwellMs;
+  const base = DEFAULT_MIN_DWELL[question.type];
+  return question.type === 'matrix'
+    ? Math.max(base, (question.rows?.length ?? 0) * MATRIX_ROW_DWELL)
+    : base;
+}
+
+/**
+ * 验证停留时长（未提交时跳过；只能包含显示过的问题，值为合理范围内的毫秒数）
+ */
+export function validateQuestionTimings(value: unknown, answers: Record<string, unknown>): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return ['questionTimings 必须是对象'];
+  }
+
+  const errors: string[] = [];
+  for (const [id, dwell] of Object.entries(value as Record<string, unknown>)) {
+    const question = questions.find(q => q.id === id);
+    if (!question || !isQuestionVisible(question, answers)) {
+      errors.push(`questionTimings 包含未显示的问题: ${id}`);
+    } else if (typeof dwell !== 'number' || !Number.isFinite(dwell) || dwell < 0 || dwell > MAX_DWELL) {
+      errors.push(`questionTimings.${id} 无效`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * 低于最短停留时长的题目
+ */
+export function findSpeededQuestions(timings: QuestionTimings): string[] {
+  return questions
+    .filter(question => {
+      const dwell = timings[question.id];
+      return dwell !== undefined && dwell < getMinDwell(question);
+    })
+    .map(question => question.id);
+}
+
+/**
+ * 是否整体过快：有记录的题目中至少一半低于最短停留时长
+ */
+export function isSpeeding(timings: QuestionTimings): boolean {
+  const recorded = Object.keys(timings).length;
+  return recorded > 0 && findSpeededQuestions(timings).length / recorded >= SPEEDING_RATIO;
+}
+
+/**
+ * 矩阵题一路同选且作答过快（所有子项选同一个选项本身可能是真实情况，例如"不变"，
+ * 只有同时低于两倍最短停留时长才算）
+ */
+export function findStraightlinedQuestions(
+  answers: Record<string, unknown>,
+  timings: QuestionTimings
+): string[] {
+  return questions
+    .filter(question => {
+      const answer = answers[question.id];
+      const dwell = timings[question.id];
+      if (question.type !== 'matrix' || !answer || typeof answer !== 'object' || dwell === undefined) {
+        return false;
+      }
+      const values = Object.values(answer as Record<string, unknown>);
+      return values.length >= 3 && new Set(values).size === 1 && dwell < getMinDwell(question) * 2;
+    })
+    .map(question => question.id);
+}
+
+/**
+ * 转换为入库的粗粒度区间
+ */
+export function toTimingBuckets(timings: QuestionTimings): Partial<Record<string, TimingBucket>> {
+  const buckets: Partial<Record<string, TimingBucket>> = {};
+  for (const [id, dwell] of Object.entries(timings)) {
+    if (dwell === undefined) continue;
+    buckets[id] = TIMING_BUCKETS.find(b => dwell < b.below)?.bucket ?? 'gte30s';
+  }
+  return buckets;
+}
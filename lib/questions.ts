@@ -1,39 +1,84 @@
 // 问卷问题配置
+// 这里是问卷结构的唯一来源：校验规则、答案类型和入库字段都由它推导
+// attention: 注意力检查题，按单选题作答，答错只标记回复为低质量（见 failedAttentionChecks），不计入统计和看板
+export type QuestionType = 'choice' | 'range' | 'multi' | 'matrix' | 'attention';
+
+/**
+ * 选项配置
+ * code 是入库和统计使用的稳定编码，一旦上线不可修改；label 仅用于展示，可随时调整文案
+ */
+export interface QuestionOption {
+  code: string;
+  label: string;
+  // 多选题：互斥选项，选中后不能再选其他任何选项（如"维持原状"）
+  exclusive?: boolean;
+  // 打乱顺序时固定在原位置（如"其他"类选项始终排在最后）
+  pinned?: boolean;
+}
+
+/**
+ * 显示条件（跳题逻辑）
+ * 只能引用排在当前问题之前的问题，按前题答案的选项编码判断：
+ * - in: 前题答案（多选题为任一选项）命中其中之一时显示
+ * - notIn: 前题答案（多选题为全部选项）都不在其中时显示
+ */
+export interface QuestionCondition {
+  question: string;
+  in?: readonly string[];
+  notIn?: readonly string[];
+}
+
 export interface Question {
   id: string;
-  type: 'choice' | 'range' | 'multi';
+  type: QuestionType;
+  // 可包含 {year} 占位符，展示时替换为当前期次年份
   question: string;
   sub?: string;
-  options?: string[];
+  options?: readonly QuestionOption[];
   min?: number;
   max?: number;
   step?: number;
   unit?: string;
+  showIf?: QuestionCondition;
+  // 矩阵题的子项（每个子项使用 options 中同一套量表作答）
+  rows?: readonly QuestionOption[];
+  // 多选题：互不相容的选项组，不同组的选项不能同时选择
+  incompatibleGroups?: readonly (readonly string[])[];
+  // 多选题：选择数量限制（默认至少 1 项，最多不超过选项总数）
+  minSelections?: number;
+  maxSelections?: number;
+  // 是否为每位答题者随机打乱选项顺序（减少顺序偏差，量表类问题不要设置），规则见 lib/option-order.ts
+  shuffle?: boolean;
+  // 最短停留时长（毫秒，低于此值视为没有读题），默认按题型，规则见 lib/question-timing.ts
+  minDwellMs?: number;
+  // 注意力检查题：正确答案的选项编码（不要设置 shuffle，题干通常按位置指定选项）
+  expected?: string;
 }
 
-export const questions: Question[] = [
+const questionDefinitions = [
   // --- 第一部分：坐标 ---
   {
     id: 'industry',
     type: 'choice',
     question: '第一步，确认你的行业坐标',
     sub: '这决定了你在风暴中的位置。',
+    shuffle: true,
     options: [
-      '公务员/体制内 (岸上)',
-      '新能源/硬科技/出海',
-      '互联网/大厂',
-      '房地产/建筑/设计',
-      '金融/证券/投资',
-      '制造业/外贸/实体',
-      '餐饮/服务/零售',
-      '自由职业/待业'
+      { code: 'public_sector', label: '公务员/体制内 (岸上)' },
+      { code: 'new_energy_tech', label: '新能源/硬科技/出海' },
+      { code: 'internet', label: '互联网/大厂' },
+      { code: 'real_estate', label: '房地产/建筑/设计' },
+      { code: 'finance', label: '金融/证券/投资' },
+      { code: 'manufacturing', label: '制造业/外贸/实体' },
+      { code: 'service_retail', label: '餐饮/服务/零售' },
+      { code: 'freelance_unemployed', label: '自由职业/待业', pinned: true }
     ]
   },
   // --- 第二部分：个人实况 (恢复滑块) ---
   {
     id: 'salary_months',
     type: 'range',
-    question: '2025年，你个人实际到手了多少个月薪水？',
+    question: '{year}年，你个人实际到手了多少个月薪水？',
     sub: '包含年终奖折算。如果是12薪就是12，发不出就是0。',
     min: 0,
     max: 18, 
@@ -46,11 +91,11 @@ export const questions: Question[] = [
     question: '与去年相比，你个人的年收入变化？',
     sub: '指税后到手总包。',
     options: [
-      '逆势增长 (涨幅 > 10%)',
-      '基本持平 (波动 < 10%)',
-      '温和下跌 (跌幅 10%-30%)',
-      '严重下跌 (跌幅 > 30%)',
-      '腰斩/失业归零'
+      { code: 'growth', label: '逆势增长 (涨幅 > 10%)' },
+      { code: 'stable', label: '基本持平 (波动 < 10%)' },
+      { code: 'mild_decline', label: '温和下跌 (跌幅 10%-30%)' },
+      { code: 'severe_decline', label: '严重下跌 (跌幅 > 30%)' },
+      { code: 'halved_or_zero', label: '腰斩/失业归零' }
     ]
   },
   {
@@ -58,11 +103,33 @@ export const questions: Question[] = [
     type: 'choice',
     question: '你目前遭遇过欠薪吗？',
     sub: '包括绩效被扣、无理由缓发。',
+    // 自由职业/待业者没有固定雇主，跳过欠薪问题
+    showIf: { question: 'industry', notIn: ['freelance_unemployed'] },
     options: [
-      '从未欠薪，按时发放',
-      '偶尔延迟，最终发了',
-      '正在被拖欠 (3个月以内)',
-      '正在被拖欠 (半年以上/无望)'
+      { code: 'never', label: '从未欠薪，按时发放' },
+      { code: 'delayed_then_paid', label: '偶尔延迟，最终发了' },
+      { code: 'owed_under_3m', label: '正在被拖欠 (3个月以内)' },
+      { code: 'owed_over_6m', label: '正在被拖欠 (半年以上/无望)' }
+    ]
+  },
+  {
+    id: 'pay_components_change',
+    type: 'matrix',
+    question: '与去年相比，你收入的各个组成部分怎么变了？',
+    sub: '逐项选择。没有这一项就选"本来就没有"。',
+    showIf: { question: 'industry', notIn: ['freelance_unemployed'] },
+    rows: [
+      { code: 'base_pay', label: '基本工资' },
+      { code: 'bonus', label: '奖金/绩效' },
+      { code: 'overtime_pay', label: '加班费' },
+      { code: 'social_insurance', label: '社保/公积金' }
+    ],
+    options: [
+      { code: 'increased', label: '增加' },
+      { code: 'unchanged', label: '不变' },
+      { code: 'decreased', label: '减少' },
+      { code: 'gone', label: '取消/停发' },
+      { code: 'not_applicable', label: '本来就没有' }
     ]
   },
   // --- 第三部分：环境侧写 (朋友圈数据) ---
@@ -72,10 +139,10 @@ export const questions: Question[] = [
     question: '据你观察，你周围亲友/同事的普遍状态是？',
     sub: '旁观者清。谈论别人比谈论自己更客观。',
     options: [
-      '普遍在涨薪/跳槽，行情不错',
-      '只有极个别能力强的在涨，大部分苟着',
-      '大家都在降薪/被裁，怨气很重',
-      '都在谈论维权/讨薪，情况恶劣'
+      { code: 'better', label: '普遍在涨薪/跳槽，行情不错' },
+      { code: 'mixed', label: '只有极个别能力强的在涨，大部分苟着' },
+      { code: 'worse', label: '大家都在降薪/被裁，怨气很重' },
+      { code: 'protesting', label: '都在谈论维权/讨薪，情况恶劣' }
     ]
   },
   {
@@ -84,26 +151,178 @@ export const questions: Question[] = [
     question: '在你的社交圈里，"欠薪"这件事...',
     sub: '是一个罕见的词，还是高频词？',
     options: [
-      '几乎没听说过 (罕见)',
-      '听说过一两个案例 (偶发)',
-      '经常听到有人抱怨 (普遍)',
-      '几乎各行各业都在发生 (泛滥)'
+      { code: 'rare', label: '几乎没听说过 (罕见)' },
+      { code: 'occasional', label: '听说过一两个案例 (偶发)' },
+      { code: 'common', label: '经常听到有人抱怨 (普遍)' },
+      { code: 'widespread', label: '几乎各行各业都在发生 (泛滥)' }
     ]
   },
+  // --- 注意力检查（不计入统计，答错的回复标记为低质量）---
+  {
+    id: 'attention_check',
+    type: 'attention',
+    question: '这是一道注意力检查题，请直接选择第三项',
+    sub: '用于剔除随手乱点的回复，不影响你的其他答案。',
+    options: [
+      { code: 'option_1', label: '第一项' },
+      { code: 'option_2', label: '第二项' },
+      { code: 'option_3', label: '第三项' },
+      { code: 'option_4', label: '第四项' }
+    ],
+    expected: 'option_3'
+  },
   // --- 第四部分：细节 ---
   {
     id: 'welfare_cut',
     type: 'multi',
     question: '最后，今年哪些隐形福利消失了？',
     sub: '多选。如果本来就没有，选"维持原状"。',
+    shuffle: true,
     options: [
-      '公积金/社保基数调降',
-      '年终奖/13薪 消失',
-      '加班费/打车餐补 取消',
-      '裁员赔偿 N+1 变 N 或更少',
-      '没有任何福利缩水/维持原状',
-      '福利反而增加了'
+      { code: 'housing_fund_cut', label: '公积金/社保基数调降' },
+      { code: 'bonus_gone', label: '年终奖/13薪 消失' },
+      { code: 'allowance_cut', label: '加班费/打车餐补 取消' },
+      { code: 'severance_cut', label: '裁员赔偿 N+1 变 N 或更少' },
+      { code: 'unchanged', label: '没有任何福利缩水/维持原状', exclusive: true, pinned: true },
+      { code: 'increased', label: '福利反而增加了', pinned: true }
+    ],
+    // "福利增加"与各项缩水互相矛盾
+    incompatibleGroups: [
+      ['increased'],
+      ['housing_fund_cut', 'bonus_gone', 'allowance_cut', 'severance_cut']
     ]
   }
-];
+] as const satisfies readonly Question[];
+
+export const questions: readonly Question[] = questionDefinitions;
+
+/**
+ * 各题型对应的答案值类型
+ * - choice: 选项编码
+ * - range: 数值
+ * - multi: 选项编码数组
+ * - matrix: 子项编码 -> 量表选项编码
+ * - attention: 选项编码（答错也是合法答案）
+ */
+export interface AnswerValueByType {
+  choice: string;
+  range: number;
+  multi: string[];
+  matrix: Record<string, string>;
+  attention: string;
+}
+
+type QuestionDefinition = (typeof questionDefinitions)[number];
+type ConditionalDefinition = Extract<QuestionDefinition, { showIf: QuestionCondition }>;
+type UnconditionalDefinition = Exclude<QuestionDefinition, ConditionalDefinition>;
+
+/**
+ * 问卷答案类型（由问题配置自动推导，新增题目无需手动维护）
+ * 带 showIf 的问题可能被跳过，因此为可选字段
+ */
+export type SurveyAnswers = {
+  [Q in UnconditionalDefinition as Q['id']]: AnswerValueByType[Q['type']];
+} & {
+  [Q in ConditionalDefinition as Q['id']]?: AnswerValueByType[Q['type']];
+};
 
+export type QuestionId = keyof SurveyAnswers;
+
+
+/**
+ * 根据 id 查找问题
+ */
+export function getQuestion(id: string): Question | undefined {
+  return questions.find(q => q.id === id);
+}
+
+/**
+ * 检查选项编码是否属于该问题
+ */
+export function isValidOptionCode(question: Question, code: string): boolean {
+  return question.options?.some(opt => opt.code === code) ?? false;
+}
+
+/**
+ * 检查子项编码是否属于该矩阵题
+ */
+export function isValidRowCode(question: Question, code: string): boolean {
+  return question.rows?.some(row => row.code === code) ?? false;
+}
+
+/**
+ * 将矩阵题子项编码解析为展示文本（找不到时原样返回编码）
+ */
+export function getRowLabel(questionId: string, code: string): string {
+  const row = getQuestion(questionId)?.rows?.find(r => r.code === code);
+  return row?.label ?? code;
+}
+
+/**
+ * 将选项编码解析为展示文本（找不到时原样返回编码）
+ */
+export function getOptionLabel(questionId: string, code: string): string {
+  const option = getQuestion(questionId)?.options?.find(opt => opt.code === code);
+  return option?.label ?? code;
+}
+
+/**
+ * 是否为注意力检查题
+ */
+export function isAttentionCheck(question: Question): boolean {
+  return question.type === 'attention';
+}
+
+/**
+ * 答错的注意力检查题 id（被跳过的题不算答错）
+ */
+export function failedAttentionChecks(answers: Record<string, unknown>): string[] {
+  return questions
+    .filter(question => isAttentionCheck(question) && isQuestionVisible(question, answers))
+    .filter(question => answers[question.id] !== question.expected)
+    .map(question => question.id);
+}
+
+/**
+ * 判断问题在当前答案下是否显示
+ */
+export function isQuestionVisible(
+  question: Question,
+  answers: Record<string, unknown>
+): boolean {
+  const condition = question.showIf;
+  if (!condition) return true;
+
+  const answer = answers[condition.question];
+  if (answer === undefined || answer === null || answer === '') return false;
+
+  const selected = Array.isArray(answer) ? answer.map(String) : [String(answer)];
+
+  if (condition.in && !selected.some(code => condition.in?.includes(code))) {
+    return false;
+  }
+  if (condition.notIn && selected.some(code => condition.notIn?.includes(code))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * 获取当前答案下需要作答的问题列表（保持原有顺序）
+ */
+export function getVisibleQuestions(answers: Record<string, unknown>): Question[] {
+  return questions.filter(q => isQuestionVisible(q, answers));
+}
+
+/**
+ * 只保留当前显示的问题的答案（前题答案变化后，清除被跳过问题的旧答案）
+ */
+export function getVisibleAnswers<T extends Record<string, unknown>>(answers: T): Partial<T> {
+  const visible: Record<string, unknown> = {};
+  for (const question of getVisibleQuestions(answers)) {
+    if (question.id in answers) {
+      visible[question.id] = answers[question.id];
+    }
+  }
+  return visible as Partial<T>;
+}
@@ -0,0 +1,61 @@
+/**
+ * 速率限制存储（服务端）
+ * 通过 RATE_LIMIT_STORE 选择：
+ * - postgres: 数据库（默认，多实例共享计数）
+ * - memory: 进程内存（单实例部署和本地开发；也是其他存储不可用时的后备）
+ * - redis: Redis 协议（REDIS_URL，多实例共享计数，不占用数据库连接）
+ *
+ * 所有存储都是滑动窗口：每个请求记录一个时间点，统计最近 windowMs 内的记录数，只记录桶名和时间
+ * 桶的配置、失败策略和本地缓存见 lib/rate-limit.ts
+ */
+
+import { postgresStore } from './postgres';
+import { memoryStore } from './memory';
+import { redisStore } from './redis';
+
+export const RATE_LIMIT_STORES = ['postgres', 'memory', 'redis'] as const;
+export type RateLimitStoreName = (typeof RATE_LIMIT_STORES)[number];
+
+/**
+ * 一次检查的结果
+ */
+export interface RateLimitHit {
+  allowed: boolean;
+  // 记录本次请求后窗口内的请求数（被拒绝时为当前请求数）
+  count: number;
+  // 窗口内最早一次请求的时间点（毫秒，窗口为空时为 null），离开窗口时释放一个名额
+  oldest: number | null;
+}
+
+/**
+ * 存储接口（出错时直接抛出，由调用方按桶的失败策略处理）
+ */
+export interface RateLimitStore {
+  name: RateLimitStoreName;
+  // 计数是否在多个实例间共享（共享存储才需要本地缓存减少往返）
+  shared: boolean;
+  // 原子地检查窗口内请求数，未超限时记录本次请求
+  hit(bucket: string, limit: number, windowMs: number, now: number): Promise<RateLimitHit>;
+  // 记录已在本地放行的请求（本地缓存批量写入），与 hit 一样清理窗口之前的记录
+  record(bucket: string, count: number, windowMs: number, now: number): Promise<void>;
+  // 窗口内的请求数
+  count(bucket: string, windowMs: number, now: number): Promise<number>;
+}
+
+const stores: Record<RateLimitStoreName, RateLimitStore> = {
+  postgres: postgresStore,
+  memory: memoryStore,
+  redis: redisStore,
+};
+
+/**
+ * 获取当前配置的存储（未配置或配置无效时使用数据库）
+ */
+export function getRateLimitStore(): RateLimitStore {
+  const value = process.env['RATE_LIMIT_STORE'];
+  return (RATE_LIMIT_STORES as readonly string[]).includes(value ?? '')
+    ? stores[value as RateLimitStoreName]
+    : postgresStore;
+}
+
+export { memoryStore };
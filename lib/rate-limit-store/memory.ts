@@ -0,0 +1,50 @@
+/**
+ * 进程内存存储
+ * 计数只在当前实例内有效（Serverless 多实例时各自计数），适合单实例部署和本地开发，
+ * 也作为共享存储不可用时的后备
+ */
+
+import type { RateLimitStore } from './index';
+
+// 桶名 -> 窗口内请求的时间点（按时间递增）
+const hits = new Map<string, number[]>();
+
+/**
+ * 移除窗口之前的记录，返回窗口内的记录
+ */
+function prune(bucket: string, windowMs: number, now: number): number[] {
+  const timestamps = hits.get(bucket) ?? [];
+  const start = now - windowMs;
+  let expired = 0;
+  while (expired < timestamps.length && (timestamps[expired] as number) <= start) {
+    expired++;
+  }
+  const recent = expired > 0 ? timestamps.slice(expired) : timestamps;
+  hits.set(bucket, recent);
+  return recent;
+}
+
+export const memoryStore: RateLimitStore = {
+  name: 'memory',
+  shared: false,
+
+  async hit(bucket, limit, windowMs, now) {
+    const recent = prune(bucket, windowMs, now);
+    if (recent.length >= limit) {
+      return { allowed: false, count: recent.length, oldest: recent[0] ?? null };
+    }
+    recent.push(now);
+    return { allowed: true, count: recent.length, oldest: recent[0] ?? now };
+  },
+
+  async record(bucket, count, windowMs, now) {
+    const recent = prune(bucket, windowMs, now);
+    for (let i = 0; i < count; i++) {
+      recent.push(now);
+    }
+  },
+
+  async count(bucket, windowMs, now) {
+    return prune(bucket, windowMs, now).length;
+  },
+};
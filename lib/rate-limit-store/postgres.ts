@@ -0,0 +1,91 @@
+/**
+ * 数据库存储（rate_limit_events 表，每个请求一条记录）
+ * 支持多实例部署和 Serverless 环境
+ */
+
+import { sql } from '../db';
+import type { RateLimitStore } from './index';
+
+// 清理策略配置
+const CLEANUP_PROBABILITY = 0.01; // 1% 的请求执行清理（每100个请求清理一次）
+const MIN_CLEANUP_INTERVAL = 60 * 1000; // 最小清理间隔：1分钟
+const RETENTION = 60 * 60 * 1000; // 保留最近 1 小时（窗口上限）
+let lastCleanupTime = 0; // 上次清理时间
+
+// 事务级咨询锁的命名空间（第二个参数为 bucket 的哈希），避免与其他用途的咨询锁冲突
+const LOCK_NAMESPACE = 4201;
+
+/**
+ * 异步清理过期记录（不阻塞主流程）
+ * 使用概率清理 + 时间间隔控制，避免频繁执行
+ */
+function cleanupExpiredRecords(now: number) {
+  // 检查是否需要清理（时间间隔控制 + 概率清理）
+  if (now - lastCleanupTime < MIN_CLEANUP_INTERVAL || Math.random() > CLEANUP_PROBABILITY) {
+    return;
+  }
+
+  // 更新清理时间（防止并发重复清理）
+  lastCleanupTime = now;
+
+  // 异步执行，不等待结果
+  sql`
+    DELETE FROM rate_limit_events
+    WHERE created_at < ${new Date(now - RETENTION)}
+  `.catch(err => {
+    console.error('[Rate Limit Cleanup Error]', err);
+  });
+}
+
+export const postgresStore: RateLimitStore = {
+  name: 'postgres',
+  shared: true,
+
+  async hit(bucket, limit, windowMs, now) {
+    // 统计窗口内的请求数，未超限时记录本次请求
+    // 同一 bucket 先加事务级咨询锁，并发请求依次计数和写入，不会同时看到未超限而一起插入超出上限
+    // （锁在第一条语句获取，第二条语句使用新的快照，能看到之前持锁请求已提交的记录；事务结束自动释放）
+    const [, result] = await sql.transaction([
+      sql`SELECT pg_advisory_xact_lock(${LOCK_NAMESPACE}, hashtext(${bucket}))`,
+      sql`
+        WITH recent AS (
+          SELECT COUNT(*)::int AS total_requests, (EXTRACT(EPOCH FROM MIN(created_at)) * 1000)::float8 AS oldest
+          FROM rate_limit_events
+          WHERE bucket = ${bucket} AND created_at > ${new Date(now - windowMs)}
+        ),
+        inserted AS (
+          INSERT INTO rate_limit_events (bucket, created_at)
+          SELECT ${bucket}, ${new Date(now)} FROM recent WHERE total_requests < ${limit}
+          RETURNING id
+        )
+        SELECT total_requests, oldest, (SELECT COUNT(*)::int FROM inserted) AS inserted FROM recent
+      `,
+    ]);
+
+    cleanupExpiredRecords(now);
+
+    const row = result?.[0] as { total_requests: number; oldest: number | null; inserted: number } | undefined;
+    const count = row?.total_requests ?? 0;
+    const oldest = row?.oldest ?? null;
+    return row?.inserted
+      ? { allowed: true, count: count + 1, oldest: oldest ?? now }
+      : { allowed: false, count, oldest };
+  },
+
+  async record(bucket, count, windowMs, now) {
+    // 过期记录由 cleanupExpiredRecords 和定时任务清理
+    await sql`
+      INSERT INTO rate_limit_events (bucket, created_at)
+      SELECT ${bucket}, ${new Date(now)} FROM generate_series(1, ${count})
+    `;
+  },
+
+  async count(bucket, windowMs, now) {
+    const result = await sql`
+      SELECT COUNT(*)::int AS total_requests
+      FROM rate_limit_events
+      WHERE bucket = ${bucket} AND created_at > ${new Date(now - windowMs)}
+    `;
+    return (result[0] as { total_requests: number } | undefined)?.total_requests ?? 0;
+  },
+};
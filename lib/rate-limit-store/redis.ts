@@ -0,0 +1,230 @@
+/**
+ * Redis 协议存储（REDIS_URL，格式 redis://[user:password@]host:port[/db]，TLS 使用 rediss://）
+ * 每个桶一个有序集合（成员为请求，分数为时间点），检查和记录通过 Lua 脚本原子完成
+ * 兼容 Redis 协议的服务（Redis、Valkey、KeyDB 等）都可使用
+ *
+ * 只实现速率限制需要的最小 RESP 客户端：每个实例一条长连接，命令按顺序排队，
+ * 连接出错或超时后丢弃，下次请求重新连接
+ */
+
+import { connect as connectTcp, type Socket } from 'net';
+import { connect as connectTls } from 'tls';
+import { randomBytes } from 'crypto';
+import type { RateLimitStore } from './index';
+
+// 键名前缀（与同一 Redis 中的其他数据区分）
+const KEY_PREFIX = 'salary-survey:rate-limit:';
+// 连接和单条命令的超时（超时按存储不可用处理）
+const COMMAND_TIMEOUT = 1000;
+
+type RespValue = string | number | null | RespValue[];
+
+// 检查窗口内请求数，未超限时记录本次请求；返回 [是否放行, 请求数, 最早请求的时间点]
+const HIT_SCRIPT = `
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', ARGV[1] - ARGV[2])
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < tonumber(ARGV[3]) then
+  redis.call('ZADD', KEYS[1], ARGV[1], ARGV[4])
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+  count = count + 1
+  allowed = 1
+end
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+return {allowed, count, oldest[2] or ''}
+`;
+
+// 记录本地放行的请求（ARGV[3] 起为成员），与 HIT_SCRIPT 一样清理窗口之前的记录并设置过期时间
+const RECORD_SCRIPT = `
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', ARGV[1] - ARGV[2])
+for i = 3, #ARGV do
+  redis.call('ZADD', KEYS[1], ARGV[1], ARGV[i])
+end
+redis.call('PEXPIRE', KEYS[1], ARGV[2])
+return #ARGV - 2
+`;
+
+/**
+ * 解析一个 RESP 回复（数据不完整时返回 null）
+ */
+function parseReply(buffer: Buffer, offset: number): { value: RespValue | Error; next: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+  const type = String.fromCharCode(buffer[offset] as number);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, next };
+    case '-':
+      return { value: new Error(line), next };
+    case ':':
+      return { value: Number(line), next };
+    case '$': {
+      const length = Number(line);
+      if (length < 0) return { value: null, next };
+      if (buffer.length < next + length + 2) return null;
+      return { value: buffer.toString('utf8', next, next + length), next: next + length + 2 };
+    }
+    case '*': {
+      const length = Number(line);
+      if (length < 0) return { value: null, next };
+      const items: RespValue[] = [];
+      let error: Error | null = null;
+      let position = next;
+      for (let i = 0; i < length; i++) {
+        const item = parseReply(buffer, position);
+        if (!item) return null;
+        // 嵌套的错误也要读完整个数组，保证后续回复对齐
+        if (item.value instanceof Error) error ??= item.value;
+        else items.push(item.value);
+        position = item.next;
+      }
+      return { value: error ?? items, next: position };
+    }
+    default:
+      return { value: new Error(`Unexpected RESP type: ${type}`), next: buffer.length };
+  }
+}
+
+/**
+ * 编码命令
+ */
+function encodeCommand(args: Array<string | number>): string {
+  return `*${args.length}\r\n` + args.map(arg => {
+    const value = String(arg);
+    return `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+  }).join('');
+}
+
+interface PendingCommand {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+}
+
+interface Connection {
+  socket: Socket;
+  pending: PendingCommand[];
+  buffer: Buffer;
+}
+
+let connection: Connection | null = null;
+
+/**
+ * 丢弃连接，未完成的命令全部失败
+ */
+function dropConnection(target: Connection, error: Error) {
+  if (connection === target) connection = null;
+  target.socket.destroy();
+  for (const command of target.pending.splice(0)) {
+    command.reject(error);
+  }
+}
+
+/**
+ * 获取连接（首次使用或断开后重新连接，连接后按 URL 认证和选择数据库）
+ */
+function getConnection(): Connection {
+  if (connection) return connection;
+
+  const value = process.env['REDIS_URL'];
+  if (!value) {
+    throw new Error('REDIS_URL environment variable is not set');
+  }
+  const url = new URL(value);
+  const port = Number(url.port) || 6379;
+  const socket = url.protocol === 'rediss:'
+    ? connectTls({ host: url.hostname, port, servername: url.hostname })
+    : connectTcp({ host: url.hostname, port });
+
+  const current: Connection = { socket, pending: [], buffer: Buffer.alloc(0) };
+  connection = current;
+
+  // 不阻止进程退出（脚本和构建时）
+  socket.unref();
+  socket.setNoDelay(true);
+  socket.on('error', error => dropConnection(current, error));
+  socket.on('close', () => dropConnection(current, new Error('Redis connection closed')));
+  socket.on('data', chunk => {
+    current.buffer = Buffer.concat([current.buffer, chunk]);
+    let reply = parseReply(current.buffer, 0);
+    while (reply) {
+      current.buffer = current.buffer.subarray(reply.next);
+      const command = current.pending.shift();
+      if (reply.value instanceof Error) command?.reject(reply.value);
+      else command?.resolve(reply.value);
+      reply = current.buffer.length > 0 ? parseReply(current.buffer, 0) : null;
+    }
+  });
+
+  // 认证和选择数据库（命令在连接建立后按顺序发送）
+  const password = decodeURIComponent(url.password);
+  if (password) {
+    const username = decodeURIComponent(url.username);
+    sendCommand(current, username ? ['AUTH', username, password] : ['AUTH', password]).catch(() => {});
+  }
+  const db = url.pathname.slice(1);
+  if (db) {
+    sendCommand(current, ['SELECT', db]).catch(() => {});
+  }
+
+  return current;
+}
+
+function sendCommand(target: Connection, args: Array<string | number>): Promise<RespValue> {
+  return new Promise((resolve, reject) => {
+    target.pending.push({ resolve, reject });
+    target.socket.write(encodeCommand(args));
+  });
+}
+
+/**
+ * 执行命令（超时后丢弃连接）
+ */
+async function command(args: Array<string | number>): Promise<RespValue> {
+  const target = getConnection();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      sendCommand(target, args),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          const error = new Error('Redis command timeout');
+          dropConnection(target, error);
+          reject(error);
+        }, COMMAND_TIMEOUT);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * 请求成员（同一毫秒内的多个请求需要不同的成员）
+ */
+function member(now: number): string {
+  return `${now}-${randomBytes(6).toString('hex')}`;
+}
+
+export const redisStore: RateLimitStore = {
+  name: 'redis',
+  shared: true,
+
+  async hit(bucket, limit, windowMs, now) {
+    const reply = await command(['EVAL', HIT_SCRIPT, 1, KEY_PREFIX + bucket, now, windowMs, limit, member(now)]);
+    const [allowed, count, oldest] = reply as [number, number, string];
+    return { allowed: allowed === 1, count, oldest: oldest ? Number(oldest) : null };
+  },
+
+  async record(bucket, count, windowMs, now) {
+    const members = Array.from({ length: count }, () => member(now));
+    await command(['EVAL', RECORD_SCRIPT, 1, KEY_PREFIX + bucket, now, windowMs, ...members]);
+  },
+
+  async count(bucket, windowMs, now) {
+    const reply = await command(['ZCOUNT', KEY_PREFIX + bucket, `(${now - windowMs}`, '+inf']);
+    return Number(reply);
+  },
+};
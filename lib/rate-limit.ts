@@ -1,14 +1,22 @@
 /**
- * 基于数据库的速率限制器
+ * 速率限制器
  * 完全匿名，不记录任何用户信息
  *
  * 策略：
  * 1. 前端使用 localStorage 记录提交时间
- * 2. 后端生成一次性 token 验证
- * 3. 服务端使用数据库做全局防刷保护（不记录用户信息）
+ * 2. 后端签发一次性答题会话（lib/survey-session.ts），提交时标记为已使用
+ * 3. 服务端按接口分桶（读、开始答题、提交）做防刷保护（不记录用户信息），
+ *    计数存储可选数据库、进程内存或 Redis（见 lib/rate-limit-store）
+ *
+ * 使用共享存储时限制是近似的：每个实例在本地缓存有效期（1 秒）内，共享计数低于限制一半时可以不访问存储、
+ * 在本地放行，最多放行到限制的一半（见 LOCAL_ALLOW_RATIO）。各实例互不知道对方的本地放行数，
+ * N 个实例在同一个缓存周期内最多共放行约限制的 N × 50%（N ≥ 3 时会超出限制）；
+ * 之后各实例把本地放行数写入存储，超限的桶在窗口内恢复拒绝。
+ * 需要严格限制时可把 LOCAL_ALLOW_RATIO 改为 0（每个请求都访问存储）
  */
 
 import { sql } from "./db";
+import { getRateLimitStore, memoryStore, type RateLimitHit } from "./rate-limit-store";
 
 // 配置
 export const RATE_LIMIT_CONFIG = {
@@ -17,166 +25,247 @@ export const RATE_LIMIT_CONFIG = {
   STORAGE_KEY: "survey_submissions", // localStorage key
 };
 
-// Token有效期（2分钟）
-const TOKEN_VALIDITY = 2 * 60 * 1000;
+/**
+ * 服务端速率限制桶（每个桶独立计数，互不影响）
+ * - read: 只读接口（统计看板轮询、位置效应分析）
+ * - session: 开始答题（签发答题会话）
+ * - challenge: 申请工作量证明题目（与签发会话同时发生，单独计数，不挤占 session 的名额）
+ * - write: 提交问卷
+ * 看板轮询再多也不会挤占提交名额
+ */
+export type RateLimitBucket = 'read' | 'session' | 'challenge' | 'write';
 
-// 全局速率限制配置
-const GLOBAL_LIMIT = 1000; // 每分钟全局最多 1000 个请求
-const GLOBAL_WINDOW_SECONDS = 60; // 1 分钟窗口
+/**
+ * 存储不可用时的处理策略
+ * - open: 放行，改用进程内存按同样的限制计数（多实例时各自计数）
+ * - closed: 拒绝（存储恢复前该桶的请求全部拒绝）
+ */
+export type RateLimitFailMode = 'open' | 'closed';
+
+export interface RateLimitBucketConfig {
+  limit: number; // 窗口内最多请求数
+  windowMs: number; // 滑动窗口长度（毫秒）
+  failMode: RateLimitFailMode;
+}
+
+// 默认配置（每个桶 1 分钟滑动窗口，存储不可用时降级到进程内存计数）
+const DEFAULT_BUCKETS: Record<RateLimitBucket, RateLimitBucketConfig> = {
+  read: { limit: 3000, windowMs: 60 * 1000, failMode: 'open' },
+  session: { limit: 1000, windowMs: 60 * 1000, failMode: 'open' },
+  challenge: { limit: 1000, windowMs: 60 * 1000, failMode: 'open' },
+  write: { limit: 1000, windowMs: 60 * 1000, failMode: 'open' },
+};
 
-// 清理策略配置
-const CLEANUP_PROBABILITY = 0.01; // 1% 的请求执行清理（每100个请求清理一次）
-let lastCleanupTime = 0; // 上次清理时间
-const MIN_CLEANUP_INTERVAL = 60 * 1000; // 最小清理间隔：1分钟
+// 窗口上限（与过期记录的清理周期一致）
+const MAX_WINDOW_MS = 60 * 60 * 1000;
 
 /**
- * 异步清理过期记录（不阻塞主流程）
- * 使用概率清理 + 时间间隔控制，避免频繁执行
+ * 读取各桶配置
+ * 通过 RATE_LIMIT_BUCKETS 覆盖，格式为逗号分隔的 bucket:limit:windowSeconds[:open|closed]，
+ * 例如 RATE_LIMIT_BUCKETS=read:6000:60,write:500:60:closed（未知桶和格式无效的项忽略）
  */
-async function cleanupExpiredRecords() {
-  const now = Date.now();
-
-  // 检查是否需要清理（时间间隔控制）
-  if (now - lastCleanupTime < MIN_CLEANUP_INTERVAL) {
-    return; // 距离上次清理不足1分钟，跳过
+export function getRateLimitBuckets(): Record<RateLimitBucket, RateLimitBucketConfig> {
+  const buckets = { ...DEFAULT_BUCKETS };
+  const value = process.env['RATE_LIMIT_BUCKETS'] || '';
+
+  for (const item of value.split(',')) {
+    const [name, limit, windowSeconds, failMode] = item.trim().split(':');
+    const limitValue = Number(limit);
+    const windowMs = Number(windowSeconds) * 1000;
+    if (
+      !name ||
+      !(name in DEFAULT_BUCKETS) ||
+      !(Number.isInteger(limitValue) && limitValue > 0) ||
+      !(windowMs > 0 && windowMs <= MAX_WINDOW_MS) ||
+      (failMode !== undefined && failMode !== 'open' && failMode !== 'closed')
+    ) {
+      continue;
+    }
+    const bucket = name as RateLimitBucket;
+    buckets[bucket] = { limit: limitValue, windowMs, failMode: failMode ?? DEFAULT_BUCKETS[bucket].failMode };
   }
 
-  // 概率清理：只有部分请求执行清理
-  if (Math.random() > CLEANUP_PROBABILITY) {
-    return; // 不在清理概率内，跳过
-  }
+  return buckets;
+}
 
-  // 更新清理时间（防止并发重复清理）
-  lastCleanupTime = now;
+// 存储出错后暂停访问的时间（期间按失败策略处理，避免每个请求都等待超时）
+const STORE_RETRY_INTERVAL = 10 * 1000;
+let storeUnavailableUntil = 0;
+
+// 本地缓存（只用于共享存储）：缓存有效期内，已超限的桶直接拒绝；
+// 远低于限制时在本地放行并累计，下次访问存储时批量写入，突发流量不会每个请求都访问存储
+const LOCAL_CACHE_MS = 1000;
+// 缓存的请求数加本地放行数低于限制的一半时才在本地放行
+// 各实例独立判断、互不知道对方的本地放行数，多实例时可能超出限制（见文件开头的说明）
+const LOCAL_ALLOW_RATIO = 0.5;
+
+interface CachedCount {
+  count: number; // 上次访问存储时窗口内的请求数
+  oldest: number | null; // 上次访问存储时窗口内最早请求的时间点
+  pending: number; // 之后在本地放行、尚未写入存储的请求数
+  fetchedAt: number;
+}
 
-  try {
-    const windowStart = new Date(now - GLOBAL_WINDOW_SECONDS * 1000);
-
-    // 异步执行，不等待结果
-    sql`
-      DELETE FROM rate_limit_global
-      WHERE window_start < ${windowStart}
-    `.catch(err => {
-      console.error('[Rate Limit Cleanup Error]', err);
-    });
-  } catch (error) {
-    console.error('[Rate Limit Cleanup Error]', error);
+const localCache = new Map<RateLimitBucket, CachedCount>();
+
+/**
+ * 按本地缓存判断（返回 null 表示需要访问存储）
+ */
+function checkLocalCache(bucket: RateLimitBucket, config: RateLimitBucketConfig, now: number): RateLimitHit | null {
+  const cached = localCache.get(bucket);
+  if (!cached || now - cached.fetchedAt >= LOCAL_CACHE_MS) {
+    return null;
+  }
+  if (cached.count >= config.limit) {
+    return { allowed: false, count: cached.count, oldest: cached.oldest };
+  }
+  if (cached.count + cached.pending + 1 <= config.limit * LOCAL_ALLOW_RATIO) {
+    cached.pending++;
+    return { allowed: true, count: cached.count + cached.pending, oldest: cached.oldest ?? now };
   }
+  return null;
 }
 
 /**
- * 检查全局速率限制（防止 DDoS）
- * 使用数据库存储，支持多实例部署和Serverless环境
- *
- * 优化策略：
- * 1. 查询时过滤过期数据（WHERE条件），不依赖DELETE
- * 2. 使用概率清理 + 时间间隔控制，避免每次请求都DELETE
- * 3. 清理操作异步执行，不阻塞主流程
+ * 访问共享存储：先写入本地放行的请求，再检查本次请求
  */
-export async function checkGlobalRateLimit(): Promise<boolean> {
-  try {
-    const now = new Date();
-    const windowStart = new Date(now.getTime() - GLOBAL_WINDOW_SECONDS * 1000);
-
-    // 1. 获取当前窗口的请求计数（查询时过滤过期数据，不需要先DELETE）
-    const result = await sql`
-      SELECT COALESCE(SUM(request_count), 0) as total_requests
-      FROM rate_limit_global
-      WHERE window_start >= ${windowStart}
-    `;
-
-    const currentCount = parseInt(result[0]?.["total_requests"] || "0");
-
-    // 2. 如果超过限制，拒绝请求
-    if (currentCount >= GLOBAL_LIMIT) {
-      console.warn(
-        `[Rate Limit] Global limit exceeded: ${currentCount} requests in last ${GLOBAL_WINDOW_SECONDS} seconds`,
-      );
-      return false;
+async function hitStore(bucket: RateLimitBucket, config: RateLimitBucketConfig, now: number): Promise<RateLimitHit> {
+  const store = getRateLimitStore();
+  const cached = localCache.get(bucket);
+
+  if (cached && cached.pending > 0) {
+    const pending = cached.pending;
+    cached.pending = 0;
+    try {
+      await store.record(bucket, pending, config.windowMs, now);
+    } catch (error) {
+      // 写入失败时保留，存储恢复后再写入（否则这些请求永远不会计入共享计数）
+      cached.pending += pending;
+      throw error;
     }
+  }
 
-    // 3. 记录本次请求（插入或更新当前分钟的记录）
-    const currentMinute = new Date(Math.floor(now.getTime() / 60000) * 60000);
-
-    await sql`
-      INSERT INTO rate_limit_global (window_start, request_count, updated_at)
-      VALUES (${currentMinute}, 1, ${now})
-      ON CONFLICT (window_start)
-      DO UPDATE SET
-        request_count = rate_limit_global.request_count + 1,
-        updated_at = ${now}
-    `;
-
-    // 4. 异步清理过期记录（不阻塞响应）
-    cleanupExpiredRecords();
-
-    return true;
-  } catch (error) {
-    // 数据库错误时，为了不影响服务，允许请求通过，但记录错误
-    console.error("[Rate Limit] Database error, allowing request:", error);
-    return true;
+  const result = await store.hit(bucket, config.limit, config.windowMs, now);
+  if (store.shared) {
+    localCache.set(bucket, { count: result.count, oldest: result.oldest, pending: 0, fetchedAt: now });
   }
+  return result;
 }
 
 /**
- * 生成一次性提交 token（用于验证）
- * 这个 token 不包含任何用户信息
+ * 存储不可用时按桶的失败策略处理
  */
-export function generateSubmitToken(): string {
-  const timestamp = Date.now();
-  const random = Math.random().toString(36).substring(2, 15);
-  return `${timestamp}-${random}`;
+function fallbackHit(bucket: RateLimitBucket, config: RateLimitBucketConfig, now: number): Promise<RateLimitHit> {
+  if (config.failMode === 'closed') {
+    return Promise.resolve({ allowed: false, count: config.limit, oldest: null });
+  }
+  return memoryStore.hit(bucket, config.limit, config.windowMs, now);
 }
 
 /**
- * 验证提交 token 格式是否有效
- * 只检查 token 格式和时间，不检查是否已使用
- * 格式：timestamp-random（2部分）
+ * 检查结果（用于生成标准的 RateLimit-* 响应头）
  */
-export function validateSubmitTokenFormat(token: string): boolean {
-  if (!token) return false;
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  windowMs: number;
+  // 距离释放下一个名额的时间（毫秒）
+  resetMs: number;
+  // 存储不可用且按 closed 策略拒绝（不是真正超限，接口返回 503 而非 429）
+  storeUnavailable: boolean;
+}
 
-  const parts = token.split("-");
-  // 新格式：timestamp-random（2部分）
-  if (parts.length !== 2) return false;
+function toResult(config: RateLimitBucketConfig, hit: RateLimitHit, now: number, storeUnavailable = false): RateLimitResult {
+  // 最早的请求离开窗口时释放名额；按失败策略拒绝时等到重新访问存储
+  const resetMs = hit.oldest !== null
+    ? hit.oldest + config.windowMs - now
+    : storeUnavailableUntil - now;
+  return {
+    allowed: hit.allowed,
+    limit: config.limit,
+    remaining: Math.max(config.limit - hit.count, 0),
+    windowMs: config.windowMs,
+    resetMs: Math.max(resetMs, 0),
+    storeUnavailable: storeUnavailable && !hit.allowed,
+  };
+}
 
-  const timestamp = parseInt(parts[0] || '');
-  if (isNaN(timestamp)) return false;
+/**
+ * 检查并记录一次请求（防止 DDoS，不记录任何用户信息，只记录桶名和时间）
+ *
+ * 真正的滑动窗口：每个请求记录一个时间点，统计最近 windowMs 内的记录数，
+ * 不会出现固定窗口在边界处放行两倍流量的问题
+ * 被拒绝的请求不记录，不会延长拒绝时间
+ */
+export async function checkRateLimit(bucket: RateLimitBucket): Promise<RateLimitResult> {
+  const config = getRateLimitBuckets()[bucket];
+  const now = Date.now();
 
-  // 检查随机字符串长度（32字符）
-  const random = parts[1];
-  if (!random || random.length !== 32) return false;
+  // 1. 本地缓存
+  const cachedResult = checkLocalCache(bucket, config, now);
+  if (cachedResult) {
+    return toResult(config, cachedResult, now);
+  }
 
-  // Token 有效期 2 分钟（缩短以减少重放攻击风险）
-  const now = Date.now();
-  const tokenAge = now - timestamp;
+  // 2. 访问存储（出错后一段时间内不再访问，按失败策略处理）
+  let result: RateLimitHit;
+  let storeUnavailable = false;
+  if (now >= storeUnavailableUntil) {
+    try {
+      result = await hitStore(bucket, config, now);
+    } catch (error) {
+      storeUnavailableUntil = now + STORE_RETRY_INTERVAL;
+      // 缓存的计数作废，但保留尚未写入的本地放行数
+      const cached = localCache.get(bucket);
+      if (cached) cached.fetchedAt = -Infinity;
+      console.error(`[Rate Limit] Store "${getRateLimitStore().name}" unavailable, failing ${config.failMode} for "${bucket}":`, error);
+      result = await fallbackHit(bucket, config, now);
+      storeUnavailable = true;
+    }
+  } else {
+    result = await fallbackHit(bucket, config, now);
+    storeUnavailable = true;
+  }
 
-  if (tokenAge < 0 || tokenAge > TOKEN_VALIDITY) {
-    return false;
+  if (!result.allowed && !storeUnavailable) {
+    console.warn(`[Rate Limit] Bucket "${bucket}" limit exceeded: ${config.limit} requests in last ${config.windowMs / 1000} seconds`);
   }
+  return toResult(config, result, now, storeUnavailable);
+}
 
-  return true;
+/**
+ * 标准速率限制响应头（IETF RateLimit 头字段草案），被拒绝时附带 Retry-After
+ * 客户端据此显示倒计时并自动重试（见 lib/client-rate-limit.ts）
+ */
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const resetSeconds = Math.max(Math.ceil(result.resetMs / 1000), 1);
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(resetSeconds),
+    'RateLimit-Policy': `${result.limit};w=${Math.round(result.windowMs / 1000)}`,
+  };
+  if (!result.allowed) {
+    headers['Retry-After'] = String(resetSeconds);
+  }
+  return headers;
 }
 
 /**
- * 检查并标记token为已使用（防止重放攻击）
- * 返回true表示token有效且未使用，返回false表示token已被使用或无效
+ * 标记一次性 token 为已使用（防止重放攻击）
+ * 返回true表示首次使用，返回false表示已被使用或数据库异常
  *
  * 使用原子操作防止竞态条件：
  * - 直接 INSERT ... ON CONFLICT ... RETURNING
  * - 只有首次插入成功才返回数据
+ *
+ * @param token 一次性 token 的唯一标识（如答题会话 id，见 lib/survey-session.ts）
+ * @param expiresAt 记录的过期时间，过期后可被清理（token 本身届时也已失效）
  */
-export async function validateAndConsumeToken(token: string): Promise<boolean> {
-  // 1. 先检查格式
-  if (!validateSubmitTokenFormat(token)) {
-    return false;
-  }
-
+export async function consumeOneTimeToken(token: string, expiresAt: Date): Promise<boolean> {
   try {
-    // 2. 原子操作：尝试插入token，如果已存在则不插入
-    const timestamp = parseInt(token.split('-')[0] || '0');
-    const expiresAt = new Date(timestamp + TOKEN_VALIDITY);
-
+    // 1. 原子操作：尝试插入token，如果已存在则不插入
     const result = await sql`
       INSERT INTO used_tokens (token, expires_at)
       VALUES (${token}, ${expiresAt.toISOString()})
@@ -184,13 +273,13 @@ export async function validateAndConsumeToken(token: string): Promise<boolean> {
       RETURNING token
     `;
 
-    // 3. 只有首次插入成功才返回 true
+    // 2. 只有首次插入成功才返回 true
     if (result.length === 0) {
       console.warn('[Token Reuse] Token已被使用:', token);
       return false;
     }
 
-    // 4. 清理过期token（异步，不阻塞）
+    // 3. 清理过期token（异步，不阻塞）
     sql`DELETE FROM used_tokens WHERE expires_at < NOW()`.catch(err => {
       console.error('[Token Cleanup Error]', err);
     });
@@ -204,36 +293,37 @@ export async function validateAndConsumeToken(token: string): Promise<boolean> {
 }
 
 /**
- * 获取全局统计信息（用于监控）
+ * 获取桶的当前统计信息（用于监控；存储不可用时返回本实例内存中的计数）
  */
-export async function getGlobalStats(): Promise<{
+export async function getRateLimitStats(bucket: RateLimitBucket): Promise<{
   requestCount: number;
-  windowStart: Date | null;
+  limit: number;
+  windowStart: Date;
   windowEnd: Date;
 }> {
-  try {
-    const now = new Date();
-    const windowStart = new Date(now.getTime() - GLOBAL_WINDOW_SECONDS * 1000);
-
-    const result = await sql`
-      SELECT
-        COALESCE(SUM(request_count), 0) as total_requests,
-        MIN(window_start) as earliest_window
-      FROM rate_limit_global
-      WHERE window_start >= ${windowStart}
-    `;
+  const { limit, windowMs } = getRateLimitBuckets()[bucket];
+  const now = Date.now();
+  const windowStart = new Date(now - windowMs);
+  const store = now >= storeUnavailableUntil ? getRateLimitStore() : memoryStore;
 
+  try {
     return {
-      requestCount: parseInt(result[0]?.["total_requests"] || "0"),
-      windowStart: result[0]?.["earliest_window"] || null,
-      windowEnd: now,
+      requestCount: await store.count(bucket, windowMs, now),
+      limit,
+      windowStart,
+      windowEnd: new Date(now),
     };
   } catch (error) {
     console.error("[Rate Limit] Error getting stats:", error);
-    return {
-      requestCount: 0,
-      windowStart: null,
-      windowEnd: new Date(),
-    };
+    return { requestCount: 0, limit, windowStart, windowEnd: new Date(now) };
   }
 }
+
+/**
+ * 获取桶的当前负载（窗口内请求数 / 限制，0 表示空闲，1 表示已达上限）
+ * 用于按流量动态调整防护强度（如工作量证明难度）
+ */
+export async function getRateLimitLoad(bucket: RateLimitBucket): Promise<number> {
+  const { requestCount, limit } = await getRateLimitStats(bucket);
+  return requestCount / limit;
+}
@@ -0,0 +1,231 @@
+/**
+ * 风险评分模块（客户端和服务端共用）
+ *
+ * 把行为数据、人机验证结果、答题时长和答案模式合并为一个 0-100 的风险分，
+ * 每条规则命中时贡献固定分数，评分结果附带命中的规则（可解释，便于调整权重和排查误判）
+ *
+ * 处理策略（见 decideRisk）：
+ * - 分数 < quarantine：接受
+ * - quarantine <= 分数 < reject：隔离（入库但标记为待审核）
+ * - 分数 >= reject：拒绝
+ *
+ * 客户端只采集到部分信号，使用默认策略提前提示明显异常；最终以服务端评分为准
+ */
+
+import { questions } from './questions';
+import type { MessageKey } from './i18n';
+import type { OptionOrder } from './option-order';
+import {
+  isSpeeding,
+  findStraightlinedQuestions,
+  type QuestionTimings,
+} from './question-timing';
+
+/**
+ * 客户端采集的行为计数（见 lib/bot-detection.ts）
+ */
+export interface BehaviorSignals {
+  mouseMovements: number;
+  clicks: number;
+  scrolls: number;
+  keyPresses: number;
+  touchEvents: number;
+  lastActivity: number;
+}
+
+/**
+ * 评分输入（未采集的信号不参与对应规则）
+ */
+export interface RiskSignals {
+  isMobile?: boolean;
+  // null 表示请求中没有行为数据
+  behavior?: BehaviorSignals | null;
+  // 答题时长（毫秒，服务端按答题会话计算）
+  elapsedMs?: number;
+  // 人机验证结果（passed：直接通过；fallback：经补充验证后通过）
+  captcha?: 'passed' | 'fallback';
+  answers?: Record<string, unknown>;
+  optionOrder?: OptionOrder | null;
+  // 每题停留时长（见 lib/question-timing.ts）
+  timings?: QuestionTimings | null;
+  // 评分时间（默认当前时间）
+  now?: number;
+}
+
+export type RiskRule =
+  | 'behaviorMissing'
+  | 'behaviorIdle'
+  | 'noPointer'
+  | 'lowPointer'
+  | 'fewClicks'
+  | 'noScrollOrKeys'
+  | 'fast'
+  | 'speeding'
+  | 'straightlining'
+  | 'captchaFallback'
+  | 'firstOption'
+  | 'allOptions';
+
+// 各规则的分数（只保存命中的规则名和分数，不保存原始行为数据）
+export const RISK_RULE_POINTS: Record<RiskRule, number> = {
+  behaviorMissing: 30, // 没有提交行为数据（脚本直接调用接口）
+  behaviorIdle: 25, // 最后活动距离提交超过2分钟
+  noPointer: 30, // PC端鼠标移动少于5次 / 移动端触摸少于3次
+  lowPointer: 10, // PC端鼠标移动5-10次
+  fewClicks: 25, // 点击少于3次
+  noScrollOrKeys: 5, // 没有任何滚动和键盘操作
+  fast: 15, // 答题时长不足30秒
+  speeding: 25, // 至少一半的题目低于最短停留时长
+  straightlining: 15, // 矩阵题所有子项选同一选项且作答过快
+  captchaFallback: 10, // 人机验证分数处于临界区
+  firstOption: 20, // 打乱顺序的问题全部选择了第一个展示的选项
+  allOptions: 10, // 多选题勾选了全部（非互斥）选项
+};
+
+// 规则对应的文案键（向用户或管理员解释评分）
+export const RISK_RULE_MESSAGES: Record<RiskRule, MessageKey> = {
+  behaviorMissing: 'risk.behaviorMissing',
+  behaviorIdle: 'risk.behaviorIdle',
+  noPointer: 'risk.noPointer',
+  lowPointer: 'risk.lowPointer',
+  fewClicks: 'risk.fewClicks',
+  noScrollOrKeys: 'risk.noScrollOrKeys',
+  fast: 'risk.fast',
+  speeding: 'risk.speeding',
+  straightlining: 'risk.straightlining',
+  captchaFallback: 'risk.captchaFallback',
+  firstOption: 'risk.firstOption',
+  allOptions: 'risk.allOptions',
+};
+
+const MAX_IDLE_TIME = 120 * 1000; // 最后活动距离现在不能超过2分钟
+const FAST_DURATION = 30 * 1000; // 正常用户完成问卷至少需要30秒
+
+export interface RiskContribution {
+  rule: RiskRule;
+  points: number;
+}
+
+export interface RiskAssessment {
+  // 0-100，越高越可疑
+  score: number;
+  contributions: RiskContribution[];
+}
+
+export type RiskDecision = 'accept' | 'quarantine' | 'reject';
+
+export interface RiskPolicy {
+  quarantine: number;
+  reject: number;
+}
+
+export const DEFAULT_RISK_POLICY: RiskPolicy = { quarantine: 40, reject: 70 };
+
+/**
+ * 行为规则
+ */
+function checkBehavior(signals: RiskSignals, hit: (rule: RiskRule) => void): void {
+  const { behavior, isMobile = false, now = Date.now() } = signals;
+  if (behavior === undefined) return;
+  if (behavior === null) {
+    hit('behaviorMissing');
+    return;
+  }
+
+  // 1. 最后活动时间（防止长时间挂起页面后提交）
+  if (!behavior.lastActivity || now - behavior.lastActivity > MAX_IDLE_TIME) {
+    hit('behaviorIdle');
+  }
+
+  // 2. PC端检查鼠标移动，移动端检查触摸事件
+  if (isMobile) {
+    if (behavior.touchEvents < 3) hit('noPointer');
+  } else if (behavior.mouseMovements < 5) {
+    hit('noPointer');
+  } else if (behavior.mouseMovements <= 10) {
+    hit('lowPointer');
+  }
+
+  // 3. 点击次数（选择答案至少需要3次）
+  if (behavior.clicks < 3) {
+    hit('fewClicks');
+  }
+
+  // 4. 其他交互
+  if (behavior.scrolls === 0 && behavior.keyPresses === 0) {
+    hit('noScrollOrKeys');
+  }
+}
+
+/**
+ * 答案模式规则
+ */
+function checkAnswers(signals: RiskSignals, hit: (rule: RiskRule) => void): void {
+  const { answers, optionOrder } = signals;
+  if (!answers) return;
+
+  // 1. 打乱顺序的问题全部选择第一个展示的选项（至少两题才判断）
+  if (optionOrder) {
+    const firstChoices = questions.flatMap(question => {
+      const order = optionOrder[question.id];
+      const answer = answers[question.id];
+      if (question.type !== 'choice' || !order || typeof answer !== 'string') return [];
+      return [order[0] === answer];
+    });
+    if (firstChoices.length >= 2 && firstChoices.every(Boolean)) {
+      hit('firstOption');
+    }
+  }
+
+  // 2. 多选题勾选了全部非互斥选项
+  const selectsAll = questions.some(question => {
+    const answer = answers[question.id];
+    if (question.type !== 'multi' || !Array.isArray(answer)) return false;
+    const selectable = (question.options ?? []).filter(option => !option.exclusive);
+    return selectable.length > 2 && selectable.every(option => answer.includes(option.code));
+  });
+  if (selectsAll) {
+    hit('allOptions');
+  }
+}
+
+/**
+ * 计算风险分
+ */
+export function assessRisk(signals: RiskSignals): RiskAssessment {
+  const contributions: RiskContribution[] = [];
+  const hit = (rule: RiskRule) => {
+    contributions.push({ rule, points: RISK_RULE_POINTS[rule] });
+  };
+
+  checkBehavior(signals, hit);
+
+  if (signals.elapsedMs !== undefined && signals.elapsedMs < FAST_DURATION) {
+    hit('fast');
+  }
+
+  if (signals.timings) {
+    if (isSpeeding(signals.timings)) hit('speeding');
+    if (signals.answers && findStraightlinedQuestions(signals.answers, signals.timings).length > 0) {
+      hit('straightlining');
+    }
+  }
+
+  if (signals.captcha === 'fallback') {
+    hit('captchaFallback');
+  }
+
+  checkAnswers(signals, hit);
+
+  const total = contributions.reduce((sum, contribution) => sum + contribution.points, 0);
+  return { score: Math.min(total, 100), contributions };
+}
+
+/**
+ * 按策略决定如何处理
+ */
+export function decideRisk(score: number, policy: RiskPolicy = DEFAULT_RISK_POLICY): RiskDecision {
+  if (score >= policy.reject) return 'reject';
+  if (score >= policy.quarantine) return 'quarantine';
+  return 'accept';
+}
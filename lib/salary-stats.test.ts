@@ -0,0 +1,62 @@
+/**
+ * 薪资月数直方图汇总：分位数插值与 PostgreSQL 的 PERCENTILE_CONT 一致
+ * 期望值即对展开后的取值执行 PERCENTILE_CONT 的结果，例如
+ * SELECT PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY v) FROM unnest(ARRAY[10, 12, 12, 13]) AS v -- 11.5
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FULL_YEAR_MONTHS, summarizeSalaryHistogram } from './salary-stats';
+
+describe('summarizeSalaryHistogram', () => {
+  it('没有回复时各项为 0，直方图仍列出 0-18 的全部取值', () => {
+    const summary = summarizeSalaryHistogram({});
+    assert.equal(summary.mean, 0);
+    assert.equal(summary.median, 0);
+    assert.equal(summary.p25, 0);
+    assert.equal(summary.p75, 0);
+    assert.equal(summary.belowFullYearShare, 0);
+    assert.equal(summary.histogram.length, 37);
+    assert.deepEqual(summary.histogram[0], { months: 0, count: 0 });
+    assert.deepEqual(summary.histogram[1], { months: 0.5, count: 0 });
+    assert.deepEqual(summary.histogram[36], { months: 18, count: 0 });
+    assert.ok(summary.histogram.every(bucket => bucket.count === 0));
+  });
+
+  it('只有一个取值时均值和各分位数都等于该值', () => {
+    const summary = summarizeSalaryHistogram({ '10.5': 3 });
+    assert.equal(summary.mean, 10.5);
+    assert.equal(summary.median, 10.5);
+    assert.equal(summary.p25, 10.5);
+    assert.equal(summary.p75, 10.5);
+    assert.equal(summary.belowFullYearShare, 1);
+    assert.equal(summary.histogram.find(bucket => bucket.months === 10.5)?.count, 3);
+  });
+
+  it('分位数在相邻取值之间线性插值（同 PERCENTILE_CONT）', () => {
+    // 展开为 [10, 12, 12, 13]
+    const summary = summarizeSalaryHistogram({ '10.0': 1, '12.0': 2, '13.0': 1 });
+    assert.equal(summary.mean, 11.75);
+    assert.equal(summary.median, 12);
+    assert.equal(summary.p25, 11.5);
+    assert.equal(summary.p75, 12.25);
+
+    // 展开为 [11, 12]：中位数落在两个取值之间
+    const pair = summarizeSalaryHistogram({ '11.0': 1, '12.0': 1 });
+    assert.equal(pair.median, 11.5);
+    assert.equal(pair.p25, 11.25);
+    assert.equal(pair.p75, 11.75);
+  });
+
+  it('低于 12 个月的比例不包括正好 12 个月', () => {
+    const summary = summarizeSalaryHistogram({ '0.0': 1, '11.5': 1, [`${FULL_YEAR_MONTHS}.0`]: 1, '14.0': 1 });
+    assert.equal(summary.belowFullYearShare, 0.5);
+  });
+
+  it('同一取值的不同写法合并，人数为 0 或无效的键忽略', () => {
+    const summary = summarizeSalaryHistogram({ '12': 1, '12.0': 2, '13.0': 0, abc: 5 });
+    assert.equal(summary.mean, 12);
+    assert.equal(summary.histogram.find(bucket => bucket.months === 12)?.count, 3);
+    assert.equal(summary.histogram.find(bucket => bucket.months === 13)?.count, 0);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * 实发薪资月数统计（服务端和看板共用）
+ *
+ * aggregated_stats.salary_histogram 按期次保存每个取值的人数（由触发器增量维护，见 scripts/init-db.sql），
+ * 均值、中位数、分位数和低于 12 个月的比例都只在这里由直方图计算，不需要扫描回复表；
+ * 分位数的插值方式与 PostgreSQL 的 PERCENTILE_CONT 一致
+ */
+
+import { getQuestion } from './questions';
+
+// 低于该月数视为年终奖取消或扣薪
+export const FULL_YEAR_MONTHS = 12;
+
+// 取值 -> 人数（键为数据库中的文本形式，如 "12.0"）
+export type SalaryHistogram = Record<string, number>;
+
+export interface SalaryMonthsSummary {
+  mean: number;
+  median: number;
+  p25: number;
+  p75: number;
+  // 低于 12 个月的人数占比（0-1）
+  belowFullYearShare: number;
+  // 按问题配置的步长（0-18，步长 0.5）列出全部取值，没有人选的取值人数为 0
+  histogram: Array<{ months: number; count: number }>;
+}
+
+/**
+ * 问题配置中的全部取值（按步长）
+ */
+function salaryMonthsValues(): number[] {
+  const question = getQuestion('salary_months');
+  const min = question?.min ?? 0;
+  const max = question?.max ?? 18;
+  const step = question?.step ?? 0.5;
+  const count = Math.round((max - min) / step) + 1;
+  return Array.from({ length: count }, (_, i) => Math.round((min + i * step) * 10) / 10);
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * 由按取值排序的 [取值, 人数] 计算分位数（线性插值，同 PERCENTILE_CONT）
+ */
+function percentile(sorted: Array<[number, number]>, total: number, fraction: number): number {
+  if (total === 0) return 0;
+  const position = (total - 1) * fraction;
+  const valueAt = (index: number): number => {
+    let seen = 0;
+    for (const [value, count] of sorted) {
+      seen += count;
+      if (seen > index) return value;
+    }
+    return sorted[sorted.length - 1]?.[0] ?? 0;
+  };
+  const lower = valueAt(Math.floor(position));
+  const upper = valueAt(Math.ceil(position));
+  return lower + (upper - lower) * (position - Math.floor(position));
+}
+
+/**
+ * 汇总直方图（没有回复时各项为 0）
+ */
+export function summarizeSalaryHistogram(histogram: SalaryHistogram): SalaryMonthsSummary {
+  const counts = new Map<number, number>();
+  for (const [key, value] of Object.entries(histogram)) {
+    const months = Number(key);
+    const count = Number(value);
+    if (Number.isFinite(months) && count > 0) {
+      counts.set(months, (counts.get(months) ?? 0) + count);
+    }
+  }
+
+  const sorted = [...counts.entries()].sort((a, b) => a[0] - b[0]);
+  const total = sorted.reduce((sum, [, count]) => sum + count, 0);
+  const sum = sorted.reduce((acc, [months, count]) => acc + months * count, 0);
+  const below = sorted
+    .filter(([months]) => months < FULL_YEAR_MONTHS)
+    .reduce((acc, [, count]) => acc + count, 0);
+
+  return {
+    mean: total > 0 ? round(sum / total) : 0,
+    median: round(percentile(sorted, total, 0.5)),
+    p25: round(percentile(sorted, total, 0.25)),
+    p75: round(percentile(sorted, total, 0.75)),
+    belowFullYearShare: total > 0 ? round(below / total, 4) : 0,
+    histogram: salaryMonthsValues().map(months => ({ months, count: counts.get(months) ?? 0 })),
+  };
+}
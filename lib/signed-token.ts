@@ -0,0 +1,79 @@
+/**
+ * 签名 token 工具（服务端）
+ * 格式：base64url(JSON payload).base64url(HMAC-SHA256 签名)
+ * 用于服务端签发、之后由客户端原样带回的数据（答题会话、工作量证明题目），防止篡改
+ *
+ * 密钥：SURVEY_SESSION_SECRET（生产环境必须配置）
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// 未配置密钥时（仅限开发环境）使用进程内随机密钥，重启后已签发的 token 失效
+let devSecret: string | null = null;
+
+/**
+ * 获取签名密钥
+ */
+function getSecret(): string {
+  const secret = process.env['SURVEY_SESSION_SECRET'];
+  if (secret) return secret;
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SURVEY_SESSION_SECRET not configured');
+  }
+
+  if (!devSecret) {
+    console.warn('[Signed Token] SURVEY_SESSION_SECRET 未配置，使用临时密钥（仅限开发环境）');
+    devSecret = randomBytes(32).toString('hex');
+  }
+  return devSecret;
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', getSecret()).update(data).digest('base64url');
+}
+
+/**
+ * 签发 token
+ */
+export function createSignedToken(payload: object): string {
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${data}.${sign(data)}`;
+}
+
+/**
+ * 验证签名并解析 payload（payload 字段由调用方校验）
+ */
+export function readSignedToken(token: unknown): {
+  valid: boolean;
+  payload?: Record<string, unknown>;
+  reason?: string;
+} {
+  // 1. 检查格式
+  if (typeof token !== 'string' || token.length > 512) {
+    return { valid: false, reason: 'token 格式无效' };
+  }
+
+  const [data, signature, ...rest] = token.split('.');
+  if (!data || !signature || rest.length > 0) {
+    return { valid: false, reason: 'token 格式错误' };
+  }
+
+  // 2. 验证签名（恒定时间比较）
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: 'token 签名无效' };
+  }
+
+  // 3. 解析 payload
+  try {
+    const payload: unknown = JSON.parse(Buffer.from(data, 'base64url').toString('utf8'));
+    if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+      return { valid: false, reason: 'token 内容无效' };
+    }
+    return { valid: true, payload: payload as Record<string, unknown> };
+  } catch {
+    return { valid: false, reason: 'token 内容无效' };
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * 答题会话模块（服务端）
+ *
+ * 用户点击"开始匿名记录"时由服务端签发会话 token，记录服务端开始时间；
+ * 提交时服务端验证签名并按自己的时钟计算答题时长，不再信任客户端时间戳。
+ *
+ * token 由 lib/signed-token.ts 签名，payload 只包含随机 id、期次和开始时间，不包含任何用户信息
+ * 一次性使用：提交成功通过验证后，随机 id 写入 used_tokens 表
+ */
+
+import { randomBytes } from 'crypto';
+import { createSignedToken, readSignedToken } from './signed-token';
+
+// 答题时长限制（正常用户完成问卷需要30秒-5分钟，10分钟已经很宽松）
+export const MIN_SESSION_DURATION = 10 * 1000; // 最少10秒
+export const MAX_SESSION_DURATION = 10 * 60 * 1000; // 最多10分钟，超过后会话失效
+
+interface SessionPayload {
+  id: string;
+  edition: string;
+  startedAt: number;
+}
+
+export interface SurveySession extends SessionPayload {
+  expiresAt: number;
+}
+
+/**
+ * 签发答题会话
+ */
+export function issueSurveySession(edition: string): { token: string; session: SurveySession } {
+  const payload: SessionPayload = {
+    id: randomBytes(16).toString('hex'),
+    edition,
+    startedAt: Date.now(),
+  };
+
+  return {
+    token: createSignedToken(payload),
+    session: { ...payload, expiresAt: payload.startedAt + MAX_SESSION_DURATION },
+  };
+}
+
+/**
+ * 验证会话 token 的签名和格式（不检查时长，也不检查是否已使用）
+ */
+export function verifySurveySession(token: unknown): {
+  valid: boolean;
+  session?: SurveySession;
+  reason?: string;
+} {
+  const { valid, payload, reason } = readSignedToken(token);
+  if (!valid || !payload) {
+    return { valid: false, reason: `会话 ${reason ?? 'token 无效'}` };
+  }
+
+  const { id, edition, startedAt } = payload;
+  if (typeof id !== 'string' || typeof edition !== 'string' || typeof startedAt !== 'number') {
+    return { valid: false, reason: '会话 token 内容无效' };
+  }
+
+  return {
+    valid: true,
+    session: { id, edition, startedAt, expiresAt: startedAt + MAX_SESSION_DURATION },
+  };
+}
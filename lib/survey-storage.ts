@@ -0,0 +1,235 @@
+/**
+ * 问卷答案入库模块
+ * 入库字段由 questions 配置推导：survey_responses 的列名与问题 id 一一对应
+ *
+ * 各题型的存储方式：
+ * - choice / attention: VARCHAR(100)，存储选项编码
+ * - range: DECIMAL
+ * - multi: JSONB（选项编码数组）
+ * - matrix: JSONB（子项编码 -> 量表选项编码）
+ * 被跳过的问题（showIf 不满足）存为 NULL
+ * 选项展示顺序存入 option_order（JSONB，问题 id -> 选项编码数组），未提交时为 NULL
+ * 风险评分存入 risk_score / risk_decision / risk_factors（命中的规则 -> 分数），未评分时为 NULL
+ * 每题停留时长只存粗粒度区间 timing_buckets（问题 id -> 区间，见 lib/question-timing.ts），未提交时为 NULL
+ * 注意力检查答错的回复标记 low_quality，答错的题目 id 存入 quality_flags；统计触发器默认排除低质量回复，
+ * 数量可在 /api/admin/data-quality 查看
+ *
+ * 被隔离的回复（risk_decision = quarantine）存入结构相同的 quarantined_responses 表，
+ * 不触发统计；审核后放行（移回 survey_responses，由触发器重算统计）或丢弃
+ */
+
+import { questions, failedAttentionChecks, type Question } from './questions';
+import type { SurveyData } from './validation';
+import type { OptionOrder } from './option-order';
+import type { RiskAssessment, RiskDecision } from './risk-scoring';
+import type { TimingBucket } from './question-timing';
+
+/**
+ * 与答案一起入库的附加信息
+ */
+export interface SurveyResponseMeta {
+  optionOrder?: OptionOrder | null;
+  risk?: (RiskAssessment & { decision: RiskDecision }) | null;
+  timingBuckets?: Partial<Record<string, TimingBucket>> | null;
+}
+
+// 正式回复表和隔离表（隔离表多一列 quarantined_at，两表共用 id 序列，放行时保留原 id）
+export const RESPONSES_TABLE = 'survey_responses';
+export const QUARANTINE_TABLE = 'quarantined_responses';
+
+// 两表共有的列（答案列由 questions 配置推导）
+export const RESPONSE_COLUMNS = [
+  'id',
+  'edition_id',
+  'option_order',
+  'risk_score',
+  'risk_decision',
+  'risk_factors',
+  'coordination_alert_id',
+  'timing_buckets',
+  'low_quality',
+  'quality_flags',
+  ...questions.map(q => q.id),
+  'created_at',
+];
+
+// 单选题入库前的最大长度（与 VARCHAR(100) 保持一致）
+const MAX_CHOICE_LENGTH = 100;
+
+/**
+ * 将单个答案转换为数据库列值
+ */
+function toColumnValue(question: Question, value: unknown): string | number | null {
+  if (value === undefined) {
+    return null;
+  }
+
+  switch (question.type) {
+    case 'choice':
+    case 'attention':
+      return String(value).trim().substring(0, MAX_CHOICE_LENGTH);
+    case 'range':
+      return Number(value);
+    case 'multi':
+    case 'matrix':
+      return JSON.stringify(value);
+  }
+}
+
+/**
+ * 构建插入回复的参数化 SQL（被隔离的回复写入隔离表）
+ * 列名来自 questions 配置（受信任的常量），值全部通过参数传递，防止 SQL 注入
+ * 每条回复都标记所属期次（edition_id）、选项展示顺序（option_order）、风险评分和注意力检查结果
+ */
+export function buildSurveyInsert(
+  data: SurveyData,
+  editionId: string,
+  meta: SurveyResponseMeta = {}
+): {
+  text: string;
+  params: Array<string | number | boolean | null>;
+} {
+  const { optionOrder = null, risk = null, timingBuckets = null } = meta;
+  const answers = data as Record<string, unknown>;
+  const failedChecks = failedAttentionChecks(answers);
+  const columns = [
+    'edition_id',
+    'option_order',
+    'risk_score',
+    'risk_decision',
+    'risk_factors',
+    'timing_buckets',
+    'low_quality',
+    'quality_flags',
+    ...questions.map(q => q.id),
+  ];
+  const params = [
+    editionId,
+    optionOrder ? JSON.stringify(optionOrder) : null,
+    risk ? risk.score : null,
+    risk ? risk.decision : null,
+    risk
+      ? JSON.stringify(Object.fromEntries(risk.contributions.map(c => [c.rule, c.points])))
+      : null,
+    timingBuckets ? JSON.stringify(timingBuckets) : null,
+    failedChecks.length > 0,
+    failedChecks.length > 0 ? JSON.stringify(failedChecks) : null,
+    ...questions.map(q => toColumnValue(q, answers[q.id])),
+  ];
+  const placeholders = params.map((_, i) => `$${i + 1}`);
+  const table = risk?.decision === 'quarantine' ? QUARANTINE_TABLE : RESPONSES_TABLE;
+
+  return {
+    text: `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${placeholders.join(', ')}) RETURNING id`,
+    params,
+  };
+}
+
+/**
+ * 在正式表和隔离表之间移动回复的 CTE（moved 删除、inserted 插入，可与其他 CTE 组合成单条语句）
+ * 移动后 risk_decision 改为 decision；正式表的增删会触发 update_aggregated_stats 增量更新统计
+ */
+function buildMoveCtes(
+  from: string,
+  to: string,
+  condition: string,
+  decision: 'released' | 'quarantine'
+): string {
+  const selected = RESPONSE_COLUMNS.map(column =>
+    column === 'risk_decision' ? `'${decision}'` : column
+  );
+
+  return `
+    moved AS (
+      DELETE FROM ${from} WHERE ${condition}
+      RETURNING ${RESPONSE_COLUMNS.join(', ')}
+    ),
+    inserted AS (
+      INSERT INTO ${to} (${RESPONSE_COLUMNS.join(', ')})
+      SELECT ${selected.join(', ')} FROM moved
+      RETURNING id
+    )
+  `;
+}
+
+/**
+ * 构建放行查询：把隔离的回复移回正式表，risk_decision 标记为 released
+ */
+export function buildReleaseQuery(ids: number[]): { text: string; params: [number[]] } {
+  return {
+    text: `WITH ${buildMoveCtes(QUARANTINE_TABLE, RESPONSES_TABLE, 'id = ANY($1::int[])', 'released')}
+      SELECT id FROM inserted`,
+    params: [ids],
+  };
+}
+
+/**
+ * 构建告警处理查询（见 lib/coordination-detection.ts），只处理仍未处理的告警
+ * 隔离时告警状态更新和回复移入隔离表在同一条语句中完成，不会出现告警已处理而回复未移动的情况
+ * 每个已处理的告警返回一行：告警 id 和本次隔离的回复数（所有行相同）
+ */
+export function buildResolveAlertsQuery(
+  action: 'quarantine' | 'dismiss',
+  alertIds: number[]
+): { text: string; params: [number[]] } {
+  const resolved = `
+    resolved AS (
+      UPDATE coordination_alerts
+      SET status = '${action === 'quarantine' ? 'quarantined' : 'dismissed'}', resolved_at = CURRENT_TIMESTAMP
+      WHERE id = ANY($1::int[]) AND status = 'open'
+      RETURNING id
+    )
+  `;
+
+  if (action === 'dismiss') {
+    return {
+      text: `WITH ${resolved} SELECT id, 0 AS quarantined FROM resolved`,
+      params: [alertIds],
+    };
+  }
+
+  return {
+    text: `WITH ${resolved}, ${buildMoveCtes(
+      RESPONSES_TABLE,
+      QUARANTINE_TABLE,
+      'coordination_alert_id IN (SELECT id FROM resolved)',
+      'quarantine'
+    )}
+      SELECT id, (SELECT COUNT(*)::int FROM inserted) AS quarantined FROM resolved`,
+    params: [alertIds],
+  };
+}
+
+/**
+ * 构建丢弃查询：直接删除隔离的回复（从未计入统计）
+ */
+export function buildDiscardQuery(ids: number[]): { text: string; params: [number[]] } {
+  return {
+    text: `DELETE FROM ${QUARANTINE_TABLE} WHERE id = ANY($1::int[]) RETURNING id`,
+    params: [ids],
+  };
+}
+
+/**
+ * 构建位置效应查询：按（选项编码，展示位置）统计展示次数和被选中次数
+ * 展示位置从 1 开始；没有记录展示顺序（option_order 为 NULL）的回复不参与统计
+ * 只适用于打乱顺序的单选题和多选题
+ */
+export function buildPositionEffectsQuery(question: Question, editionId: string): {
+  text: string;
+  params: string[];
+} {
+  // 列名来自 questions 配置（受信任的常量）
+  const chosen = question.type === 'multi'
+    ? `r.${question.id} @> jsonb_build_array(o.code)`
+    : `r.${question.id} = o.code`;
+
+  return {
+    text: `SELECT o.code, o.position::int AS position, COUNT(*)::int AS shown, COUNT(*) FILTER (WHERE ${chosen})::int AS chosen
+FROM survey_responses r, jsonb_array_elements_text(r.option_order -> $2) WITH ORDINALITY AS o(code, position)
+WHERE r.edition_id = $1
+GROUP BY o.code, o.position
+ORDER BY o.code, o.position`,
+    params: [editionId, question.id],
+  };
+}
@@ -1,158 +1,214 @@
 // 输入验证模块
-import { questions } from './questions';
-
-export interface SurveyData {
-  industry: string;
-  salary_months: string;
-  personal_income: string;
-  personal_arrears: string;
-  friends_status: string;
-  friends_arrears_perception: string;
-  welfare_cut: string[];
-}
+import {
+  questions,
+  isValidOptionCode,
+  isValidRowCode,
+  isQuestionVisible,
+  type Question,
+  type QuestionType,
+  type SurveyAnswers,
+} from './questions';
+import { checkMultiConstraints } from './multi-select';
+import { validateOptionOrder } from './option-order';
+import { validateQuestionTimings } from './question-timing';
+
+/**
+ * 问卷数据类型（由问题配置推导）
+ */
+export type SurveyData = SurveyAnswers;
 
 export interface ValidationResult {
   valid: boolean;
   errors: string[];
 }
 
+// 技术字段（不属于问卷答案，但允许随提交一起发送）
+const TECHNICAL_FIELDS = [
+  'sessionToken',
+  'captchaToken',
+  'behaviorData',
+  'edition',
+  'optionOrder',
+  'questionTimings',
+];
+
+// 字符串最大长度（防止超长输入）
+const MAX_STRING_LENGTH = 200;
+
 /**
- * 验证问卷数据的完整性和合法性
+ * 判断答案是否为空
  */
-export function validateSurveyData(data: unknown): ValidationResult {
-  const errors: string[] = [];
+function isEmptyAnswer(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
 
-  // 1. 检查数据对象是否存在
-  if (!data || typeof data !== 'object') {
-    return {
-      valid: false,
-      errors: ['无效的数据格式']
-    };
+/**
+ * 单选题：值必须是选项编码之一
+ */
+function validateChoice(question: Question, value: unknown): string[] {
+  if (!isValidOptionCode(question, String(value))) {
+    return [`${question.id} 选项无效`];
   }
+  return [];
+}
 
-  // 类型保护：将 data 转换为可索引的对象
-  const surveyData = data as Record<string, unknown>;
-
-  // 2. 检查所有必填字段是否存在
-  const requiredFields = [
-    'industry',
-    'salary_months',
-    'personal_income',
-    'personal_arrears',
-    'friends_status',
-    'friends_arrears_perception'
-  ];
+/**
+ * 滑块题：值必须是数字，且在 min/max 范围内并符合 step
+ */
+function validateRange(question: Question, value: unknown): string[] {
+  const min = question.min ?? 0;
+  const max = question.max ?? 100;
+  const step = question.step ?? 1;
+  const numValue = parseFloat(String(value));
 
-  for (const field of requiredFields) {
-    if (surveyData[field] === undefined || surveyData[field] === null || surveyData[field] === '') {
-      errors.push(`缺少必填字段: ${field}`);
-    }
+  if (isNaN(numValue)) {
+    return [`${question.id} 必须是有效的数字`];
   }
-
-  // 如果缺少必填字段，直接返回
-  if (errors.length > 0) {
-    return { valid: false, errors };
+  if (numValue < min || numValue > max) {
+    return [`${question.id} 必须在 ${min}-${max} 之间`];
+  }
+  if ((numValue - min) % step !== 0) {
+    return [`${question.id} 必须是 ${step} 的倍数`];
   }
+  return [];
+}
 
-  // 3. 验证 salary_months 范围和格式
-  const salaryMonths = parseFloat(String(surveyData['salary_months']));
-  if (isNaN(salaryMonths)) {
-    errors.push('salary_months 必须是有效的数字');
-  } else if (salaryMonths < 0 || salaryMonths > 18) {
-    errors.push('salary_months 必须在 0-18 之间');
-  } else if (salaryMonths % 0.5 !== 0) {
-    errors.push('salary_months 必须是 0.5 的倍数');
+/**
+ * 多选题：值必须是数组，每一项都是有效选项编码，且满足选项约束（互斥、互不相容、数量）
+ */
+function validateMulti(question: Question, value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return [`${question.id} 必须是数组`];
   }
 
-  // 4. 验证 industry 选项
-  const industryQuestion = questions.find(q => q.id === 'industry');
-  if (industryQuestion?.options) {
-    if (!industryQuestion.options.includes(String(surveyData['industry']))) {
-      errors.push('industry 选项无效');
+  const errors: string[] = [];
+
+  // 检查每个选项是否有效
+  for (const item of value) {
+    if (typeof item !== 'string') {
+      errors.push(`${question.id} 包含非字符串选项`);
+      return errors;
+    }
+    if (!isValidOptionCode(question, item)) {
+      errors.push(`${question.id} 包含无效选项: ${item}`);
     }
   }
 
-  // 5. 验证 personal_income 选项
-  const personalIncomeQuestion = questions.find(q => q.id === 'personal_income');
-  if (personalIncomeQuestion?.options) {
-    if (!personalIncomeQuestion.options.includes(String(surveyData['personal_income']))) {
-      errors.push('personal_income 选项无效');
-    }
+  // 检查选项约束（与客户端共用同一套规则）
+  errors.push(...checkMultiConstraints(question, value as string[]));
+
+  return errors;
+}
+
+/**
+ * 矩阵题：值必须是对象，每个子项都要作答，且答案是有效的量表选项编码
+ */
+function validateMatrix(question: Question, value: unknown): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return [`${question.id} 必须是对象`];
   }
 
-  // 6. 验证 personal_arrears 选项
-  const personalArrearsQuestion = questions.find(q => q.id === 'personal_arrears');
-  if (personalArrearsQuestion?.options) {
-    if (!personalArrearsQuestion.options.includes(String(surveyData['personal_arrears']))) {
-      errors.push('personal_arrears 选项无效');
+  const errors: string[] = [];
+  const answers = value as Record<string, unknown>;
+
+  // 检查每个子项是否作答且选项有效
+  for (const row of question.rows ?? []) {
+    const rowValue = answers[row.code];
+    if (isEmptyAnswer(rowValue)) {
+      errors.push(`${question.id} 缺少子项: ${row.code}`);
+    } else if (typeof rowValue !== 'string' || !isValidOptionCode(question, rowValue)) {
+      errors.push(`${question.id}.${row.code} 选项无效`);
     }
   }
 
-  // 7. 验证 friends_status 选项
-  const friendsStatusQuestion = questions.find(q => q.id === 'friends_status');
-  if (friendsStatusQuestion?.options) {
-    if (!friendsStatusQuestion.options.includes(String(surveyData['friends_status']))) {
-      errors.push('friends_status 选项无效');
+  // 检查是否有未知子项
+  for (const key of Object.keys(answers)) {
+    if (!isValidRowCode(question, key)) {
+      errors.push(`${question.id} 包含未知子项: ${key}`);
     }
   }
 
-  // 8. 验证 friends_arrears_perception 选项
-  const friendsArrearsQuestion = questions.find(q => q.id === 'friends_arrears_perception');
-  if (friendsArrearsQuestion?.options) {
-    if (!friendsArrearsQuestion.options.includes(String(surveyData['friends_arrears_perception']))) {
-      errors.push('friends_arrears_perception 选项无效');
-    }
+  return errors;
+}
+
+/**
+ * 各题型的校验器
+ */
+const validators: Record<QuestionType, (question: Question, value: unknown) => string[]> = {
+  choice: validateChoice,
+  // 注意力检查题按单选题校验：答错不是格式错误，由提交接口标记为低质量
+  attention: validateChoice,
+  range: validateRange,
+  multi: validateMulti,
+  matrix: validateMatrix,
+};
+
+/**
+ * 验证问卷数据的完整性和合法性
+ * 校验规则完全由 questions 配置推导
+ */
+export function validateSurveyData(data: unknown): ValidationResult {
+  const errors: string[] = [];
+
+  // 1. 检查数据对象是否存在
+  if (!data || typeof data !== 'object') {
+    return {
+      valid: false,
+      errors: ['无效的数据格式']
+    };
   }
 
-  // 9. 验证 welfare_cut 是数组且选项有效
-  if (!Array.isArray(surveyData['welfare_cut'])) {
-    errors.push('welfare_cut 必须是数组');
-  } else {
-    const welfareCutQuestion = questions.find(q => q.id === 'welfare_cut');
-    if (welfareCutQuestion?.options) {
-      // 检查数组长度
-      if (surveyData['welfare_cut'].length === 0) {
-        errors.push('welfare_cut 至少需要选择一项');
-      } else if (surveyData['welfare_cut'].length > welfareCutQuestion.options.length) {
-        errors.push('welfare_cut 选项数量超过限制');
-      }
+  // 类型保护：将 data 转换为可索引的对象
+  const surveyData = data as Record<string, unknown>;
+
+  // 2. 检查答案集合与显示的问题一致：显示的问题必须作答，被跳过的问题不能作答
+  for (const question of questions) {
+    const answered = !isEmptyAnswer(surveyData[question.id]);
 
-      // 检查每个选项是否有效
-      for (const item of surveyData['welfare_cut']) {
-        if (typeof item !== 'string') {
-          errors.push('welfare_cut 包含非字符串选项');
-          break;
-        }
-        if (!welfareCutQuestion.options.includes(item)) {
-          errors.push(`welfare_cut 包含无效选项: ${item}`);
-        }
+    if (isQuestionVisible(question, surveyData)) {
+      if (!answered) {
+        errors.push(`缺少必填字段: ${question.id}`);
       }
+    } else if (answered) {
+      errors.push(`${question.id} 不应作答（该问题已被跳过）`);
     }
   }
 
-  // 10. 验证字符串长度（防止超长输入）
-  // 排除技术字段（submitToken、recaptchaToken、behaviorData）
-  const maxStringLength = 200;
-  const technicalFields = ['submitToken', 'recaptchaToken', 'behaviorData'];
+  // 如果答案集合不一致，直接返回
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
 
+  // 3. 按题型验证每个显示的问题的答案
+  for (const question of questions) {
+    if (isQuestionVisible(question, surveyData)) {
+      errors.push(...validators[question.type](question, surveyData[question.id]));
+    }
+  }
+
+  // 3.1. 验证选项展示顺序（随机化记录，见 lib/option-order.ts）
+  errors.push(...validateOptionOrder(surveyData['optionOrder'], surveyData));
+
+  // 3.2. 验证每题停留时长（见 lib/question-timing.ts）
+  errors.push(...validateQuestionTimings(surveyData['questionTimings'], surveyData));
+
+  // 4. 验证字符串长度（防止超长输入）
+  // 排除技术字段（sessionToken、captchaToken、behaviorData、edition、optionOrder、questionTimings）
   for (const [key, value] of Object.entries(surveyData)) {
     // 跳过技术字段的长度验证
-    if (technicalFields.includes(key)) {
+    if (TECHNICAL_FIELDS.includes(key)) {
       continue;
     }
 
-    if (typeof value === 'string' && value.length > maxStringLength) {
-      errors.push(`${key} 长度超过限制 (最大 ${maxStringLength} 字符)`);
+    if (typeof value === 'string' && value.length > MAX_STRING_LENGTH) {
+      errors.push(`${key} 长度超过限制 (最大 ${MAX_STRING_LENGTH} 字符)`);
     }
   }
 
-  // 11. 检查是否有额外的未知字段（防止数据污染）
+  // 5. 检查是否有额外的未知字段（防止数据污染）
   const allowedFields = [
-    ...requiredFields,
-    'welfare_cut',
-    'submitToken', // 允许提交 token
-    'behaviorData', // 允许行为数据
-    'recaptchaToken' // 允许reCAPTCHA token
+    ...questions.map(q => q.id),
+    ...TECHNICAL_FIELDS
   ];
 
   for (const key of Object.keys(surveyData)) {
@@ -167,3 +223,45 @@ export function validateSurveyData(data: unknown): ValidationResult {
   };
 }
 
+/**
+ * 将已通过验证的数据转换为规范类型
+ * - choice: 去除首尾空白的选项编码
+ * - range: 数字
+ * - multi: 选项编码数组
+ * - matrix: 子项编码 -> 量表选项编码
+ * - attention: 同 choice
+ * 被跳过的问题不会出现在结果中
+ *
+ * 注意：调用前必须先通过 validateSurveyData
+ */
+export function normalizeSurveyData(data: Record<string, unknown>): SurveyData {
+  const normalized: Record<string, unknown> = {};
+
+  for (const question of questions) {
+    if (!isQuestionVisible(question, data)) {
+      continue;
+    }
+
+    const value = data[question.id];
+
+    switch (question.type) {
+      case 'choice':
+      case 'attention':
+        normalized[question.id] = String(value).trim();
+        break;
+      case 'range':
+        normalized[question.id] = parseFloat(String(value));
+        break;
+      case 'multi':
+        normalized[question.id] = (value as unknown[]).map(String);
+        break;
+      case 'matrix':
+        normalized[question.id] = Object.fromEntries(
+          (question.rows ?? []).map(row => [row.code, String((value as Record<string, unknown>)[row.code])])
+        );
+        break;
+    }
+  }
+
+  return normalized as SurveyData;
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
+import { getCaptchaCspSources } from "./lib/captcha/config";
 
 export function middleware(request: NextRequest) {
   const nonce = Buffer.from(crypto.randomUUID()).toString("base64");
@@ -44,18 +45,21 @@ export function middleware(request: NextRequest) {
   headers.set("X-Frame-Options", "DENY");
   headers.set("X-XSS-Protection", "1; mode=block");
 
+  // 当前人机验证服务商需要的域名（脚本、iframe、验证请求）
+  const captchaSources = getCaptchaCspSources().join(" ");
+
   const csp = [
     "default-src 'self'",
     process.env.NODE_ENV === "development"
-      ? `script-src 'self' 'unsafe-inline' 'unsafe-eval' https://www.google.com https://www.gstatic.com` // 开发环境 + reCAPTCHA
-      : `script-src 'self' 'unsafe-inline' https://www.google.com https://www.gstatic.com`, // 生产环境 + reCAPTCHA
-    `style-src 'self' 'unsafe-inline'`, // React需要unsafe-inline用于内联样式
+      ? `script-src 'self' 'unsafe-inline' 'unsafe-eval' ${captchaSources}` // 开发环境 + 人机验证
+      : `script-src 'self' 'unsafe-inline' ${captchaSources}`, // 生产环境 + 人机验证
+    `style-src 'self' 'unsafe-inline' ${captchaSources}`, // React需要unsafe-inline用于内联样式，hCaptcha 需要加载样式
     "img-src 'self' data: https:",
     "font-src 'self' data:",
     process.env.NODE_ENV === "development"
-      ? "connect-src 'self' ws: wss: https://www.google.com" // 开发环境WebSocket + reCAPTCHA
-      : "connect-src 'self' https://www.google.com",
-    "frame-src https://www.google.com", // reCAPTCHA iframe
+      ? `connect-src 'self' ws: wss: ${captchaSources}` // 开发环境WebSocket + 人机验证
+      : `connect-src 'self' ${captchaSources}`,
+    `frame-src ${captchaSources || "'none'"}`, // 人机验证 iframe
     "frame-ancestors 'none'",
     "base-uri 'self'",
     "form-action 'self'",
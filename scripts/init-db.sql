@@ -1,27 +1,80 @@
--- 创建问卷回复表（包含所有 7 个字段）
+-- 创建问卷回复表（答案列、风险评分、协同攻击标记、答题时长区间和质量标记等）
+-- 答案列名必须与 lib/questions.ts 中的问题 id 一致，插入语句由问题配置自动生成
+-- 列类型约定：choice / attention -> VARCHAR(100)，range -> DECIMAL，multi -> JSONB（选项编码数组）
+-- 选项类答案存储稳定的选项编码（而非展示文案），修改文案不影响已有数据和统计
 CREATE TABLE IF NOT EXISTS survey_responses (
   id SERIAL PRIMARY KEY,
   industry VARCHAR(100) NOT NULL,
   salary_months DECIMAL(4, 1) NOT NULL,
   personal_income VARCHAR(100) NOT NULL,
   friends_status VARCHAR(100) NOT NULL,
-  personal_arrears VARCHAR(100) NOT NULL,
+  personal_arrears VARCHAR(100), -- 带 showIf 的问题可能被跳过，允许为 NULL
   friends_arrears_perception VARCHAR(100) NOT NULL,
-  welfare_cut TEXT,
+  welfare_cut JSONB, -- 多选题：选项编码数组
+  pay_components_change JSONB, -- 矩阵题：子项编码 -> 量表选项编码
+  attention_check VARCHAR(100), -- 注意力检查题（早期回复没有该题，允许为 NULL）
+  edition_id VARCHAR(20) NOT NULL, -- 所属期次，见 lib/editions.ts
+  option_order JSONB, -- 选项展示顺序：问题 id -> 选项编码数组（只含打乱顺序的问题），见 lib/option-order.ts
+  risk_score SMALLINT, -- 风险分（0-100），见 lib/risk-scoring.ts
+  risk_decision VARCHAR(20), -- 处理结果：accept | released（从隔离表放行）
+  risk_factors JSONB, -- 命中的规则 -> 分数（不含原始行为数据）
+  coordination_alert_id INTEGER, -- 被协同攻击检测标记时的告警 id，见 lib/coordination-detection.ts
+  timing_buckets JSONB, -- 每题停留时长区间：问题 id -> lt2s | 2to5s | 5to10s | 10to30s | gte30s，见 lib/question-timing.ts
+  low_quality BOOLEAN NOT NULL DEFAULT FALSE, -- 注意力检查答错（不计入统计，见 app/api/admin/data-quality）
+  quality_flags JSONB, -- 答错的注意力检查题 id 数组
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
 -- 创建索引以提高查询性能
 CREATE INDEX IF NOT EXISTS idx_created_at ON survey_responses(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_edition_id ON survey_responses(edition_id);
 CREATE INDEX IF NOT EXISTS idx_personal_income ON survey_responses(personal_income);
 CREATE INDEX IF NOT EXISTS idx_friends_status ON survey_responses(friends_status);
 CREATE INDEX IF NOT EXISTS idx_personal_arrears ON survey_responses(personal_arrears);
+CREATE INDEX IF NOT EXISTS idx_risk_decision ON survey_responses(risk_decision);
 
--- 创建聚合统计表（用于缓存计算结果）
+-- 隔离表：风险分达到隔离阈值的回复（结构与 survey_responses 相同，共用 id 序列）
+-- 不触发统计，审核后放行（移回 survey_responses）或丢弃，见 app/api/admin/quarantine
+-- 注意：survey_responses 新增列时隔离表需要同步添加
+CREATE TABLE IF NOT EXISTS quarantined_responses (
+  LIKE survey_responses INCLUDING DEFAULTS,
+  quarantined_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quarantined_at ON quarantined_responses(quarantined_at);
+CREATE INDEX IF NOT EXISTS idx_quarantined_edition_id ON quarantined_responses(edition_id);
+
+-- 协同攻击告警（相同答案爆发、选项分布突变），见 lib/coordination-detection.ts
+-- 告警只标记回复，由管理员审核后隔离或忽略，见 app/api/admin/alerts
+CREATE TABLE IF NOT EXISTS coordination_alerts (
+  id SERIAL PRIMARY KEY,
+  edition_id VARCHAR(20) NOT NULL,
+  kind VARCHAR(20) NOT NULL, -- burst | shift
+  question_id VARCHAR(50), -- 分布突变的问题 id
+  detail JSONB NOT NULL, -- 答案组合 / 窗口与基线的选项分布
+  response_ids INTEGER[] NOT NULL,
+  window_start TIMESTAMP NOT NULL,
+  window_end TIMESTAMP NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'open', -- open | quarantined | dismissed
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  resolved_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_coordination_alerts_status ON coordination_alerts(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_coordination_alert_id ON survey_responses(coordination_alert_id);
+
+-- 每个期次上次协同攻击检测的时间（多实例共享节流，同一间隔内只有一个实例执行检测）
+CREATE TABLE IF NOT EXISTS coordination_detection_runs (
+  edition_id VARCHAR(20) PRIMARY KEY,
+  last_run_at TIMESTAMP NOT NULL
+);
+
+-- 创建聚合统计表（用于缓存计算结果，每期一行，由触发器增量维护）
 CREATE TABLE IF NOT EXISTS aggregated_stats (
   id SERIAL PRIMARY KEY,
+  edition_id VARCHAR(20) NOT NULL UNIQUE,
   total_responses INTEGER NOT NULL,
-  avg_salary_months DECIMAL(10, 2) NOT NULL,
   income_growth INTEGER NOT NULL,
   income_stable INTEGER NOT NULL,
   income_decline INTEGER NOT NULL,
@@ -30,66 +83,313 @@ CREATE TABLE IF NOT EXISTS aggregated_stats (
   friends_worse INTEGER NOT NULL,
   arrears_safe INTEGER NOT NULL,
   arrears_risk INTEGER NOT NULL,
+  salary_histogram JSONB NOT NULL DEFAULT '{}', -- 薪资月数 -> 人数（均值、中位数和分位数由此计算，见 lib/salary-stats.ts）
+  pay_components_change JSONB NOT NULL DEFAULT '{}', -- 子项编码 -> 选项编码 -> 人数
+  welfare_cut_respondents INTEGER NOT NULL DEFAULT 0, -- 回答了福利缩水（多选）的人数
+  welfare_cut JSONB NOT NULL DEFAULT '{}', -- 选项编码 -> 选择该项的人数
+  welfare_cut_pairs JSONB NOT NULL DEFAULT '{}', -- 选项编码 -> 选项编码 -> 同时选择两项的人数（对称）
+  friends_arrears_perception JSONB NOT NULL DEFAULT '{}', -- 选项编码 -> 人数
   last_updated TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
--- 插入初始统计记录（指定 id=1，确保与触发器一致）
+-- 插入当前期的初始统计记录（新期次的统计行由触发器在第一条回复时自动创建）
 INSERT INTO aggregated_stats (
-  id, total_responses, avg_salary_months, income_growth, income_stable, income_decline,
+  edition_id, total_responses, income_growth, income_stable, income_decline,
   friends_better, friends_mixed, friends_worse, arrears_safe, arrears_risk
-) VALUES (1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0)
-ON CONFLICT (id) DO NOTHING;
+) VALUES ('2025', 0, 0, 0, 0, 0, 0, 0, 0, 0)
+ON CONFLICT (edition_id) DO NOTHING;
+
+-- 统计由行级触发器增量维护（每条回复只更新所在期次的统计行，不扫描回复表）
+-- 计数类 JSONB 相加（支持嵌套对象，如矩阵题的 子项 -> 选项 -> 人数），结果中为 0 的计数和空对象被移除
+CREATE OR REPLACE FUNCTION jsonb_sum_counts(a JSONB, b JSONB)
+RETURNS JSONB AS $$
+BEGIN
+  -- 递归处理嵌套对象（plpgsql 函数体在调用时才解析，可以引用自身）
+  RETURN (
+    SELECT COALESCE(jsonb_object_agg(s.key, s.value), '{}'::jsonb)
+    FROM (
+      SELECT
+        key,
+        CASE
+          WHEN jsonb_typeof(COALESCE(x.value, y.value)) = 'object'
+            THEN jsonb_sum_counts(COALESCE(x.value, '{}'::jsonb), COALESCE(y.value, '{}'::jsonb))
+          ELSE to_jsonb(COALESCE(x.value::numeric, 0) + COALESCE(y.value::numeric, 0))
+        END AS value
+      FROM jsonb_each(a) x
+      FULL JOIN jsonb_each(b) y USING (key)
+    ) s
+    WHERE s.value NOT IN ('0'::jsonb, '{}'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- 把一条回复计入（delta = 1）或移出（delta = -1）所在期次的统计
+-- 只更新该期的统计行，不扫描回复表；薪资月数只维护直方图，中位数等由读取方计算（见 lib/salary-stats.ts）
+-- 注意：按选项编码匹配，编码定义见 lib/questions.ts；低质量回复（low_quality）不计入统计
+CREATE OR REPLACE FUNCTION apply_response_to_stats(r survey_responses, delta INTEGER)
+RETURNS void AS $$
+BEGIN
+  IF r.low_quality THEN
+    RETURN;
+  END IF;
+
+  -- 新期次的统计行在第一条回复时创建
+  INSERT INTO aggregated_stats (
+    edition_id, total_responses, income_growth, income_stable, income_decline,
+    friends_better, friends_mixed, friends_worse, arrears_safe, arrears_risk,
+    salary_histogram, pay_components_change,
+    welfare_cut_respondents, welfare_cut, welfare_cut_pairs, friends_arrears_perception, last_updated
+  ) VALUES (
+    r.edition_id,
+    delta,
+    CASE WHEN r.personal_income = 'growth' THEN delta ELSE 0 END,
+    CASE WHEN r.personal_income = 'stable' THEN delta ELSE 0 END,
+    CASE WHEN r.personal_income IN ('mild_decline', 'severe_decline', 'halved_or_zero') THEN delta ELSE 0 END,
+    CASE WHEN r.friends_status = 'better' THEN delta ELSE 0 END,
+    CASE WHEN r.friends_status = 'mixed' THEN delta ELSE 0 END,
+    CASE WHEN r.friends_status IN ('worse', 'protesting') THEN delta ELSE 0 END,
+    CASE WHEN r.personal_arrears IN ('never', 'delayed_then_paid') THEN delta ELSE 0 END,
+    CASE WHEN r.personal_arrears IN ('owed_under_3m', 'owed_over_6m') THEN delta ELSE 0 END,
+    jsonb_build_object(r.salary_months::text, delta),
+    -- 矩阵题：子项 -> 所选选项 -> 人数
+    COALESCE((
+      SELECT jsonb_object_agg(e.key, jsonb_build_object(e.value, delta))
+      FROM jsonb_each_text(r.pay_components_change) AS e
+    ), '{}'::jsonb),
+    -- 多选题：每个选项的人数，以及两两同时选择的人数
+    CASE WHEN r.welfare_cut IS NULL THEN 0 ELSE delta END,
+    COALESCE((
+      SELECT jsonb_object_agg(w.code, delta)
+      FROM jsonb_array_elements_text(r.welfare_cut) AS w(code)
+    ), '{}'::jsonb),
+    COALESCE((
+      SELECT jsonb_object_agg(a.code, (
+        SELECT jsonb_object_agg(b.code, delta)
+        FROM jsonb_array_elements_text(r.welfare_cut) AS b(code)
+        WHERE b.code <> a.code
+      ))
+      FROM jsonb_array_elements_text(r.welfare_cut) AS a(code)
+      WHERE jsonb_array_length(r.welfare_cut) > 1
+    ), '{}'::jsonb),
+    CASE
+      WHEN r.friends_arrears_perception IS NULL THEN '{}'::jsonb
+      ELSE jsonb_build_object(r.friends_arrears_perception, delta)
+    END,
+    CURRENT_TIMESTAMP
+  )
+  ON CONFLICT (edition_id) DO UPDATE SET
+    total_responses = aggregated_stats.total_responses + EXCLUDED.total_responses,
+    income_growth = aggregated_stats.income_growth + EXCLUDED.income_growth,
+    income_stable = aggregated_stats.income_stable + EXCLUDED.income_stable,
+    income_decline = aggregated_stats.income_decline + EXCLUDED.income_decline,
+    friends_better = aggregated_stats.friends_better + EXCLUDED.friends_better,
+    friends_mixed = aggregated_stats.friends_mixed + EXCLUDED.friends_mixed,
+    friends_worse = aggregated_stats.friends_worse + EXCLUDED.friends_worse,
+    arrears_safe = aggregated_stats.arrears_safe + EXCLUDED.arrears_safe,
+    arrears_risk = aggregated_stats.arrears_risk + EXCLUDED.arrears_risk,
+    salary_histogram = jsonb_sum_counts(aggregated_stats.salary_histogram, EXCLUDED.salary_histogram),
+    pay_components_change = jsonb_sum_counts(aggregated_stats.pay_components_change, EXCLUDED.pay_components_change),
+    welfare_cut_respondents = aggregated_stats.welfare_cut_respondents + EXCLUDED.welfare_cut_respondents,
+    welfare_cut = jsonb_sum_counts(aggregated_stats.welfare_cut, EXCLUDED.welfare_cut),
+    welfare_cut_pairs = jsonb_sum_counts(aggregated_stats.welfare_cut_pairs, EXCLUDED.welfare_cut_pairs),
+    friends_arrears_perception = jsonb_sum_counts(aggregated_stats.friends_arrears_perception, EXCLUDED.friends_arrears_perception),
+    last_updated = EXCLUDED.last_updated;
+END;
+$$ LANGUAGE plpgsql;
 
--- 创建触发器函数来自动更新统计数据
+-- 触发器函数：按行增量更新统计（删除或修改前的行移出，插入或修改后的行计入）
 CREATE OR REPLACE FUNCTION update_aggregated_stats()
 RETURNS TRIGGER AS $$
 BEGIN
-  UPDATE aggregated_stats
-  SET
-    total_responses = (SELECT COUNT(*) FROM survey_responses),
-    avg_salary_months = (
-      SELECT COALESCE(PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY salary_months), 0)
-      FROM survey_responses
-    ),
-    income_growth = (SELECT COUNT(*) FROM survey_responses WHERE personal_income = '逆势增长 (涨幅 > 10%)'),
-    income_stable = (SELECT COUNT(*) FROM survey_responses WHERE personal_income = '基本持平 (波动 < 10%)'),
-    income_decline = (SELECT COUNT(*) FROM survey_responses WHERE personal_income IN ('温和下跌 (跌幅 10%-30%)', '严重下跌 (跌幅 > 30%)', '腰斩/失业归零')),
-    friends_better = (SELECT COUNT(*) FROM survey_responses WHERE friends_status = '普遍在涨薪/跳槽，行情不错'),
-    friends_mixed = (SELECT COUNT(*) FROM survey_responses WHERE friends_status = '只有极个别能力强的在涨，大部分苟着'),
-    friends_worse = (SELECT COUNT(*) FROM survey_responses WHERE friends_status IN ('大家都在降薪/被裁，怨气很重', '都在谈论维权/讨薪，情况恶劣')),
-    arrears_safe = (SELECT COUNT(*) FROM survey_responses WHERE personal_arrears IN ('从未欠薪，按时发放', '偶尔延迟，最终发了')),
-    arrears_risk = (SELECT COUNT(*) FROM survey_responses WHERE personal_arrears IN ('正在被拖欠 (3个月以内)', '正在被拖欠 (半年以上/无望)')),
-    last_updated = CURRENT_TIMESTAMP
-  WHERE id = 1;
-  RETURN NEW;
+  -- 只改了不参与统计的列（如协同攻击告警 id、风险处理结果）时跳过
+  IF TG_OP = 'UPDATE' AND (
+    OLD.edition_id, OLD.low_quality, OLD.salary_months, OLD.personal_income,
+    OLD.friends_status, OLD.personal_arrears, OLD.pay_components_change,
+    OLD.welfare_cut, OLD.friends_arrears_perception
+  ) IS NOT DISTINCT FROM (
+    NEW.edition_id, NEW.low_quality, NEW.salary_months, NEW.personal_income,
+    NEW.friends_status, NEW.personal_arrears, NEW.pay_components_change,
+    NEW.welfare_cut, NEW.friends_arrears_perception
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM apply_response_to_stats(OLD, -1);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM apply_response_to_stats(NEW, 1);
+  END IF;
+
+  RETURN NULL;
 END;
 $$ LANGUAGE plpgsql;
 
--- 创建触发器
+-- 创建触发器（行级）
 DROP TRIGGER IF EXISTS trigger_update_stats ON survey_responses;
 CREATE TRIGGER trigger_update_stats
 AFTER INSERT OR UPDATE OR DELETE ON survey_responses
-FOR EACH STATEMENT
+FOR EACH ROW
 EXECUTE FUNCTION update_aggregated_stats();
 
--- 创建全局速率限制表
-CREATE TABLE IF NOT EXISTS rate_limit_global (
-  id SERIAL PRIMARY KEY,
-  window_start TIMESTAMP NOT NULL UNIQUE,
-  request_count INTEGER NOT NULL DEFAULT 0,
-  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+-- 从头重算全部期次的统计（核对增量结果、修复漂移，或 TRUNCATE 等不触发行级触发器的操作之后使用）
+-- 返回每期的回复数，以及重算前的增量结果是否与重算结果不一致（drifted）
+-- 重算期间阻塞回复表的写入，避免与触发器的增量更新交错
+-- 用法：SELECT * FROM rebuild_aggregated_stats(); 或 POST /api/admin/rebuild-stats
+CREATE OR REPLACE FUNCTION rebuild_aggregated_stats()
+RETURNS TABLE (edition VARCHAR, responses INTEGER, drifted BOOLEAN) AS $$
+BEGIN
+  LOCK TABLE survey_responses IN SHARE MODE;
+
+  RETURN QUERY
+  WITH rebuilt AS (
+    SELECT
+      e.edition_id,
+      COUNT(r.id)::int AS total_responses,
+      COUNT(*) FILTER (WHERE r.personal_income = 'growth')::int AS income_growth,
+      COUNT(*) FILTER (WHERE r.personal_income = 'stable')::int AS income_stable,
+      COUNT(*) FILTER (WHERE r.personal_income IN ('mild_decline', 'severe_decline', 'halved_or_zero'))::int AS income_decline,
+      COUNT(*) FILTER (WHERE r.friends_status = 'better')::int AS friends_better,
+      COUNT(*) FILTER (WHERE r.friends_status = 'mixed')::int AS friends_mixed,
+      COUNT(*) FILTER (WHERE r.friends_status IN ('worse', 'protesting'))::int AS friends_worse,
+      COUNT(*) FILTER (WHERE r.personal_arrears IN ('never', 'delayed_then_paid'))::int AS arrears_safe,
+      COUNT(*) FILTER (WHERE r.personal_arrears IN ('owed_under_3m', 'owed_over_6m'))::int AS arrears_risk,
+      COALESCE((
+        SELECT jsonb_object_agg(h.months, h.cnt)
+        FROM (
+          SELECT m.salary_months::text AS months, COUNT(*) AS cnt
+          FROM survey_responses m
+          WHERE m.edition_id = e.edition_id AND NOT m.low_quality
+          GROUP BY m.salary_months
+        ) h
+      ), '{}'::jsonb) AS salary_histogram,
+      COALESCE((
+        SELECT jsonb_object_agg(d.row_code, d.distribution)
+        FROM (
+          SELECT c.row_code, jsonb_object_agg(c.option_code, c.cnt) AS distribution
+          FROM (
+            SELECT p.key AS row_code, p.value AS option_code, COUNT(*) AS cnt
+            FROM survey_responses m, jsonb_each_text(m.pay_components_change) AS p
+            WHERE m.edition_id = e.edition_id AND NOT m.low_quality
+            GROUP BY p.key, p.value
+          ) c
+          GROUP BY c.row_code
+        ) d
+      ), '{}'::jsonb) AS pay_components_change,
+      COUNT(r.welfare_cut)::int AS welfare_cut_respondents,
+      COALESCE((
+        SELECT jsonb_object_agg(w.code, w.cnt)
+        FROM (
+          SELECT o.code, COUNT(*) AS cnt
+          FROM survey_responses m, jsonb_array_elements_text(m.welfare_cut) AS o(code)
+          WHERE m.edition_id = e.edition_id AND NOT m.low_quality
+          GROUP BY o.code
+        ) w
+      ), '{}'::jsonb) AS welfare_cut,
+      COALESCE((
+        SELECT jsonb_object_agg(d.code_a, d.distribution)
+        FROM (
+          SELECT c.code_a, jsonb_object_agg(c.code_b, c.cnt) AS distribution
+          FROM (
+            SELECT a.code AS code_a, b.code AS code_b, COUNT(*) AS cnt
+            FROM survey_responses m,
+              jsonb_array_elements_text(m.welfare_cut) AS a(code),
+              jsonb_array_elements_text(m.welfare_cut) AS b(code)
+            WHERE m.edition_id = e.edition_id AND NOT m.low_quality AND a.code <> b.code
+            GROUP BY a.code, b.code
+          ) c
+          GROUP BY c.code_a
+        ) d
+      ), '{}'::jsonb) AS welfare_cut_pairs,
+      COALESCE((
+        SELECT jsonb_object_agg(f.code, f.cnt)
+        FROM (
+          SELECT m.friends_arrears_perception AS code, COUNT(*) AS cnt
+          FROM survey_responses m
+          WHERE m.edition_id = e.edition_id AND NOT m.low_quality AND m.friends_arrears_perception IS NOT NULL
+          GROUP BY m.friends_arrears_perception
+        ) f
+      ), '{}'::jsonb) AS friends_arrears_perception
+    FROM (
+      SELECT s.edition_id FROM aggregated_stats s
+      UNION
+      SELECT m.edition_id FROM survey_responses m
+    ) e
+    LEFT JOIN survey_responses r ON r.edition_id = e.edition_id AND NOT r.low_quality
+    GROUP BY e.edition_id
+  ),
+  previous AS (
+    SELECT s.* FROM aggregated_stats s
+  ),
+  saved AS (
+    INSERT INTO aggregated_stats AS s (
+      edition_id, total_responses, income_growth, income_stable, income_decline,
+      friends_better, friends_mixed, friends_worse, arrears_safe, arrears_risk,
+      salary_histogram, pay_components_change,
+      welfare_cut_respondents, welfare_cut, welfare_cut_pairs, friends_arrears_perception, last_updated
+    )
+    SELECT
+      b.edition_id, b.total_responses, b.income_growth, b.income_stable, b.income_decline,
+      b.friends_better, b.friends_mixed, b.friends_worse, b.arrears_safe, b.arrears_risk,
+      b.salary_histogram, b.pay_components_change,
+      b.welfare_cut_respondents, b.welfare_cut, b.welfare_cut_pairs, b.friends_arrears_perception, CURRENT_TIMESTAMP
+    FROM rebuilt b
+    ON CONFLICT (edition_id) DO UPDATE SET
+      total_responses = EXCLUDED.total_responses,
+      income_growth = EXCLUDED.income_growth,
+      income_stable = EXCLUDED.income_stable,
+      income_decline = EXCLUDED.income_decline,
+      friends_better = EXCLUDED.friends_better,
+      friends_mixed = EXCLUDED.friends_mixed,
+      friends_worse = EXCLUDED.friends_worse,
+      arrears_safe = EXCLUDED.arrears_safe,
+      arrears_risk = EXCLUDED.arrears_risk,
+      salary_histogram = EXCLUDED.salary_histogram,
+      pay_components_change = EXCLUDED.pay_components_change,
+      welfare_cut_respondents = EXCLUDED.welfare_cut_respondents,
+      welfare_cut = EXCLUDED.welfare_cut,
+      welfare_cut_pairs = EXCLUDED.welfare_cut_pairs,
+      friends_arrears_perception = EXCLUDED.friends_arrears_perception,
+      last_updated = EXCLUDED.last_updated
+    RETURNING s.edition_id
+  )
+  SELECT
+    b.edition_id,
+    b.total_responses,
+    p.edition_id IS NULL OR (
+      b.total_responses, b.income_growth, b.income_stable, b.income_decline,
+      b.friends_better, b.friends_mixed, b.friends_worse, b.arrears_safe, b.arrears_risk,
+      b.salary_histogram, b.pay_components_change,
+      b.welfare_cut_respondents, b.welfare_cut, b.welfare_cut_pairs, b.friends_arrears_perception
+    ) IS DISTINCT FROM (
+      p.total_responses, p.income_growth, p.income_stable, p.income_decline,
+      p.friends_better, p.friends_mixed, p.friends_worse, p.arrears_safe, p.arrears_risk,
+      p.salary_histogram, p.pay_components_change,
+      p.welfare_cut_respondents, p.welfare_cut, p.welfare_cut_pairs, p.friends_arrears_perception
+    )
+  FROM rebuilt b
+  LEFT JOIN previous p ON p.edition_id = b.edition_id
+  ORDER BY b.edition_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 创建速率限制记录表（滑动窗口：每个请求一条记录，只记录桶名和时间，不记录用户信息）
+-- 桶和各桶的限制见 lib/rate-limit.ts
+CREATE TABLE IF NOT EXISTS rate_limit_events (
+  id BIGSERIAL PRIMARY KEY,
+  bucket VARCHAR(20) NOT NULL, -- read | session | challenge | write
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
 
 -- 创建索引以提高查询性能
-CREATE INDEX IF NOT EXISTS idx_rate_limit_window ON rate_limit_global(window_start DESC);
+CREATE INDEX IF NOT EXISTS idx_rate_limit_bucket_time ON rate_limit_events(bucket, created_at DESC);
 
--- 创建自动清理过期记录的函数
+-- 创建自动清理过期记录的函数（窗口最长 1 小时）
 CREATE OR REPLACE FUNCTION cleanup_old_rate_limit_records()
 RETURNS void AS $$
 BEGIN
-  DELETE FROM rate_limit_global
-  WHERE window_start < NOW() - INTERVAL '1 hour';
+  DELETE FROM rate_limit_events
+  WHERE created_at < NOW() - INTERVAL '1 hour';
 END;
 $$ LANGUAGE plpgsql;
 -- 创建已使用token表（防止token重放攻击）
@@ -113,6 +413,35 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+-- 创建设备提交计数表（按设备限制重复提交，见 lib/device-limit.ts）
+-- 设备键是粗粒度请求信号的 HMAC，盐每天随机生成，不保存 IP 和原始信号
+-- 当天之前的盐和计数都会删除，盐删除后旧的设备键无法再由任何信号算出，旧记录不可关联
+CREATE TABLE IF NOT EXISTS device_limit_salts (
+  day DATE PRIMARY KEY, -- UTC 日期
+  salt VARCHAR(64) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS device_submissions (
+  day DATE NOT NULL, -- UTC 日期
+  device_hash CHAR(64) NOT NULL,
+  count INTEGER NOT NULL DEFAULT 1,
+  PRIMARY KEY (day, device_hash)
+);
+
+-- 创建清理过期盐和设备计数的函数（只保留当天），返回删除的计数记录数
+DROP FUNCTION IF EXISTS cleanup_expired_device_limits();
+CREATE FUNCTION cleanup_expired_device_limits()
+RETURNS INTEGER AS $$
+DECLARE
+  deleted INTEGER;
+BEGIN
+  DELETE FROM device_limit_salts WHERE day < (NOW() AT TIME ZONE 'UTC')::date;
+  DELETE FROM device_submissions WHERE day < (NOW() AT TIME ZONE 'UTC')::date;
+  GET DIAGNOSTICS deleted = ROW_COUNT;
+  RETURN deleted;
+END;
+$$ LANGUAGE plpgsql;
+
 -- 创建定时任务（使用 pg_cron 扩展，如果可用）
 -- 注意：pg_cron 需要在数据库中启用：CREATE EXTENSION IF NOT EXISTS pg_cron;
 -- 如果 pg_cron 不可用，这些语句会失败但不影响其他功能
@@ -124,6 +453,9 @@ BEGIN
 
   -- 每小时清理一次过期的 token
   PERFORM cron.schedule('cleanup-tokens', '0 * * * *', 'SELECT cleanup_expired_tokens()');
+
+  -- 每小时清理一次前一天的盐和设备计数
+  PERFORM cron.schedule('cleanup-device-limits', '0 * * * *', 'SELECT cleanup_expired_device_limits()');
 EXCEPTION
   WHEN undefined_function THEN
     RAISE NOTICE 'pg_cron extension not available. Please run cleanup functions manually or use external scheduler.';
@@ -0,0 +1,98 @@
+-- 迁移：选项答案由展示文案改为稳定的选项编码
+-- 适用于在此之前使用 init-db.sql 初始化的数据库，可重复执行（已是编码的行保持不变）
+--
+-- 顺序说明：
+-- 1. 先替换触发器函数（按编码匹配）
+-- 2. 再回填已有数据，UPDATE 触发的语句级触发器会按新编码重新计算 aggregated_stats
+
+BEGIN;
+
+-- 1. 触发器函数改为按选项编码匹配
+CREATE OR REPLACE FUNCTION update_aggregated_stats()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE aggregated_stats
+  SET
+    total_responses = (SELECT COUNT(*) FROM survey_responses),
+    avg_salary_months = (
+      SELECT COALESCE(PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY salary_months), 0)
+      FROM survey_responses
+    ),
+    income_growth = (SELECT COUNT(*) FROM survey_responses WHERE personal_income = 'growth'),
+    income_stable = (SELECT COUNT(*) FROM survey_responses WHERE personal_income = 'stable'),
+    income_decline = (SELECT COUNT(*) FROM survey_responses WHERE personal_income IN ('mild_decline', 'severe_decline', 'halved_or_zero')),
+    friends_better = (SELECT COUNT(*) FROM survey_responses WHERE friends_status = 'better'),
+    friends_mixed = (SELECT COUNT(*) FROM survey_responses WHERE friends_status = 'mixed'),
+    friends_worse = (SELECT COUNT(*) FROM survey_responses WHERE friends_status IN ('worse', 'protesting')),
+    arrears_safe = (SELECT COUNT(*) FROM survey_responses WHERE personal_arrears IN ('never', 'delayed_then_paid')),
+    arrears_risk = (SELECT COUNT(*) FROM survey_responses WHERE personal_arrears IN ('owed_under_3m', 'owed_over_6m')),
+    last_updated = CURRENT_TIMESTAMP
+  WHERE id = 1;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 2. 文案 -> 编码 对照表（与 lib/questions.ts 保持一致）
+CREATE TEMP TABLE option_code_map (
+  question_id VARCHAR(100) NOT NULL,
+  label VARCHAR(100) NOT NULL,
+  code VARCHAR(100) NOT NULL
+) ON COMMIT DROP;
+
+INSERT INTO option_code_map (question_id, label, code) VALUES
+  ('industry', '公务员/体制内 (岸上)', 'public_sector'),
+  ('industry', '新能源/硬科技/出海', 'new_energy_tech'),
+  ('industry', '互联网/大厂', 'internet'),
+  ('industry', '房地产/建筑/设计', 'real_estate'),
+  ('industry', '金融/证券/投资', 'finance'),
+  ('industry', '制造业/外贸/实体', 'manufacturing'),
+  ('industry', '餐饮/服务/零售', 'service_retail'),
+  ('industry', '自由职业/待业', 'freelance_unemployed'),
+  ('personal_income', '逆势增长 (涨幅 > 10%)', 'growth'),
+  ('personal_income', '基本持平 (波动 < 10%)', 'stable'),
+  ('personal_income', '温和下跌 (跌幅 10%-30%)', 'mild_decline'),
+  ('personal_income', '严重下跌 (跌幅 > 30%)', 'severe_decline'),
+  ('personal_income', '腰斩/失业归零', 'halved_or_zero'),
+  ('personal_arrears', '从未欠薪，按时发放', 'never'),
+  ('personal_arrears', '偶尔延迟，最终发了', 'delayed_then_paid'),
+  ('personal_arrears', '正在被拖欠 (3个月以内)', 'owed_under_3m'),
+  ('personal_arrears', '正在被拖欠 (半年以上/无望)', 'owed_over_6m'),
+  ('friends_status', '普遍在涨薪/跳槽，行情不错', 'better'),
+  ('friends_status', '只有极个别能力强的在涨，大部分苟着', 'mixed'),
+  ('friends_status', '大家都在降薪/被裁，怨气很重', 'worse'),
+  ('friends_status', '都在谈论维权/讨薪，情况恶劣', 'protesting'),
+  ('friends_arrears_perception', '几乎没听说过 (罕见)', 'rare'),
+  ('friends_arrears_perception', '听说过一两个案例 (偶发)', 'occasional'),
+  ('friends_arrears_perception', '经常听到有人抱怨 (普遍)', 'common'),
+  ('friends_arrears_perception', '几乎各行各业都在发生 (泛滥)', 'widespread'),
+  ('welfare_cut', '公积金/社保基数调降', 'housing_fund_cut'),
+  ('welfare_cut', '年终奖/13薪 消失', 'bonus_gone'),
+  ('welfare_cut', '加班费/打车餐补 取消', 'allowance_cut'),
+  ('welfare_cut', '裁员赔偿 N+1 变 N 或更少', 'severance_cut'),
+  ('welfare_cut', '没有任何福利缩水/维持原状', 'unchanged'),
+  ('welfare_cut', '福利反而增加了', 'increased');
+
+-- 3. 回填单选题（一条语句完成，只触发一次统计重算）
+UPDATE survey_responses r
+SET
+  industry = COALESCE((SELECT code FROM option_code_map WHERE question_id = 'industry' AND label = r.industry), r.industry),
+  personal_income = COALESCE((SELECT code FROM option_code_map WHERE question_id = 'personal_income' AND label = r.personal_income), r.personal_income),
+  personal_arrears = COALESCE((SELECT code FROM option_code_map WHERE question_id = 'personal_arrears' AND label = r.personal_arrears), r.personal_arrears),
+  friends_status = COALESCE((SELECT code FROM option_code_map WHERE question_id = 'friends_status' AND label = r.friends_status), r.friends_status),
+  friends_arrears_perception = COALESCE((SELECT code FROM option_code_map WHERE question_id = 'friends_arrears_perception' AND label = r.friends_arrears_perception), r.friends_arrears_perception),
+  -- 多选题：逐项替换 JSON 数组中的文案，保持原有顺序
+  welfare_cut = CASE
+    WHEN r.welfare_cut IS NULL THEN NULL
+    ELSE (
+      SELECT COALESCE(json_agg(COALESCE(m.code, e.value) ORDER BY e.ordinality), '[]'::json)::text
+      FROM json_array_elements_text(r.welfare_cut::json) WITH ORDINALITY AS e(value, ordinality)
+      LEFT JOIN option_code_map m ON m.question_id = 'welfare_cut' AND m.label = e.value
+    )
+  END;
+
+-- 4. 检查是否还有未能映射的文案（应返回 0 行）
+-- SELECT industry, personal_income, personal_arrears, friends_status, friends_arrears_perception
+-- FROM survey_responses
+-- WHERE industry NOT IN (SELECT code FROM option_code_map WHERE question_id = 'industry');
+
+COMMIT;
@@ -0,0 +1,4 @@
+-- 迁移：支持跳题逻辑（showIf）
+-- 被跳过的问题存为 NULL，因此带 showIf 的问题对应的列需要允许 NULL
+
+ALTER TABLE survey_responses ALTER COLUMN personal_arrears DROP NOT NULL;
@@ -0,0 +1,76 @@
+-- 迁移：问卷期次
+-- 1. 已有回复全部归入 2025 期
+-- 2. aggregated_stats 由单行（id = 1）改为每期一行
+-- 3. 触发器函数改为按期次分组统计
+
+BEGIN;
+
+ALTER TABLE survey_responses ADD COLUMN IF NOT EXISTS edition_id VARCHAR(20);
+UPDATE survey_responses SET edition_id = '2025' WHERE edition_id IS NULL;
+ALTER TABLE survey_responses ALTER COLUMN edition_id SET NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_edition_id ON survey_responses(edition_id);
+
+ALTER TABLE aggregated_stats ADD COLUMN IF NOT EXISTS edition_id VARCHAR(20);
+UPDATE aggregated_stats SET edition_id = '2025' WHERE id = 1 AND edition_id IS NULL;
+DELETE FROM aggregated_stats WHERE edition_id IS NULL;
+ALTER TABLE aggregated_stats ALTER COLUMN edition_id SET NOT NULL;
+-- 约束没有 IF NOT EXISTS 写法，重复执行迁移时先检查是否已存在
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'aggregated_stats_edition_id_key'
+  ) THEN
+    ALTER TABLE aggregated_stats ADD CONSTRAINT aggregated_stats_edition_id_key UNIQUE (edition_id);
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION update_aggregated_stats()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- 按期次分组重算，每期一行
+  INSERT INTO aggregated_stats (
+    edition_id, total_responses, avg_salary_months, income_growth, income_stable, income_decline,
+    friends_better, friends_mixed, friends_worse, arrears_safe, arrears_risk, last_updated
+  )
+  SELECT
+    edition_id,
+    COUNT(*),
+    COALESCE(PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY salary_months), 0),
+    COUNT(*) FILTER (WHERE personal_income = 'growth'),
+    COUNT(*) FILTER (WHERE personal_income = 'stable'),
+    COUNT(*) FILTER (WHERE personal_income IN ('mild_decline', 'severe_decline', 'halved_or_zero')),
+    COUNT(*) FILTER (WHERE friends_status = 'better'),
+    COUNT(*) FILTER (WHERE friends_status = 'mixed'),
+    COUNT(*) FILTER (WHERE friends_status IN ('worse', 'protesting')),
+    COUNT(*) FILTER (WHERE personal_arrears IN ('never', 'delayed_then_paid')),
+    COUNT(*) FILTER (WHERE personal_arrears IN ('owed_under_3m', 'owed_over_6m')),
+    CURRENT_TIMESTAMP
+  FROM survey_responses
+  GROUP BY edition_id
+  ON CONFLICT (edition_id) DO UPDATE SET
+    total_responses = EXCLUDED.total_responses,
+    avg_salary_months = EXCLUDED.avg_salary_months,
+    income_growth = EXCLUDED.income_growth,
+    income_stable = EXCLUDED.income_stable,
+    income_decline = EXCLUDED.income_decline,
+    friends_better = EXCLUDED.friends_better,
+    friends_mixed = EXCLUDED.friends_mixed,
+    friends_worse = EXCLUDED.friends_worse,
+    arrears_safe = EXCLUDED.arrears_safe,
+    arrears_risk = EXCLUDED.arrears_risk,
+    last_updated = EXCLUDED.last_updated;
+
+  -- 回复被全部删除的期次清零
+  UPDATE aggregated_stats
+  SET
+    total_responses = 0, avg_salary_months = 0, income_growth = 0, income_stable = 0, income_decline = 0,
+    friends_better = 0, friends_mixed = 0, friends_worse = 0, arrears_safe = 0, arrears_risk = 0,
+    last_updated = CURRENT_TIMESTAMP
+  WHERE total_responses > 0
+    AND edition_id NOT IN (SELECT DISTINCT edition_id FROM survey_responses);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMIT;
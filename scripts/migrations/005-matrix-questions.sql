@@ -0,0 +1,74 @@
+-- 迁移：矩阵题（pay_components_change）
+-- 回复以 JSONB 存储，统计表保存每个子项的选项分布
+
+BEGIN;
+
+ALTER TABLE survey_responses ADD COLUMN IF NOT EXISTS pay_components_change JSONB;
+ALTER TABLE aggregated_stats ADD COLUMN IF NOT EXISTS pay_components_change JSONB NOT NULL DEFAULT '{}';
+
+CREATE OR REPLACE FUNCTION update_aggregated_stats()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- 按期次分组重算，每期一行
+  INSERT INTO aggregated_stats (
+    edition_id, total_responses, avg_salary_months, income_growth, income_stable, income_decline,
+    friends_better, friends_mixed, friends_worse, arrears_safe, arrears_risk,
+    pay_components_change, last_updated
+  )
+  SELECT
+    edition_id,
+    COUNT(*),
+    COALESCE(PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY salary_months), 0),
+    COUNT(*) FILTER (WHERE personal_income = 'growth'),
+    COUNT(*) FILTER (WHERE personal_income = 'stable'),
+    COUNT(*) FILTER (WHERE personal_income IN ('mild_decline', 'severe_decline', 'halved_or_zero')),
+    COUNT(*) FILTER (WHERE friends_status = 'better'),
+    COUNT(*) FILTER (WHERE friends_status = 'mixed'),
+    COUNT(*) FILTER (WHERE friends_status IN ('worse', 'protesting')),
+    COUNT(*) FILTER (WHERE personal_arrears IN ('never', 'delayed_then_paid')),
+    COUNT(*) FILTER (WHERE personal_arrears IN ('owed_under_3m', 'owed_over_6m')),
+    -- 矩阵题：按子项统计每个选项的人数
+    COALESCE((
+      SELECT jsonb_object_agg(d.row_code, d.distribution)
+      FROM (
+        SELECT c.row_code, jsonb_object_agg(c.option_code, c.cnt) AS distribution
+        FROM (
+          SELECT e.key AS row_code, e.value AS option_code, COUNT(*) AS cnt
+          FROM survey_responses m, jsonb_each_text(m.pay_components_change) AS e
+          WHERE m.edition_id = r.edition_id
+          GROUP BY e.key, e.value
+        ) c
+        GROUP BY c.row_code
+      ) d
+    ), '{}'::jsonb),
+    CURRENT_TIMESTAMP
+  FROM survey_responses r
+  GROUP BY r.edition_id
+  ON CONFLICT (edition_id) DO UPDATE SET
+    total_responses = EXCLUDED.total_responses,
+    avg_salary_months = EXCLUDED.avg_salary_months,
+    income_growth = EXCLUDED.income_growth,
+    income_stable = EXCLUDED.income_stable,
+    income_decline = EXCLUDED.income_decline,
+    friends_better = EXCLUDED.friends_better,
+    friends_mixed = EXCLUDED.friends_mixed,
+    friends_worse = EXCLUDED.friends_worse,
+    arrears_safe = EXCLUDED.arrears_safe,
+    arrears_risk = EXCLUDED.arrears_risk,
+    pay_components_change = EXCLUDED.pay_components_change,
+    last_updated = EXCLUDED.last_updated;
+
+  -- 回复被全部删除的期次清零
+  UPDATE aggregated_stats
+  SET
+    total_responses = 0, avg_salary_months = 0, income_growth = 0, income_stable = 0, income_decline = 0,
+    friends_better = 0, friends_mixed = 0, friends_worse = 0, arrears_safe = 0, arrears_risk = 0,
+    pay_components_change = '{}', last_updated = CURRENT_TIMESTAMP
+  WHERE total_responses > 0
+    AND edition_id NOT IN (SELECT DISTINCT edition_id FROM survey_responses);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMIT;
@@ -0,0 +1,9 @@
+-- 迁移：记录选项展示顺序（选项随机化）
+-- option_order：问题 id -> 按展示顺序排列的选项编码，只包含打乱顺序的问题
+-- 不影响统计触发器；在此之前的回复为 NULL，位置效应分析会自动忽略
+
+BEGIN;
+
+ALTER TABLE survey_responses ADD COLUMN IF NOT EXISTS option_order JSONB;
+
+COMMIT;
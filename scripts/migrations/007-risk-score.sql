@@ -0,0 +1,14 @@
+-- 迁移：记录每条回复的风险评分（见 lib/risk-scoring.ts）
+-- risk_score：0-100 的风险分；risk_decision：accept | quarantine；risk_factors：命中的规则 -> 分数
+-- 被拒绝的提交不入库；在此之前的回复为 NULL
+-- 不影响统计触发器
+
+BEGIN;
+
+ALTER TABLE survey_responses ADD COLUMN IF NOT EXISTS risk_score SMALLINT;
+ALTER TABLE survey_responses ADD COLUMN IF NOT EXISTS risk_decision VARCHAR(20);
+ALTER TABLE survey_responses ADD COLUMN IF NOT EXISTS risk_factors JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_risk_decision ON survey_responses(risk_decision);
+
+COMMIT;
@@ -0,0 +1,23 @@
+-- 迁移：隔离表（风险分达到隔离阈值的回复，见 lib/guards/risk.ts）
+-- 结构与 survey_responses 相同并共用 id 序列，放行时保留原 id；不触发统计
+-- 之前以 risk_decision = 'quarantine' 写入 survey_responses 的回复移入隔离表，统计由触发器重算
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS quarantined_responses (
+  LIKE survey_responses INCLUDING DEFAULTS,
+  quarantined_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quarantined_at ON quarantined_responses(quarantined_at);
+CREATE INDEX IF NOT EXISTS idx_quarantined_edition_id ON quarantined_responses(edition_id);
+
+WITH moved AS (
+  DELETE FROM survey_responses WHERE risk_decision = 'quarantine'
+  RETURNING *
+)
+INSERT INTO quarantined_responses
+SELECT moved.*, moved.created_at FROM moved;
+
+COMMIT;
@@ -0,0 +1,27 @@
+-- 迁移：协同攻击检测（见 lib/coordination-detection.ts）
+-- 告警记录在 coordination_alerts，被标记的回复记录告警 id（正式表和隔离表都需要该列）
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS coordination_alerts (
+  id SERIAL PRIMARY KEY,
+  edition_id VARCHAR(20) NOT NULL,
+  kind VARCHAR(20) NOT NULL, -- burst | shift
+  question_id VARCHAR(50), -- 分布突变的问题 id
+  detail JSONB NOT NULL, -- 答案组合 / 窗口与基线的选项分布
+  response_ids INTEGER[] NOT NULL,
+  window_start TIMESTAMP NOT NULL,
+  window_end TIMESTAMP NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'open', -- open | quarantined | dismissed
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  resolved_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_coordination_alerts_status ON coordination_alerts(status, created_at DESC);
+
+ALTER TABLE survey_responses ADD COLUMN IF NOT EXISTS coordination_alert_id INTEGER;
+ALTER TABLE quarantined_responses ADD COLUMN IF NOT EXISTS coordination_alert_id INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_coordination_alert_id ON survey_responses(coordination_alert_id);
+
+COMMIT;
@@ -0,0 +1,10 @@
+-- 迁移：每题停留时长区间（见 lib/question-timing.ts）
+-- 只保存粗粒度区间（问题 id -> lt2s | 2to5s | 5to10s | 10to30s | gte30s），不保存精确时长
+-- 正式表和隔离表都需要该列；不影响统计触发器
+
+BEGIN;
+
+ALTER TABLE survey_responses ADD COLUMN IF NOT EXISTS timing_buckets JSONB;
+ALTER TABLE quarantined_responses ADD COLUMN IF NOT EXISTS timing_buckets JSONB;
+
+COMMIT;
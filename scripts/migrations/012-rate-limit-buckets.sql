@@ -0,0 +1,26 @@
+-- 迁移：按接口分桶的滑动窗口速率限制（见 lib/rate-limit.ts）
+-- 原来的 rate_limit_global 按分钟计数、所有接口共用一个桶，看板轮询会挤占提交名额；
+-- 改为每个请求一条记录（只记录桶名和时间），按桶统计最近窗口内的请求数
+-- 旧表只保存最近一小时的计数，不需要迁移数据
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS rate_limit_events (
+  id BIGSERIAL PRIMARY KEY,
+  bucket VARCHAR(20) NOT NULL, -- read | session | write
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_bucket_time ON rate_limit_events(bucket, created_at DESC);
+
+CREATE OR REPLACE FUNCTION cleanup_old_rate_limit_records()
+RETURNS void AS $$
+BEGIN
+  DELETE FROM rate_limit_events
+  WHERE created_at < NOW() - INTERVAL '1 hour';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TABLE IF EXISTS rate_limit_global;
+
+COMMIT;
@@ -0,0 +1,35 @@
+-- 迁移：按设备限制重复提交（见 lib/device-limit.ts）
+-- 设备键是粗粒度请求信号的 HMAC，盐每天随机生成，不保存 IP 和原始信号
+-- 当天之前的盐和计数都会删除，盐删除后旧的设备键无法再由任何信号算出，旧记录不可关联
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS device_limit_salts (
+  day DATE PRIMARY KEY, -- UTC 日期
+  salt VARCHAR(64) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS device_submissions (
+  day DATE NOT NULL, -- UTC 日期
+  device_hash CHAR(64) NOT NULL,
+  count INTEGER NOT NULL DEFAULT 1,
+  PRIMARY KEY (day, device_hash)
+);
+
+DROP FUNCTION IF EXISTS cleanup_expired_device_limits();
+CREATE FUNCTION cleanup_expired_device_limits()
+RETURNS INTEGER AS $$
+DECLARE
+  deleted INTEGER;
+BEGIN
+  DELETE FROM device_limit_salts WHERE day < (NOW() AT TIME ZONE 'UTC')::date;
+  DELETE FROM device_submissions WHERE day < (NOW() AT TIME ZONE 'UTC')::date;
+  GET DIAGNOSTICS deleted = ROW_COUNT;
+  RETURN deleted;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMIT;
+
+-- 如果启用了 pg_cron，另外执行：
+-- SELECT cron.schedule('cleanup-device-limits', '0 * * * *', 'SELECT cleanup_expired_device_limits()');
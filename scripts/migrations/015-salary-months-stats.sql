@@ -0,0 +1,169 @@
+-- 迁移：avg_salary_months 重命名为 median_salary_months
+-- 该列一直保存的是中位数（PERCENTILE_CONT(0.5)，现在由直方图计算），看板却标为“平均”；
+-- 均值、P25/P75 和低于 12 个月的比例由 salary_histogram 计算，见 lib/salary-stats.ts
+-- 引用该列的函数需要同步更新
+
+BEGIN;
+
+ALTER TABLE aggregated_stats RENAME COLUMN avg_salary_months TO median_salary_months;
+
+-- 把一条回复计入（delta = 1）或移出（delta = -1）所在期次的统计
+-- 只更新该期的统计行，不扫描回复表；中位数由薪资月数直方图（0-18，步长 0.5）计算
+-- 注意：按选项编码匹配，编码定义见 lib/questions.ts；低质量回复（low_quality）不计入统计
+CREATE OR REPLACE FUNCTION apply_response_to_stats(r survey_responses, delta INTEGER)
+RETURNS void AS $$
+DECLARE
+  histogram JSONB;
+BEGIN
+  IF r.low_quality THEN
+    RETURN;
+  END IF;
+
+  -- 新期次的统计行在第一条回复时创建
+  INSERT INTO aggregated_stats (
+    edition_id, total_responses, median_salary_months, income_growth, income_stable, income_decline,
+    friends_better, friends_mixed, friends_worse, arrears_safe, arrears_risk,
+    salary_histogram, pay_components_change, last_updated
+  ) VALUES (
+    r.edition_id,
+    delta,
+    0,
+    CASE WHEN r.personal_income = 'growth' THEN delta ELSE 0 END,
+    CASE WHEN r.personal_income = 'stable' THEN delta ELSE 0 END,
+    CASE WHEN r.personal_income IN ('mild_decline', 'severe_decline', 'halved_or_zero') THEN delta ELSE 0 END,
+    CASE WHEN r.friends_status = 'better' THEN delta ELSE 0 END,
+    CASE WHEN r.friends_status = 'mixed' THEN delta ELSE 0 END,
+    CASE WHEN r.friends_status IN ('worse', 'protesting') THEN delta ELSE 0 END,
+    CASE WHEN r.personal_arrears IN ('never', 'delayed_then_paid') THEN delta ELSE 0 END,
+    CASE WHEN r.personal_arrears IN ('owed_under_3m', 'owed_over_6m') THEN delta ELSE 0 END,
+    jsonb_build_object(r.salary_months::text, delta),
+    -- 矩阵题：子项 -> 所选选项 -> 人数
+    COALESCE((
+      SELECT jsonb_object_agg(e.key, jsonb_build_object(e.value, delta))
+      FROM jsonb_each_text(r.pay_components_change) AS e
+    ), '{}'::jsonb),
+    CURRENT_TIMESTAMP
+  )
+  ON CONFLICT (edition_id) DO UPDATE SET
+    total_responses = aggregated_stats.total_responses + EXCLUDED.total_responses,
+    income_growth = aggregated_stats.income_growth + EXCLUDED.income_growth,
+    income_stable = aggregated_stats.income_stable + EXCLUDED.income_stable,
+    income_decline = aggregated_stats.income_decline + EXCLUDED.income_decline,
+    friends_better = aggregated_stats.friends_better + EXCLUDED.friends_better,
+    friends_mixed = aggregated_stats.friends_mixed + EXCLUDED.friends_mixed,
+    friends_worse = aggregated_stats.friends_worse + EXCLUDED.friends_worse,
+    arrears_safe = aggregated_stats.arrears_safe + EXCLUDED.arrears_safe,
+    arrears_risk = aggregated_stats.arrears_risk + EXCLUDED.arrears_risk,
+    salary_histogram = jsonb_sum_counts(aggregated_stats.salary_histogram, EXCLUDED.salary_histogram),
+    pay_components_change = jsonb_sum_counts(aggregated_stats.pay_components_change, EXCLUDED.pay_components_change),
+    last_updated = EXCLUDED.last_updated
+  RETURNING salary_histogram INTO histogram;
+
+  UPDATE aggregated_stats
+  SET median_salary_months = histogram_percentile(histogram, 0.5)
+  WHERE edition_id = r.edition_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 从头重算全部期次的统计（核对增量结果、修复漂移，或 TRUNCATE 等不触发行级触发器的操作之后使用）
+-- 返回每期的回复数，以及重算前的增量结果是否与重算结果不一致（drifted）
+-- 重算期间阻塞回复表的写入，避免与触发器的增量更新交错
+-- 用法：SELECT * FROM rebuild_aggregated_stats(); 或 POST /api/admin/rebuild-stats
+CREATE OR REPLACE FUNCTION rebuild_aggregated_stats()
+RETURNS TABLE (edition VARCHAR, responses INTEGER, drifted BOOLEAN) AS $$
+BEGIN
+  LOCK TABLE survey_responses IN SHARE MODE;
+
+  RETURN QUERY
+  WITH rebuilt AS (
+    SELECT
+      e.edition_id,
+      COUNT(r.id)::int AS total_responses,
+      COALESCE(PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY r.salary_months), 0)::decimal(10, 2) AS median_salary_months,
+      COUNT(*) FILTER (WHERE r.personal_income = 'growth')::int AS income_growth,
+      COUNT(*) FILTER (WHERE r.personal_income = 'stable')::int AS income_stable,
+      COUNT(*) FILTER (WHERE r.personal_income IN ('mild_decline', 'severe_decline', 'halved_or_zero'))::int AS income_decline,
+      COUNT(*) FILTER (WHERE r.friends_status = 'better')::int AS friends_better,
+      COUNT(*) FILTER (WHERE r.friends_status = 'mixed')::int AS friends_mixed,
+      COUNT(*) FILTER (WHERE r.friends_status IN ('worse', 'protesting'))::int AS friends_worse,
+      COUNT(*) FILTER (WHERE r.personal_arrears IN ('never', 'delayed_then_paid'))::int AS arrears_safe,
+      COUNT(*) FILTER (WHERE r.personal_arrears IN ('owed_under_3m', 'owed_over_6m'))::int AS arrears_risk,
+      COALESCE((
+        SELECT jsonb_object_agg(h.months, h.cnt)
+        FROM (
+          SELECT m.salary_months::text AS months, COUNT(*) AS cnt
+          FROM survey_responses m
+          WHERE m.edition_id = e.edition_id AND NOT m.low_quality
+          GROUP BY m.salary_months
+        ) h
+      ), '{}'::jsonb) AS salary_histogram,
+      COALESCE((
+        SELECT jsonb_object_agg(d.row_code, d.distribution)
+        FROM (
+          SELECT c.row_code, jsonb_object_agg(c.option_code, c.cnt) AS distribution
+          FROM (
+            SELECT p.key AS row_code, p.value AS option_code, COUNT(*) AS cnt
+            FROM survey_responses m, jsonb_each_text(m.pay_components_change) AS p
+            WHERE m.edition_id = e.edition_id AND NOT m.low_quality
+            GROUP BY p.key, p.value
+          ) c
+          GROUP BY c.row_code
+        ) d
+      ), '{}'::jsonb) AS pay_components_change
+    FROM (
+      SELECT s.edition_id FROM aggregated_stats s
+      UNION
+      SELECT m.edition_id FROM survey_responses m
+    ) e
+    LEFT JOIN survey_responses r ON r.edition_id = e.edition_id AND NOT r.low_quality
+    GROUP BY e.edition_id
+  ),
+  previous AS (
+    SELECT s.* FROM aggregated_stats s
+  ),
+  saved AS (
+    INSERT INTO aggregated_stats AS s (
+      edition_id, total_responses, median_salary_months, income_growth, income_stable, income_decline,
+      friends_better, friends_mixed, friends_worse, arrears_safe, arrears_risk,
+      salary_histogram, pay_components_change, last_updated
+    )
+    SELECT
+      b.edition_id, b.total_responses, b.median_salary_months, b.income_growth, b.income_stable, b.income_decline,
+      b.friends_better, b.friends_mixed, b.friends_worse, b.arrears_safe, b.arrears_risk,
+      b.salary_histogram, b.pay_components_change, CURRENT_TIMESTAMP
+    FROM rebuilt b
+    ON CONFLICT (edition_id) DO UPDATE SET
+      total_responses = EXCLUDED.total_responses,
+      median_salary_months = EXCLUDED.median_salary_months,
+      income_growth = EXCLUDED.income_growth,
+      income_stable = EXCLUDED.income_stable,
+      income_decline = EXCLUDED.income_decline,
+      friends_better = EXCLUDED.friends_better,
+      friends_mixed = EXCLUDED.friends_mixed,
+      friends_worse = EXCLUDED.friends_worse,
+      arrears_safe = EXCLUDED.arrears_safe,
+      arrears_risk = EXCLUDED.arrears_risk,
+      salary_histogram = EXCLUDED.salary_histogram,
+      pay_components_change = EXCLUDED.pay_components_change,
+      last_updated = EXCLUDED.last_updated
+    RETURNING s.edition_id
+  )
+  SELECT
+    b.edition_id,
+    b.total_responses,
+    p.edition_id IS NULL OR (
+      b.total_responses, b.median_salary_months, b.income_growth, b.income_stable, b.income_decline,
+      b.friends_better, b.friends_mixed, b.friends_worse, b.arrears_safe, b.arrears_risk,
+      b.salary_histogram, b.pay_components_change
+    ) IS DISTINCT FROM (
+      p.total_responses, p.median_salary_months, p.income_growth, p.income_stable, p.income_decline,
+      p.friends_better, p.friends_mixed, p.friends_worse, p.arrears_safe, p.arrears_risk,
+      p.salary_histogram, p.pay_components_change
+    )
+  FROM rebuilt b
+  LEFT JOIN previous p ON p.edition_id = b.edition_id
+  ORDER BY b.edition_id;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMIT;
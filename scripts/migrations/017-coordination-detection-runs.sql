@@ -0,0 +1,11 @@
+-- 迁移：协同攻击检测的跨实例节流（见 lib/coordination-detection.ts）
+-- 每个期次记录上次检测的时间，实例通过条件更新抢占检测，间隔内只有一个实例执行
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS coordination_detection_runs (
+  edition_id VARCHAR(20) PRIMARY KEY,
+  last_run_at TIMESTAMP NOT NULL
+);
+
+COMMIT;
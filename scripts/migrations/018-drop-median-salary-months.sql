@@ -0,0 +1,226 @@
+-- 迁移：统计行不再维护薪资月数中位数
+-- 均值、中位数和分位数都由 salary_histogram 计算（见 lib/salary-stats.ts），
+-- 触发器不再每次重算 median_salary_months，同一个数不再用两种方式计算
+-- 增量函数和重算函数同步更新，之后删除该列和只用于计算它的 histogram_percentile
+
+BEGIN;
+
+-- 把一条回复计入（delta = 1）或移出（delta = -1）所在期次的统计
+-- 只更新该期的统计行，不扫描回复表；薪资月数只维护直方图，中位数等由读取方计算（见 lib/salary-stats.ts）
+-- 注意：按选项编码匹配，编码定义见 lib/questions.ts；低质量回复（low_quality）不计入统计
+CREATE OR REPLACE FUNCTION apply_response_to_stats(r survey_responses, delta INTEGER)
+RETURNS void AS $$
+BEGIN
+  IF r.low_quality THEN
+    RETURN;
+  END IF;
+
+  -- 新期次的统计行在第一条回复时创建
+  INSERT INTO aggregated_stats (
+    edition_id, total_responses, income_growth, income_stable, income_decline,
+    friends_better, friends_mixed, friends_worse, arrears_safe, arrears_risk,
+    salary_histogram, pay_components_change,
+    welfare_cut_respondents, welfare_cut, welfare_cut_pairs, friends_arrears_perception, last_updated
+  ) VALUES (
+    r.edition_id,
+    delta,
+    CASE WHEN r.personal_income = 'growth' THEN delta ELSE 0 END,
+    CASE WHEN r.personal_income = 'stable' THEN delta ELSE 0 END,
+    CASE WHEN r.personal_income IN ('mild_decline', 'severe_decline', 'halved_or_zero') THEN delta ELSE 0 END,
+    CASE WHEN r.friends_status = 'better' THEN delta ELSE 0 END,
+    CASE WHEN r.friends_status = 'mixed' THEN delta ELSE 0 END,
+    CASE WHEN r.friends_status IN ('worse', 'protesting') THEN delta ELSE 0 END,
+    CASE WHEN r.personal_arrears IN ('never', 'delayed_then_paid') THEN delta ELSE 0 END,
+    CASE WHEN r.personal_arrears IN ('owed_under_3m', 'owed_over_6m') THEN delta ELSE 0 END,
+    jsonb_build_object(r.salary_months::text, delta),
+    -- 矩阵题：子项 -> 所选选项 -> 人数
+    COALESCE((
+      SELECT jsonb_object_agg(e.key, jsonb_build_object(e.value, delta))
+      FROM jsonb_each_text(r.pay_components_change) AS e
+    ), '{}'::jsonb),
+    -- 多选题：每个选项的人数，以及两两同时选择的人数
+    CASE WHEN r.welfare_cut IS NULL THEN 0 ELSE delta END,
+    COALESCE((
+      SELECT jsonb_object_agg(w.code, delta)
+      FROM jsonb_array_elements_text(r.welfare_cut) AS w(code)
+    ), '{}'::jsonb),
+    COALESCE((
+      SELECT jsonb_object_agg(a.code, (
+        SELECT jsonb_object_agg(b.code, delta)
+        FROM jsonb_array_elements_text(r.welfare_cut) AS b(code)
+        WHERE b.code <> a.code
+      ))
+      FROM jsonb_array_elements_text(r.welfare_cut) AS a(code)
+      WHERE jsonb_array_length(r.welfare_cut) > 1
+    ), '{}'::jsonb),
+    CASE
+      WHEN r.friends_arrears_perception IS NULL THEN '{}'::jsonb
+      ELSE jsonb_build_object(r.friends_arrears_perception, delta)
+    END,
+    CURRENT_TIMESTAMP
+  )
+  ON CONFLICT (edition_id) DO UPDATE SET
+    total_responses = aggregated_stats.total_responses + EXCLUDED.total_responses,
+    income_growth = aggregated_stats.income_growth + EXCLUDED.income_growth,
+    income_stable = aggregated_stats.income_stable + EXCLUDED.income_stable,
+    income_decline = aggregated_stats.income_decline + EXCLUDED.income_decline,
+    friends_better = aggregated_stats.friends_better + EXCLUDED.friends_better,
+    friends_mixed = aggregated_stats.friends_mixed + EXCLUDED.friends_mixed,
+    friends_worse = aggregated_stats.friends_worse + EXCLUDED.friends_worse,
+    arrears_safe = aggregated_stats.arrears_safe + EXCLUDED.arrears_safe,
+    arrears_risk = aggregated_stats.arrears_risk + EXCLUDED.arrears_risk,
+    salary_histogram = jsonb_sum_counts(aggregated_stats.salary_histogram, EXCLUDED.salary_histogram),
+    pay_components_change = jsonb_sum_counts(aggregated_stats.pay_components_change, EXCLUDED.pay_components_change),
+    welfare_cut_respondents = aggregated_stats.welfare_cut_respondents + EXCLUDED.welfare_cut_respondents,
+    welfare_cut = jsonb_sum_counts(aggregated_stats.welfare_cut, EXCLUDED.welfare_cut),
+    welfare_cut_pairs = jsonb_sum_counts(aggregated_stats.welfare_cut_pairs, EXCLUDED.welfare_cut_pairs),
+    friends_arrears_perception = jsonb_sum_counts(aggregated_stats.friends_arrears_perception, EXCLUDED.friends_arrears_perception),
+    last_updated = EXCLUDED.last_updated;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 从头重算全部期次的统计（核对增量结果、修复漂移，或 TRUNCATE 等不触发行级触发器的操作之后使用）
+-- 返回每期的回复数，以及重算前的增量结果是否与重算结果不一致（drifted）
+-- 重算期间阻塞回复表的写入，避免与触发器的增量更新交错
+-- 用法：SELECT * FROM rebuild_aggregated_stats(); 或 POST /api/admin/rebuild-stats
+CREATE OR REPLACE FUNCTION rebuild_aggregated_stats()
+RETURNS TABLE (edition VARCHAR, responses INTEGER, drifted BOOLEAN) AS $$
+BEGIN
+  LOCK TABLE survey_responses IN SHARE MODE;
+
+  RETURN QUERY
+  WITH rebuilt AS (
+    SELECT
+      e.edition_id,
+      COUNT(r.id)::int AS total_responses,
+      COUNT(*) FILTER (WHERE r.personal_income = 'growth')::int AS income_growth,
+      COUNT(*) FILTER (WHERE r.personal_income = 'stable')::int AS income_stable,
+      COUNT(*) FILTER (WHERE r.personal_income IN ('mild_decline', 'severe_decline', 'halved_or_zero'))::int AS income_decline,
+      COUNT(*) FILTER (WHERE r.friends_status = 'better')::int AS friends_better,
+      COUNT(*) FILTER (WHERE r.friends_status = 'mixed')::int AS friends_mixed,
+      COUNT(*) FILTER (WHERE r.friends_status IN ('worse', 'protesting'))::int AS friends_worse,
+      COUNT(*) FILTER (WHERE r.personal_arrears IN ('never', 'delayed_then_paid'))::int AS arrears_safe,
+      COUNT(*) FILTER (WHERE r.personal_arrears IN ('owed_under_3m', 'owed_over_6m'))::int AS arrears_risk,
+      COALESCE((
+        SELECT jsonb_object_agg(h.months, h.cnt)
+        FROM (
+          SELECT m.salary_months::text AS months, COUNT(*) AS cnt
+          FROM survey_responses m
+          WHERE m.edition_id = e.edition_id AND NOT m.low_quality
+          GROUP BY m.salary_months
+        ) h
+      ), '{}'::jsonb) AS salary_histogram,
+      COALESCE((
+        SELECT jsonb_object_agg(d.row_code, d.distribution)
+        FROM (
+          SELECT c.row_code, jsonb_object_agg(c.option_code, c.cnt) AS distribution
+          FROM (
+            SELECT p.key AS row_code, p.value AS option_code, COUNT(*) AS cnt
+            FROM survey_responses m, jsonb_each_text(m.pay_components_change) AS p
+            WHERE m.edition_id = e.edition_id AND NOT m.low_quality
+            GROUP BY p.key, p.value
+          ) c
+          GROUP BY c.row_code
+        ) d
+      ), '{}'::jsonb) AS pay_components_change,
+      COUNT(r.welfare_cut)::int AS welfare_cut_respondents,
+      COALESCE((
+        SELECT jsonb_object_agg(w.code, w.cnt)
+        FROM (
+          SELECT o.code, COUNT(*) AS cnt
+          FROM survey_responses m, jsonb_array_elements_text(m.welfare_cut) AS o(code)
+          WHERE m.edition_id = e.edition_id AND NOT m.low_quality
+          GROUP BY o.code
+        ) w
+      ), '{}'::jsonb) AS welfare_cut,
+      COALESCE((
+        SELECT jsonb_object_agg(d.code_a, d.distribution)
+        FROM (
+          SELECT c.code_a, jsonb_object_agg(c.code_b, c.cnt) AS distribution
+          FROM (
+            SELECT a.code AS code_a, b.code AS code_b, COUNT(*) AS cnt
+            FROM survey_responses m,
+              jsonb_array_elements_text(m.welfare_cut) AS a(code),
+              jsonb_array_elements_text(m.welfare_cut) AS b(code)
+            WHERE m.edition_id = e.edition_id AND NOT m.low_quality AND a.code <> b.code
+            GROUP BY a.code, b.code
+          ) c
+          GROUP BY c.code_a
+        ) d
+      ), '{}'::jsonb) AS welfare_cut_pairs,
+      COALESCE((
+        SELECT jsonb_object_agg(f.code, f.cnt)
+        FROM (
+          SELECT m.friends_arrears_perception AS code, COUNT(*) AS cnt
+          FROM survey_responses m
+          WHERE m.edition_id = e.edition_id AND NOT m.low_quality AND m.friends_arrears_perception IS NOT NULL
+          GROUP BY m.friends_arrears_perception
+        ) f
+      ), '{}'::jsonb) AS friends_arrears_perception
+    FROM (
+      SELECT s.edition_id FROM aggregated_stats s
+      UNION
+      SELECT m.edition_id FROM survey_responses m
+    ) e
+    LEFT JOIN survey_responses r ON r.edition_id = e.edition_id AND NOT r.low_quality
+    GROUP BY e.edition_id
+  ),
+  previous AS (
+    SELECT s.* FROM aggregated_stats s
+  ),
+  saved AS (
+    INSERT INTO aggregated_stats AS s (
+      edition_id, total_responses, income_growth, income_stable, income_decline,
+      friends_better, friends_mixed, friends_worse, arrears_safe, arrears_risk,
+      salary_histogram, pay_components_change,
+      welfare_cut_respondents, welfare_cut, welfare_cut_pairs, friends_arrears_perception, last_updated
+    )
+    SELECT
+      b.edition_id, b.total_responses, b.income_growth, b.income_stable, b.income_decline,
+      b.friends_better, b.friends_mixed, b.friends_worse, b.arrears_safe, b.arrears_risk,
+      b.salary_histogram, b.pay_components_change,
+      b.welfare_cut_respondents, b.welfare_cut, b.welfare_cut_pairs, b.friends_arrears_perception, CURRENT_TIMESTAMP
+    FROM rebuilt b
+    ON CONFLICT (edition_id) DO UPDATE SET
+      total_responses = EXCLUDED.total_responses,
+      income_growth = EXCLUDED.income_growth,
+      income_stable = EXCLUDED.income_stable,
+      income_decline = EXCLUDED.income_decline,
+      friends_better = EXCLUDED.friends_better,
+      friends_mixed = EXCLUDED.friends_mixed,
+      friends_worse = EXCLUDED.friends_worse,
+      arrears_safe = EXCLUDED.arrears_safe,
+      arrears_risk = EXCLUDED.arrears_risk,
+      salary_histogram = EXCLUDED.salary_histogram,
+      pay_components_change = EXCLUDED.pay_components_change,
+      welfare_cut_respondents = EXCLUDED.welfare_cut_respondents,
+      welfare_cut = EXCLUDED.welfare_cut,
+      welfare_cut_pairs = EXCLUDED.welfare_cut_pairs,
+      friends_arrears_perception = EXCLUDED.friends_arrears_perception,
+      last_updated = EXCLUDED.last_updated
+    RETURNING s.edition_id
+  )
+  SELECT
+    b.edition_id,
+    b.total_responses,
+    p.edition_id IS NULL OR (
+      b.total_responses, b.income_growth, b.income_stable, b.income_decline,
+      b.friends_better, b.friends_mixed, b.friends_worse, b.arrears_safe, b.arrears_risk,
+      b.salary_histogram, b.pay_components_change,
+      b.welfare_cut_respondents, b.welfare_cut, b.welfare_cut_pairs, b.friends_arrears_perception
+    ) IS DISTINCT FROM (
+      p.total_responses, p.income_growth, p.income_stable, p.income_decline,
+      p.friends_better, p.friends_mixed, p.friends_worse, p.arrears_safe, p.arrears_risk,
+      p.salary_histogram, p.pay_components_change,
+      p.welfare_cut_respondents, p.welfare_cut, p.welfare_cut_pairs, p.friends_arrears_perception
+    )
+  FROM rebuilt b
+  LEFT JOIN previous p ON p.edition_id = b.edition_id
+  ORDER BY b.edition_id;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE aggregated_stats DROP COLUMN IF EXISTS median_salary_months;
+DROP FUNCTION IF EXISTS histogram_percentile(JSONB, NUMERIC);
+
+COMMIT;